@@ -0,0 +1,110 @@
+/**
+ * reference server of the HTTPServerData protocol executing the requests over an in-memory dataset
+ *
+ * usage: node demo/server.js [dataset.json] [port]
+ *  * requires a build of the server module: npm run build
+ *  * the dataset is a JSON file of the form {data: any[], columns: IColumnDesc[]}, a random one is used by default
+ *  * the protocol is available at http://localhost:<port>/api/<endpoint>, the other urls serve the files of this repository, e.g. /demo/remote.html
+ *  * in addition, GET /api/columns returns the column descriptions of the dataset
+ */
+'use strict';
+
+const http = require('http');
+const fs = require('fs');
+const path = require('path');
+const LocalServerData = require('../build/LineUpJS_server').LocalServerData;
+
+const root = path.resolve(__dirname, '..');
+const port = parseInt(process.argv[3] || '8080', 10);
+
+function randomDataset() {
+  const cats = ['c1', 'c2', 'c3'];
+  const data = [];
+  for (let i = 0; i < 1000; ++i) {
+    data.push({
+      label: 'Row ' + i,
+      a: Math.random() * 10,
+      b: Math.random() * 100,
+      cat: cats[Math.floor(Math.random() * cats.length)]
+    });
+  }
+  return {
+    data: data,
+    columns: [
+      {label: 'Label', type: 'string', column: 'label'},
+      {label: 'A', type: 'number', column: 'a', domain: [0, 10]},
+      {label: 'B', type: 'number', column: 'b', domain: [0, 100]},
+      {label: 'Cat', type: 'categorical', column: 'cat', categories: cats}
+    ]
+  };
+}
+
+const dataset = process.argv[2] ? JSON.parse(fs.readFileSync(process.argv[2], 'utf8')) : randomDataset();
+const server = new LocalServerData(dataset.data, dataset.columns);
+
+const mimeTypes = {
+  '.html': 'text/html',
+  '.js': 'application/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.map': 'application/json',
+  '.woff': 'application/font-woff',
+  '.woff2': 'font/woff2',
+  '.ttf': 'application/octet-stream'
+};
+
+function sendJSON(res, status, body) {
+  res.writeHead(status, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify(body));
+}
+
+function serveFile(req, res) {
+  const file = path.join(root, decodeURIComponent(req.url.split('?')[0]));
+  //reject files outside of the root, including sibling directories sharing its name as prefix
+  const relative = path.relative(root, file);
+  if (relative === '..' || relative.startsWith('..' + path.sep) || path.isAbsolute(relative)) {
+    res.writeHead(403);
+    res.end();
+    return;
+  }
+  fs.readFile(file, (error, content) => {
+    if (error) {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+    res.writeHead(200, {'Content-Type': mimeTypes[path.extname(file)] || 'text/plain'});
+    res.end(content);
+  });
+}
+
+http.createServer((req, res) => {
+  const match = req.url.match(/^\/api\/(\w+)$/);
+  if (!match) {
+    serveFile(req, res);
+    return;
+  }
+  if (req.method === 'GET' && match[1] === 'columns') {
+    sendJSON(res, 200, dataset.columns);
+    return;
+  }
+  if (req.method !== 'POST') {
+    sendJSON(res, 405, {error: 'POST requests only'});
+    return;
+  }
+  let body = '';
+  req.on('data', (chunk) => body += chunk);
+  req.on('end', () => {
+    let args;
+    try {
+      args = JSON.parse(body || '{}');
+    } catch (error) {
+      sendJSON(res, 400, {error: String(error)});
+      return;
+    }
+    //a throwing handler must not stop the whole server
+    Promise.resolve().then(() => server.handle(match[1], args)).then((result) => sendJSON(res, 200, result), (error) => sendJSON(res, 400, {error: String(error)}));
+  });
+}).listen(port, () => {
+  console.log(`serving ${dataset.data.length} rows at http://localhost:${port}/demo/remote.html`);
+});
@@ -0,0 +1,68 @@
+import DateColumn, {IDateFilter, DATE_BINNING} from '../model/DateColumn';
+import AFilterDialog, {filterMissingMarkup} from './AFilterDialog';
+import {Selection, time} from 'd3';
+
+const dateInput = time.format('%Y-%m-%d');
+
+export default class DateFilterDialog extends AFilterDialog<DateColumn> {
+  /**
+   * opens a dialog for filtering a date column
+   * @param column the column to filter
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(column: DateColumn, $header: Selection<DateColumn>, title: string = 'Filter') {
+    super(column, $header, title);
+  }
+
+  openDialog() {
+    const bak = this.column.getFilter() || {min: null, max: null, filterMissing: false};
+    const bakBinning = this.column.getBinning();
+    const toInput = (v: number) => v === null ? '' : dateInput(new Date(v));
+
+    const binnings = Object.keys(DATE_BINNING).map((b) => `<label><input type="radio" name="date_binning" value="${b}" ${bakBinning === b ? 'checked="checked"' : ''}>${b}</label>`);
+
+    const $popup = this.makePopup(`<label>From <input type="date" class="lu_date_min" value="${toInput(bak.min)}"></label><br>
+    <label>To <input type="date" class="lu_date_max" value="${toInput(bak.max)}"></label><br>
+    ${filterMissingMarkup(bak.filterMissing)}<br>
+    Histogram by: ${binnings.join(' ')}
+    <br>`);
+
+    const updateData = (filter: IDateFilter) => {
+      this.markFiltered(filter !== null && (filter.min !== null || filter.max !== null || filter.filterMissing));
+      this.column.setFilter(filter);
+    };
+
+    function updateImpl() {
+      //get value, the bounds are inclusive days
+      const min = dateInput.parse($popup.select('input.lu_date_min').property('value'));
+      const max = dateInput.parse($popup.select('input.lu_date_max').property('value'));
+      const filterMissing = $popup.select('input[type="checkbox"].lu_filter_missing').property('checked');
+      updateData({
+        min: min ? min.getTime() : null,
+        max: max ? time.day.offset(max, 1).getTime() - 1 : null,
+        filterMissing
+      });
+    }
+
+    $popup.selectAll('input[type="date"], input[type="checkbox"]').on('change', updateImpl);
+    $popup.selectAll('input[type="radio"]').on('change', () => {
+      this.column.setBinning($popup.select('input[type="radio"]:checked').property('value'));
+    });
+
+    $popup.select('.cancel').on('click', () => {
+      updateData(bak);
+      this.column.setBinning(bakBinning);
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', function () {
+      $popup.selectAll('input[type="date"]').property('value', '');
+      $popup.select('input[type="checkbox"].lu_filter_missing').property('checked', null);
+      updateData(null);
+    });
+    $popup.select('.ok').on('click', function () {
+      updateImpl();
+      $popup.remove();
+    });
+  }
+}
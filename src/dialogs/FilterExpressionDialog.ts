@@ -0,0 +1,82 @@
+import RankColumn from '../model/RankColumn';
+import {isSupportType} from '../model/Ranking';
+import {suggestFilterColumns} from '../model/FilterExpression';
+import AFilterDialog from './AFilterDialog';
+import {Selection, event as d3event} from 'd3';
+
+export default class FilterExpressionDialog extends AFilterDialog<RankColumn> {
+
+  /**
+   * opens a dialog for editing the filter expression of the ranking of the given rank column
+   * @param column the rank column of the ranking to filter
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(column: RankColumn, $header: Selection<RankColumn>, title: string = 'Filter Expression') {
+    super(column, $header, title || 'Filter Expression');
+  }
+
+  openDialog() {
+    const ranking = this.column.findMyRanker();
+    const bak = ranking.getFilterExpression();
+    const labels = ranking.flatColumns.filter((c) => !isSupportType(c.desc)).map((c) => c.label);
+
+    const $popup = this.makePopup(`<input type="text" autofocus placeholder="e.g. price > 10 and not name ~ /test/" style="width: 100%">
+    <div class="lu-filter-suggestions"></div>
+    <div class="lu-filter-problems"></div>`);
+    const input = <HTMLInputElement>$popup.select('input[type="text"]').property('value', bak).node();
+
+    const updateData = (expression: string) => {
+      const problems = ranking.setFilterExpression(expression);
+      $popup.select('.lu-filter-problems').text(problems.map((p) => `${p.message} (at ${p.position + 1})`).join('\n'));
+      this.markFiltered(problems.length === 0 && expression.trim() !== '');
+      return problems.length === 0;
+    };
+
+    const complete = (completion: string, from: number) => {
+      const position = input.selectionStart;
+      input.value = input.value.slice(0, from) + completion + ' ' + input.value.slice(position);
+      input.selectionStart = input.selectionEnd = from + completion.length + 1;
+      input.focus();
+      update();
+    };
+
+    function update() {
+      //validate and suggest column labels
+      const {problems} = ranking.checkFilterExpression(input.value);
+      $popup.select('.lu-filter-problems').text(problems.map((p) => `${p.message} (at ${p.position + 1})`).join('\n'));
+      const {from, completions} = suggestFilterColumns(input.value, input.selectionStart, labels);
+      const $completions = $popup.select('.lu-filter-suggestions').selectAll('span').data(completions);
+      $completions.enter().append('span');
+      $completions.text(String).on('click', (d) => complete(d, from));
+      $completions.exit().remove();
+    }
+
+    $popup.select('input[type="text"]').on('input', update).on('click', update).on('keydown', () => {
+      const e = <KeyboardEvent>d3event;
+      if (e.which === 9) { //tab for accepting the first suggestion
+        const {from, completions} = suggestFilterColumns(input.value, input.selectionStart, labels);
+        if (completions.length > 0) {
+          e.preventDefault();
+          complete(completions[0], from);
+        }
+      }
+    });
+    update();
+
+    $popup.select('.cancel').on('click', function () {
+      updateData(bak);
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', function () {
+      input.value = '';
+      updateData('');
+      update();
+    });
+    $popup.select('.ok').on('click', function () {
+      if (updateData(input.value)) {
+        $popup.remove();
+      }
+    });
+  }
+}
@@ -0,0 +1,93 @@
+import Column from '../model/Column';
+import Ranking from '../model/Ranking';
+import {createDesc, checkFormula, evaluateFormula, FORMULA_TYPES} from '../model/Formula';
+import ADataProvider from '../provider/ADataProvider';
+import ACommonDataProvider from '../provider/ACommonDataProvider';
+import ADialog from './ADialog';
+import {Selection, extent} from 'd3';
+
+/**
+ * derives the domain or the categories of the formula from the values of the given rows
+ * @param desc
+ * @param rows
+ */
+function deriveDesc(desc: any, rows: any[]) {
+  const values = rows.map((row) => evaluateFormula(desc.formula, row));
+  if (desc.type === 'number') {
+    const numbers = values.map((v) => v === null || v === '' ? NaN : +v).filter((v) => !isNaN(v));
+    desc.domain = numbers.length > 0 ? extent(numbers) : [0, 1];
+  } else if (desc.type === 'categorical') {
+    const categories = new Set<string>();
+    values.filter((v) => v !== null && v !== undefined && v !== '').forEach((v) => categories.add(String(v)));
+    desc.categories = Array.from(categories).sort();
+  }
+  return desc;
+}
+
+export default class FormulaDialog extends ADialog {
+  /**
+   * opens a dialog for adding a column computed out of the raw fields of the rows
+   * @param ranking the ranking to add the column to
+   * @param $header the visual header element of the rank column
+   * @param data the data provider for deriving the domain and registering the new column description
+   * @param title optional title
+   */
+  constructor(private readonly ranking: Ranking, $header: Selection<Column>, private readonly data: ADataProvider, title: string = 'Add Formula Column') {
+    super($header, title);
+  }
+
+  openDialog() {
+    const $popup = this.makePopup(`<input type="text" autofocus placeholder="e.g. revenue / employees or year(founded)" class="lu_formula" style="width: 100%"><br>
+    <div class="lu-script-problems"></div>
+    <label>Label <input type="text" class="lu_formula_label"></label><br>
+    <label>Type <select class="lu_formula_type">
+      ${Object.keys(FORMULA_TYPES).map((type) => `<option value="${type}">${FORMULA_TYPES[type]}</option>`).join('\n')}
+    </select></label>`);
+
+    const formula = () => $popup.select('input.lu_formula').property('value').trim();
+
+    const showProblems = () => {
+      const problems = checkFormula(formula());
+      $popup.select('.lu-script-problems').text(problems.map((p) => `${p.message} (at ${p.position + 1})`).join('\n'));
+      return problems.length === 0;
+    };
+
+    $popup.select('input.lu_formula').on('input', showProblems);
+
+    $popup.select('.cancel').on('click', () => {
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', () => {
+      $popup.select('input.lu_formula').property('value', '');
+      $popup.select('input.lu_formula_label').property('value', '');
+      $popup.select('select.lu_formula_type').property('selectedIndex', 0);
+      showProblems();
+    });
+    $popup.select('.ok').on('click', () => {
+      if (!showProblems()) {
+        return;
+      }
+      const label = $popup.select('input.lu_formula_label').property('value').trim();
+      const desc = createDesc(formula(), $popup.select('select.lu_formula_type').property('value'), label || formula());
+      const known = this.data.fromDescRef(desc);
+      if (known !== desc) {
+        //reuse the description of the same formula
+        const col = this.data.create(known);
+        col.setMetaData(Object.assign(col.getMetaData(), {label: desc.label}));
+        this.ranking.push(col);
+        $popup.remove();
+        return;
+      }
+      //the domain of all rows, the filtered ones might not cover it
+      this.data.viewUnfiltered(this.ranking).then((rows) => {
+        deriveDesc(desc, rows);
+        if (this.data instanceof ACommonDataProvider) {
+          //make it available in the pool, too
+          this.data.pushDesc(desc);
+        }
+        this.data.push(this.ranking, desc);
+      });
+      $popup.remove();
+    });
+  }
+}
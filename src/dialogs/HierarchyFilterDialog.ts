@@ -0,0 +1,89 @@
+import HierarchyColumn, {IHierarchyNode} from '../model/HierarchyColumn';
+import AFilterDialog, {filterMissingMarkup} from './AFilterDialog';
+import {Selection} from 'd3';
+
+export default class HierarchyFilterDialog extends AFilterDialog<HierarchyColumn> {
+
+  /**
+   * opens a dialog for filtering a hierarchy column
+   * @param column the column to filter
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(column: HierarchyColumn, $header: Selection<HierarchyColumn>, title: string = 'Filter') {
+    super(column, $header, title);
+  }
+
+  openDialog() {
+    const bak = this.column.getFilter();
+    const bakMissing = bak ? bak.filterMissing : false;
+    const popup = this.makePopup(`<div class="selectionTable"><table><thead><th class="selectAll"></th><th>Category</th></thead><tbody></tbody></table></div>
+        ${filterMissingMarkup(bakMissing)}<br>`);
+
+    // list all categories in hierarchy order
+    const trData: {node: IHierarchyNode, leaves: string[]}[] = [];
+    const visit = (node: IHierarchyNode) => {
+      trData.push({node, leaves: this.column.leavesOf([node.name])});
+      node.children.forEach(visit);
+    };
+    this.column.getHierarchy().children.forEach(visit);
+    const allLeaves = this.column.leavesOf(trData.filter((d) => d.node.depth === 1).map((d) => d.node.name));
+
+    const checked = new Set<string>(this.column.getIncludedLeaves());
+    const countChecked = (leaves: string[]) => leaves.reduce((acc, l) => acc + (checked.has(l) ? 1 : 0), 0);
+    const checkmark = (leaves: string[]) => {
+      const count = countChecked(leaves);
+      //tri state: all, some, or none of the leaves are checked
+      return '<i class="fa fa-' + (count === leaves.length ? 'check-square-o' : (count > 0 ? 'minus-square-o' : 'square-o')) + '"></i>';
+    };
+    const toggle = (leaves: string[]) => {
+      const checkAll = countChecked(leaves) < leaves.length;
+      leaves.forEach((l) => checkAll ? checked.add(l) : checked.delete(l));
+      redraw();
+    };
+
+    const $rows = popup.select('tbody').selectAll('tr').data(trData);
+    const $rowsEnter = $rows.enter().append('tr');
+    $rowsEnter.append('td').attr('class', 'checkmark');
+    $rowsEnter.append('td').attr('class', 'datalabel')
+      .style('padding-left', (d) => `${(d.node.depth - 1)}em`)
+      .text((d) => d.node.label);
+    $rowsEnter.on('click', (d) => toggle(d.leaves));
+
+    function redraw() {
+      $rows.select('.checkmark').html((d) => checkmark(d.leaves));
+      $rows.select('.datalabel').style('opacity', (d) => countChecked(d.leaves) > 0 ? '1.0' : '.8');
+      popup.select('.selectAll').html(checkmark(allLeaves));
+    }
+
+    popup.select('thead').on('click', () => toggle(allLeaves));
+    redraw();
+
+    const updateData = (leaves: string[], filterMissing: boolean) => {
+      const noFilter = leaves === null && filterMissing === false;
+      this.markFiltered(!noFilter);
+      if (noFilter) {
+        this.column.setFilter(null);
+      } else {
+        this.column.setIncludedLeaves(leaves || allLeaves, filterMissing);
+      }
+    };
+
+    popup.select('.cancel').on('click', () => {
+      popup.remove();
+      this.markFiltered(bak !== null);
+      this.column.setFilter(bak);
+    });
+    popup.select('.reset').on('click', function () {
+      allLeaves.forEach((l) => checked.add(l));
+      redraw();
+      updateData(null, false);
+    });
+    popup.select('.ok').on('click', function () {
+      const leaves = allLeaves.filter((l) => checked.has(l));
+      const filterMissing = popup.select('input[type="checkbox"].lu_filter_missing').property('checked');
+      updateData(leaves.length === allLeaves.length ? null : leaves, filterMissing);
+      popup.remove();
+    });
+  }
+}
@@ -1,5 +1,5 @@
 import AFilterDialog from './AFilterDialog';
-import NumberColumn, {IMappingFunction} from '../model/NumberColumn';
+import NumberColumn, {IMappingFunction, INumberColumnDesc, IMPUTATION} from '../model/NumberColumn';
 import {offset} from '../utils';
 import {select} from 'd3';
 import DataProvider from '../provider/ADataProvider';
@@ -26,6 +26,9 @@ export default class MappingsFilterDialog extends AFilterDialog<NumberColumn> {
       bak = this.column.getMapping(),
       act: IMappingFunction = bak.clone(),
       actfilter = bakfilter;
+    const bakImputation = this.column.getImputation(),
+      bakMissingValue = this.column.missingValue;
+    const imputations = Object.keys(IMPUTATION).map((d) => `<option value="${d}" ${bakImputation === d ? 'selected="selected"' : ''}>${d}</option>`);
 
     const popup = select('body').append('div')
       .attr({
@@ -34,7 +37,17 @@ export default class MappingsFilterDialog extends AFilterDialog<NumberColumn> {
         left: pos.left + 'px',
         top: pos.top + 'px'
       })
-      .html(this.dialogForm('<div class="mappingArea"></div>'));
+      .html(this.dialogForm(`<div class="mappingArea"></div>
+        <label>Missing values: <select class="lu_imputation">${imputations.join('')}</select></label>
+        <input type="number" class="lu_missing_value" size="5" value="${bakMissingValue}" ${bakImputation !== IMPUTATION.constant ? 'disabled="disabled"' : ''}>`));
+
+    const applyImputation = () => {
+      const imputation = popup.select('select.lu_imputation').property('value');
+      const missingValue = parseFloat(popup.select('input.lu_missing_value').property('value'));
+      popup.select('input.lu_missing_value').property('disabled', imputation !== IMPUTATION.constant);
+      this.column.setImputation(imputation, isNaN(missingValue) ? bakMissingValue : missingValue);
+    };
+    popup.selectAll('select.lu_imputation, input.lu_missing_value').on('change', applyImputation);
 
     const applyMapping = (newscale: IMappingFunction, filter: {min: number, max: number, filterMissing: boolean}) => {
       act = newscale;
@@ -61,10 +74,15 @@ export default class MappingsFilterDialog extends AFilterDialog<NumberColumn> {
     });
     popup.select('.cancel').on('click', () => {
       popup.remove();
+      this.column.setImputation(bakImputation, bakMissingValue);
       this.column.setMapping(bak);
       this.markFiltered(!bak.eq(original));
     });
-    popup.select('.reset').on('click', function () {
+    popup.select('.reset').on('click', () => {
+      const desc = <INumberColumnDesc>this.column.desc;
+      popup.select('select.lu_imputation').property('value', desc.imputation || IMPUTATION.constant);
+      popup.select('input.lu_missing_value').property('value', desc.missingValue !== undefined ? desc.missingValue : 0);
+      applyImputation();
       bak = original;
       act = bak.clone();
       bakfilter = NumberColumn.noFilter();
@@ -0,0 +1,62 @@
+import BoxPlotColumn, {IBoxPlotFilter, SORT_METHOD} from '../model/BoxPlotColumn';
+import MultiValueColumn, {FILTER_MODES} from '../model/MultiValueColumn';
+import AFilterDialog, {filterMissingMarkup} from './AFilterDialog';
+import {Selection} from 'd3';
+
+export default class MultiValueFilterDialog extends AFilterDialog<BoxPlotColumn|MultiValueColumn> {
+  /**
+   * opens a dialog for filtering a box plot or multi value column by the range of a statistic or of its values
+   * @param column the column to filter
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(column: BoxPlotColumn|MultiValueColumn, $header: Selection<BoxPlotColumn|MultiValueColumn>, title: string = 'Filter') {
+    super(column, $header, title);
+  }
+
+  openDialog() {
+    const isMultiValue = this.column instanceof MultiValueColumn;
+    const bak = this.column.getFilter() || {mode: isMultiValue ? 'any' : SORT_METHOD.median, min: null, max: null, filterMissing: false};
+    const domain = this.column.getDomain();
+    const toInput = (v: number) => v === null ? '' : String(v);
+
+    const labels = isMultiValue ? FILTER_MODES : SORT_METHOD;
+    const modes = Object.keys(labels).map((m) => `<option value="${m}" ${bak.mode === m ? 'selected="selected"' : ''}>${labels[m]}</option>`);
+
+    const $popup = this.makePopup(`<label><select class="lu_multivalue_mode">${modes.join('')}</select> within</label><br>
+    <label>Min <input type="number" class="lu_multivalue_min" step="any" placeholder="${domain[0]}" value="${toInput(bak.min)}"></label><br>
+    <label>Max <input type="number" class="lu_multivalue_max" step="any" placeholder="${domain[1]}" value="${toInput(bak.max)}"></label><br>
+    ${filterMissingMarkup(bak.filterMissing)}<br>`);
+
+    const updateData = (filter: IBoxPlotFilter) => {
+      this.markFiltered(filter !== null && (filter.min !== null || filter.max !== null || filter.filterMissing));
+      this.column.setFilter(filter);
+    };
+
+    function updateImpl() {
+      const toValue = (v: string) => v === '' ? null : parseFloat(v);
+      updateData({
+        mode: $popup.select('select.lu_multivalue_mode').property('value'),
+        min: toValue($popup.select('input.lu_multivalue_min').property('value')),
+        max: toValue($popup.select('input.lu_multivalue_max').property('value')),
+        filterMissing: $popup.select('input[type="checkbox"].lu_filter_missing').property('checked')
+      });
+    }
+
+    $popup.selectAll('input, select').on('change', updateImpl);
+
+    $popup.select('.cancel').on('click', () => {
+      updateData(bak);
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', function () {
+      $popup.selectAll('input[type="number"]').property('value', '');
+      $popup.select('input[type="checkbox"].lu_filter_missing').property('checked', null);
+      updateData(null);
+    });
+    $popup.select('.ok').on('click', function () {
+      updateImpl();
+      $popup.remove();
+    });
+  }
+}
@@ -0,0 +1,52 @@
+import Column from '../model/Column';
+import Ranking from '../model/Ranking';
+import ADialog from './ADialog';
+import {Selection} from 'd3';
+
+export default class PinnedRowsDialog extends ADialog {
+  /**
+   * opens a dialog for pinning rows on top of a ranking
+   * @param ranking the ranking to edit
+   * @param $header the visual header element of a column of this ranking
+   * @param selection the data indices of the selected rows
+   * @param title optional title
+   */
+  constructor(private readonly ranking: Ranking, $header: Selection<Column>, private readonly selection: number[], title: string = 'Pinned Rows') {
+    super($header, title);
+  }
+
+  openDialog() {
+    const bak = this.ranking.getPinned();
+    const bakFilter = this.ranking.isFilterPinned();
+    const disabled = this.selection.length === 0 ? 'disabled="disabled"' : '';
+
+    const $popup = this.makePopup(`<label><input type="radio" name="pinned_rows" value="keep" checked="checked">Keep the ${bak.length} pinned rows</label><br>
+    <label><input type="radio" name="pinned_rows" value="add" ${disabled}>Pin the ${this.selection.length} selected rows</label><br>
+    <label><input type="radio" name="pinned_rows" value="remove" ${disabled}>Unpin the selected rows</label><br>
+    <label><input type="radio" name="pinned_rows" value="clear">Unpin all rows</label><br>
+    <label><input type="checkbox" class="lu_pinned_unfiltered" ${bakFilter ? '' : 'checked="checked"'}>Show pinned rows even if filtered out</label><br>`);
+
+    $popup.select('.cancel').on('click', () => {
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', () => {
+      $popup.selectAll('input[type="radio"]').property('checked', (d, i) => i === 0);
+      $popup.select('input.lu_pinned_unfiltered').property('checked', false);
+    });
+    $popup.select('.ok').on('click', () => {
+      switch ($popup.select('input[type="radio"]:checked').property('value')) {
+        case 'add':
+          this.ranking.setPinned(bak.concat(this.selection.filter((d) => bak.indexOf(d) < 0)));
+          break;
+        case 'remove':
+          this.ranking.setPinned(bak.filter((d) => this.selection.indexOf(d) < 0));
+          break;
+        case 'clear':
+          this.ranking.setPinned([]);
+          break;
+      }
+      this.ranking.setFilterPinned(!$popup.select('input.lu_pinned_unfiltered').property('checked'));
+      $popup.remove();
+    });
+  }
+}
@@ -0,0 +1,58 @@
+import RankDeltaColumn, {IRankDeltaFilter} from '../model/RankDeltaColumn';
+import AFilterDialog, {filterMissingMarkup} from './AFilterDialog';
+import {Selection} from 'd3';
+
+export default class RankDeltaFilterDialog extends AFilterDialog<RankDeltaColumn> {
+  /**
+   * opens a dialog for filtering a rank delta column
+   * @param column the column to filter
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(column: RankDeltaColumn, $header: Selection<RankDeltaColumn>, title: string = 'Filter') {
+    super(column, $header, title);
+  }
+
+  openDialog() {
+    const bak = this.column.getFilter() || {min: null, max: null, absolute: false, filterMissing: false};
+    const toInput = (v: number) => v === null ? '' : String(v);
+
+    const $popup = this.makePopup(`<label>Moved at least <input type="number" class="lu_delta_min" size="5" value="${toInput(bak.min)}"></label><br>
+    <label>Moved at most <input type="number" class="lu_delta_max" size="5" value="${toInput(bak.max)}"></label> places<br>
+    <label><input type="checkbox" class="lu_delta_absolute" ${bak.absolute ? 'checked="checked"' : ''}>In any direction</label><br>
+    ${filterMissingMarkup(bak.filterMissing)}<br>`);
+
+    const updateData = (filter: IRankDeltaFilter) => {
+      this.markFiltered(filter !== null && (filter.min !== null || filter.max !== null || filter.filterMissing));
+      this.column.setFilter(filter);
+    };
+
+    function updateImpl() {
+      //get value, negative bounds for moving down
+      const min = $popup.select('input.lu_delta_min').property('value');
+      const max = $popup.select('input.lu_delta_max').property('value');
+      updateData({
+        min: min === '' ? null : parseFloat(min),
+        max: max === '' ? null : parseFloat(max),
+        absolute: $popup.select('input.lu_delta_absolute').property('checked'),
+        filterMissing: $popup.select('input[type="checkbox"].lu_filter_missing').property('checked')
+      });
+    }
+
+    $popup.selectAll('input').on('change', updateImpl);
+
+    $popup.select('.cancel').on('click', () => {
+      updateData(bak);
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', function () {
+      $popup.selectAll('input[type="number"]').property('value', '');
+      $popup.selectAll('input[type="checkbox"]').property('checked', null);
+      updateData(null);
+    });
+    $popup.select('.ok').on('click', function () {
+      updateImpl();
+      $popup.remove();
+    });
+  }
+}
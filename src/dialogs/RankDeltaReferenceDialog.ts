@@ -0,0 +1,45 @@
+import Column from '../model/Column';
+import Ranking from '../model/Ranking';
+import RankDeltaColumn from '../model/RankDeltaColumn';
+import ADialog from './ADialog';
+import {Selection} from 'd3';
+
+export default class RankDeltaReferenceDialog extends ADialog {
+  /**
+   * opens a dialog for choosing the reference order of a rank delta column
+   * @param column the column to edit
+   * @param $header the visual header element of this column
+   * @param rankings the rankings to choose from
+   * @param title optional title
+   */
+  constructor(private readonly column: RankDeltaColumn, $header: Selection<Column>, private readonly rankings: Ranking[], title: string = 'Compare With') {
+    super($header, title);
+  }
+
+  openDialog() {
+    const bak = this.column.getReference();
+    const own = this.column.findMyRanker();
+    const others = this.rankings.filter((r) => r !== own);
+
+    const $popup = this.makePopup(`<label><input type="radio" name="rankdelta_reference" value="-1" ${bak === null ? 'checked="checked"' : ''}>Pinned order of this ranking</label><br>
+    <label><input type="checkbox" class="lu_delta_repin">Pin the current order</label><br>
+    ${others.map((r, i) => `<label><input type="radio" name="rankdelta_reference" value="${i}" ${bak === r ? 'checked="checked"' : ''}>Ranking ${this.rankings.indexOf(r) + 1}</label><br>`).join('\n')}`);
+
+    $popup.select('.cancel').on('click', () => {
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', () => {
+      $popup.selectAll('input[type="radio"]').property('checked', (d, i) => i === 0);
+      $popup.select('input.lu_delta_repin').property('checked', true);
+    });
+    $popup.select('.ok').on('click', () => {
+      const index = parseInt($popup.select('input[type="radio"]:checked').property('value'), 10);
+      if (index >= 0) {
+        this.column.setReference(others[index]);
+      } else if (bak !== null || $popup.select('input.lu_delta_repin').property('checked')) {
+        this.column.pin();
+      }
+      $popup.remove();
+    });
+  }
+}
@@ -0,0 +1,90 @@
+import Column from '../model/Column';
+import Ranking, {isSupportType} from '../model/Ranking';
+import ADialog from './ADialog';
+import {dropAble} from '../utils';
+import {Selection, event as d3event} from 'd3';
+
+const MIME_TYPE = 'application/caleydo-lineup-sort-criteria';
+
+export default class RankingSortDialog extends ADialog {
+  /**
+   * opens a dialog for editing the nested sort criterias of a ranking
+   * @param ranking the ranking to sort
+   * @param $header the visual header element of the rank column
+   * @param title optional title
+   */
+  constructor(private readonly ranking: Ranking, $header: Selection<Column>, title: string = 'Sort Criterias') {
+    super($header, title);
+  }
+
+  openDialog() {
+    const bak = this.ranking.getSortCriterias();
+    const max = this.ranking.getMaxSortCriterias();
+    const columns = this.ranking.flatColumns.filter((c) => !isSupportType(c.desc));
+    let criterias: {col: Column, asc: boolean}[] = bak.map((d) => Object.assign({}, d));
+
+    const $popup = this.makePopup(`<table class="lu-sort-criterias"></table>
+      <select><option value="">Add sort criteria...</option></select>`);
+
+    const move = (from: number, to: number) => {
+      const moved = criterias.splice(from, 1)[0];
+      criterias.splice(to, 0, moved);
+      redraw();
+    };
+
+    function redraw() {
+      const $rows = $popup.select('table').selectAll('tr').data(criterias, (d) => d.col.id);
+      const $rowsEnter = $rows.enter().append('tr').attr('draggable', true).on('dragstart', (d) => {
+        const e = <DragEvent>(<any>d3event);
+        e.dataTransfer.effectAllowed = 'move';
+        e.dataTransfer.setData('text/plain', d.col.label);
+        e.dataTransfer.setData(MIME_TYPE, String(criterias.indexOf(d)));
+      }).call(dropAble([MIME_TYPE], (data, d: {col: Column, asc: boolean}) => {
+        move(parseInt(data[MIME_TYPE], 10), criterias.indexOf(d));
+        return true;
+      }));
+      $rowsEnter.append('td').attr('class', 'lu-sort-index');
+      $rowsEnter.append('td').text((d) => d.col.label);
+      $rowsEnter.append('td').append('i').attr('title', 'Toggle Sort Order').on('click', (d) => {
+        d.asc = !d.asc;
+        redraw();
+      });
+      $rowsEnter.append('td').append('i').attr('class', 'fa fa-times').attr('title', 'Remove').on('click', (d) => {
+        criterias.splice(criterias.indexOf(d), 1);
+        redraw();
+      });
+      $rows.order();
+      $rows.select('td.lu-sort-index').text((d, i) => `${i + 1}.`);
+      $rows.select('i[title="Toggle Sort Order"]').attr('class', (d) => `fa fa-sort-amount-${d.asc ? 'asc' : 'desc'}`);
+      $rows.exit().remove();
+
+      const $options = $popup.select('select').property('disabled', criterias.length >= max)
+        .selectAll('option.lu-sort-candidate').data(columns.filter((c) => !criterias.some((s) => s.col === c)), (d) => d.id);
+      $options.enter().append('option').attr('class', 'lu-sort-candidate').attr('value', (d) => d.id).text((d) => d.label);
+      $options.exit().remove();
+    }
+
+    $popup.select('select').on('change', function () {
+      const col = columns.find((c) => c.id === this.value);
+      this.value = '';
+      if (col) {
+        criterias.push({col, asc: false});
+        redraw();
+      }
+    });
+
+    redraw();
+
+    $popup.select('.cancel').on('click', () => {
+      $popup.remove();
+    });
+    $popup.select('.reset').on('click', () => {
+      criterias = bak.map((d) => Object.assign({}, d));
+      redraw();
+    });
+    $popup.select('.ok').on('click', () => {
+      this.ranking.setSortCriterias(criterias);
+      $popup.remove();
+    });
+  }
+}
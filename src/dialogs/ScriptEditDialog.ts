@@ -18,29 +18,25 @@ export default class ScriptEditDialog extends ADialog {
   openDialog() {
     const bak = this.column.getScript();
     const $popup = this.makePopup(`<div class="script-description">
-      <p>You can write any valid JavaScript code. It will be embedded in a function. Therefore the last statement has to return a value.
-      In case of a single line statement the code piece statement <code>return</code> will be automatically prefixed.</p>
-      <p>The function signature is: <br><code>(row: any, index: number, children: Column[], values: any[], raws: (number|null)[]) => number</code>
+      <p>You can write an expression computing the value of a row, e.g. <code>clamp(\`price\` * 2 + max(values), 0, 1)</code>.
+      It supports numbers, arithmetic (<code>+ - * / %</code>), comparisons (<code>&lt; &lt;= &gt; &gt;= == !=</code>), <code>and</code>, <code>or</code>, <code>not</code>,
+      conditionals (<code>test ? a : b</code>), arrays (<code>[a, b]</code>, <code>values[0]</code>, <code>values.length</code>), and the functions below. There is no access to any other JavaScript functions or objects.</p>
       <dl>
-        <dt>param: <code>row</code></dt>
-        <dd>the row in the dataset to compute the value for</dd>
-        <dt>param: <code>index</code></dt>
+        <dt><code>\`label\`</code></dt>
+        <dd>the value of the child column with the given label or id</dd>
+        <dt>variable: <code>index</code></dt>
         <dd>the index of the row</dd>
-        <dt>param: <code>children</code></dt>
-        <dd>the list of LineUp columns that are part of this ScriptColumn</dd>
-        <dt>param: <code>values</code></dt>
-        <dd>the computed value of each column (see <code>children</code>) for the current row</dd>
-        <dt>param: <code>raws</code></dt>
+        <dt>variable: <code>values</code></dt>
+        <dd>the computed value of each child column for the current row</dd>
+        <dt>variable: <code>raws</code></dt>
         <dd>similar to <code>values</code>. Numeric columns return by default the normalized value, this array gives access to the original "raw" values before mapping is applied</dd>
-        <dt>returns:</dt>
+        <dt>result:</dt>
         <dd>the computed number <strong>in the range [0, 1] or NaN</strong></dd>
       </dl>
-      <p>In addition to the standard JavaScript functions and objects (Math, ...) a couple of utility functions are available: </p>
+      <p>The available functions are: </p>
       <dl>
         <dt><code>max(arr: number[]) => number</code></dt>
-        <dd>computes the maximum of the given array of numbers</dd>
-        <dt><code>min(arr: number[]) => number</code></dt>
-        <dd>computes the minimum of the given array of numbers</dd>
+        <dd>computes the maximum of the given array of numbers, similarly <code>min</code>, <code>sum</code>, and <code>mean</code></dd>
         <dt><code>extent(arr: number[]) => [number, number]</code></dt>
         <dd>computes both minimum and maximum and returning an array with the first element the minimum and the second the maximum</dd>
         <dt><code>clamp(v: number, min: number, max: number) => number</code></dt>
@@ -51,11 +47,24 @@ export default class ScriptEditDialog extends ADialog {
         <dd>inverts a normalized value <code>v * (max - min) + min</code></dd>
         <dt><code>linear(v: number, input: [number, number], output: [number, number]) => number</code></dt>
         <dd>performs a linear mapping from input domain to output domain both given as an array of [min, max] values. <code>denormalize(normalize(v, input[0], input[1]), output[0], output[1])</code></dd>
+        <dt><code>abs, sqrt, pow, log, exp, floor, ceil, round</code></dt>
+        <dd>the corresponding math functions</dd>
+        <dt><code>isMissing(v: number) => boolean</code></dt>
+        <dd>whether the given value is missing</dd>
+        <dt><code>number, text, lower, upper, year, month, day</code></dt>
+        <dd>conversions of texts and dates</dd>
       </dl>
       </div><br>
       <textarea autofocus="true" rows="5" autofocus="autofocus" style="width: 95%;">${this.column.getScript()}</textarea>
+      <div class="lu-script-problems"></div>
       <br>`);
 
+    const showProblems = (script: string) => {
+      const problems = this.column.checkScript(script);
+      $popup.select('.lu-script-problems').text(problems.map((p) => `${p.message} (at ${p.position + 1})`).join('\n'));
+      return problems.length === 0;
+    };
+
     const updateData = (script: string) => {
       this.column.setScript(script);
     };
@@ -63,9 +72,18 @@ export default class ScriptEditDialog extends ADialog {
     const updateImpl = () => {
       //get value
       const script = $popup.select('textarea').property('value');
+      if (!showProblems(script)) {
+        return false;
+      }
       updateData(script);
+      return true;
     };
 
+    $popup.select('textarea').on('input', function (this: HTMLTextAreaElement) {
+      showProblems(this.value);
+    });
+    showProblems(bak);
+
     $popup.select('.cancel').on('click', function () {
       $popup.remove();
       $popup.select('textarea').property('value', bak);
@@ -73,11 +91,13 @@ export default class ScriptEditDialog extends ADialog {
     });
     $popup.select('.reset').on('click', function () {
       $popup.select('textarea').property('value', ScriptColumn.DEFAULT_SCRIPT);
+      showProblems(ScriptColumn.DEFAULT_SCRIPT);
       updateData(ScriptColumn.DEFAULT_SCRIPT);
     });
     $popup.select('.ok').on('click', function () {
-      updateImpl();
-      $popup.remove();
+      if (updateImpl()) {
+        $popup.remove();
+      }
     });
   }
 }
@@ -0,0 +1,74 @@
+import SetColumn, {SET_FILTER_MODES} from '../model/SetColumn';
+import AFilterDialog, {filterMissingMarkup} from './AFilterDialog';
+import {Selection} from 'd3';
+
+export default class SetFilterDialog extends AFilterDialog<SetColumn> {
+
+  /**
+   * opens a dialog for filtering a set column
+   * @param column the column to filter
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(column: SetColumn, $header: Selection<SetColumn>, title: string = 'Filter') {
+    super(column, $header, title);
+  }
+
+  openDialog() {
+    const bakOri = this.column.getFilter();
+    const bak = bakOri ? bakOri.elements : [];
+    const bakMode = bakOri ? bakOri.mode : 'any';
+    const bakMissing = bakOri ? bakOri.filterMissing : false;
+    const popup = this.makePopup(`${Object.keys(SET_FILTER_MODES).map((mode) => `<label><input type="radio" name="set_mode" value="${mode}" ${mode === bakMode ? 'checked="checked"' : ''}>${SET_FILTER_MODES[mode]}</label><br>`).join('\n')}
+        <div class="selectionTable"><table><thead><th class="selectAll"></th><th>Element</th></thead><tbody></tbody></table></div>
+        ${filterMissingMarkup(bakMissing)}<br>`);
+
+    const trData = this.column.categories.map((d) => ({cat: d, isChecked: bak.indexOf(d) >= 0}));
+
+    const $rows = popup.select('tbody').selectAll('tr').data(trData);
+    const $rowsEnter = $rows.enter().append('tr');
+    $rowsEnter.append('td').attr('class', 'checkmark');
+    $rowsEnter.append('td').attr('class', 'datalabel').text((d) => d.cat);
+    $rowsEnter.on('click', (d) => {
+      d.isChecked = !d.isChecked;
+      redraw();
+    });
+
+    function redraw() {
+      $rows.select('.checkmark').html((d) => '<i class="fa fa-' + ((d.isChecked) ? 'check-' : '') + 'square-o"></i>');
+      $rows.select('.datalabel').style('opacity', (d) => d.isChecked ? '1.0' : '.8');
+      const isCheckedAll = trData.every((d) => d.isChecked);
+      popup.select('.selectAll').html('<i class="fa fa-' + ((isCheckedAll) ? 'check-' : '') + 'square-o"></i>');
+    }
+
+    popup.select('thead').on('click', () => {
+      const isCheckedAll = trData.every((d) => d.isChecked);
+      trData.forEach((row) => row.isChecked = !isCheckedAll);
+      redraw();
+    });
+    redraw();
+
+    const updateData = (elements: string[], mode: string, filterMissing: boolean) => {
+      const noFilter = elements.length === 0 && filterMissing === false;
+      this.markFiltered(!noFilter);
+      this.column.setFilter(noFilter ? null : {mode, elements, filterMissing});
+    };
+
+    popup.select('.cancel').on('click', function () {
+      popup.remove();
+      updateData(bak, bakMode, bakMissing);
+    });
+    popup.select('.reset').on('click', function () {
+      trData.forEach((d) => d.isChecked = false);
+      redraw();
+      updateData([], 'any', false);
+    });
+    popup.select('.ok').on('click', function () {
+      const elements = trData.filter((d) => d.isChecked).map((d) => d.cat);
+      const mode = popup.select('input[name="set_mode"]:checked').property('value');
+      const filterMissing = popup.select('input[type="checkbox"].lu_filter_missing').property('checked');
+      updateData(elements, mode, filterMissing);
+      popup.remove();
+    });
+  }
+}
@@ -0,0 +1,35 @@
+import Column from '../model/Column';
+import ADialog from './ADialog';
+import BoxPlotColumn, {SORT_METHOD} from '../model/BoxPlotColumn';
+import MultiValueColumn, {SORT_METHOD as ADVANCED_SORT_METHOD} from '../model/MultiValueColumn';
+import {event as d3event} from 'd3';
+
+export default class SummaryDialog extends ADialog {
+  /**
+   * opens a dialog for choosing the summary statistic a box plot or multi value column contributes as a number, e.g. within a stacked column
+   * @param column the column
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(private readonly column: BoxPlotColumn|MultiValueColumn, $header: d3.Selection<Column>, title: string = 'Change Summary') {
+    super($header, title);
+  }
+
+  openDialog() {
+    const bak = this.column.getSummary();
+
+    const valueString = Object.keys(this.column instanceof MultiValueColumn ? ADVANCED_SORT_METHOD : SORT_METHOD);
+
+    const popup = this.makeSortPopup(valueString.map((d) => {
+      return `<input type="radio" name="multivaluesummary" value=${d}  ${(bak === d) ? 'checked' : ''} > ${d.slice(0,1).toUpperCase() + d.slice(1)} <br>`;
+    }).join('\n'));
+
+    const summaryContent = popup.selectAll('input[name=multivaluesummary]');
+    summaryContent.on('change', () => {
+      const target = (<MouseEvent>d3event).target;
+      this.column.setSummary((<HTMLInputElement>target).value);
+    });
+
+    this.hidePopupOnClickOutside(popup, summaryContent);
+  }
+}
@@ -0,0 +1,32 @@
+import Column from '../model/Column';
+import ADialog from './ADialog';
+import RankColumn, {TIE_MODES} from '../model/RankColumn';
+import {event as d3event, selectAll} from 'd3';
+
+export default class TieModeDialog extends ADialog {
+  /**
+   * opens a dialog for choosing how rows with equal values are ranked
+   * @param column the rank column
+   * @param $header the visual header element of this column
+   * @param title optional title
+   */
+  constructor(private readonly column: RankColumn, $header: d3.Selection<Column>, title: string = 'Change Tie Mode') {
+    super($header, title);
+  }
+
+  openDialog() {
+    const bak = this.column.getTieMode();
+
+    const popup = this.makeSortPopup(Object.keys(TIE_MODES).map((d) => {
+      return `<input type="radio" name="ranktiemode" value=${d}  ${(bak === d) ? 'checked' : ''} > ${TIE_MODES[d]} <br>`;
+    }).join('\n'));
+
+    const tieModeContent = selectAll('input[name=ranktiemode]');
+    tieModeContent.on('change', () => {
+      const target = (<MouseEvent>d3event).target;
+      this.column.setTieMode((<HTMLInputElement>target).value);
+    });
+
+    this.hidePopupOnClickOutside(popup, tieModeContent);
+  }
+}
@@ -5,6 +5,8 @@
 
 import Column, {IColumnDesc} from './model/Column';
 import DataProvider  from './provider/ADataProvider';
+import {IDumpProblem} from './provider/dump';
+import History, {IHistoryOptions} from './provider/History';
 import {renderers as defaultRenderers}  from './renderer/index';
 import {
   IRankingHook,
@@ -18,13 +20,17 @@ import {
 import {IHeaderRendererOptions} from './ui/HeaderRenderer';
 import {IBodyRendererOptions, default as ABodyRenderer} from './ui/ABodyRenderer';
 import {AEventDispatcher, ContentScroller, merge}  from './utils';
-import {scale as d3scale, selection, select, Selection} from 'd3';
+import {scale as d3scale, selection, select, Selection, event as d3event} from 'd3';
 import ICellRendererFactory from './renderer/ICellRendererFactory';
 
 export interface IBodyOptions {
   renderer?: string;
   visibleRowsOnly?: boolean;
   backupScrollRows?: number;
+  /**
+   * number of rows above and below the visible ones that should be prefetched
+   */
+  prefetchRows?: number;
 }
 
 export interface ILineUpConfig {
@@ -83,6 +89,16 @@ export interface ILineUpConfig {
    * the renderer to use for rendering the columns
    */
   renderers?: {[key: string]: ICellRendererFactory};
+
+  /**
+   * options of the undo/redo history
+   */
+  history?: IHistoryOptions & {
+    /**
+     * enable the keyboard shortcuts Ctrl+Z for undo and Ctrl+Y or Ctrl+Shift+Z for redo when LineUp has the focus
+     */
+    shortcuts?: boolean;
+  };
 }
 
 /**
@@ -117,6 +133,19 @@ export default class LineUp extends AEventDispatcher {
    */
   static readonly EVENT_UPDATE_FINISHED = 'updateFinished';
 
+  /**
+   * triggered when the undo/redo history changed
+   * @argument entries:IHistoryEntry[] all entries, the first one is the initial state
+   * @argument current:number the index of the current entry
+   */
+  static readonly EVENT_HISTORY_CHANGED = History.EVENT_HISTORY_CHANGED;
+
+  /**
+   * triggered when the state of a history entry couldn't be restored completely
+   * @argument problems:IDumpProblem[] the problems of the restored dump
+   */
+  static readonly EVENT_HISTORY_PROBLEMS = History.EVENT_RESTORE_PROBLEMS;
+
   /**
    * default config of LineUp with all available options
    */
@@ -145,6 +174,7 @@ export default class LineUp extends AEventDispatcher {
       rowBarPadding: 1,
       visibleRowsOnly: true,
       backupScrollRows: 4,
+      prefetchRows: 20,
       animationDuration: 1000,
       freezeCols: 0,
 
@@ -153,7 +183,12 @@ export default class LineUp extends AEventDispatcher {
     svgLayout: {},
     manipulative: true,
     pool: false,
-    renderers: merge({}, defaultRenderers)
+    renderers: merge({}, defaultRenderers),
+    history: {
+      coalesce: 300,
+      capacity: 100,
+      shortcuts: true
+    }
   };
 
   private $container: Selection<any>;
@@ -162,6 +197,10 @@ export default class LineUp extends AEventDispatcher {
   private header: HeaderRenderer = null;
   private pools: PoolRenderer[] = [];
   private contentScroller: ContentScroller = null;
+  /**
+   * the undo/redo history of the rankings
+   */
+  readonly history: History;
 
   constructor(container: Selection<any> | Element, public data: DataProvider, config: ILineUpConfig = {}) {
     super();
@@ -176,6 +215,13 @@ export default class LineUp extends AEventDispatcher {
     this.data.on(DataProvider.EVENT_SELECTION_CHANGED + '.main', this.triggerSelection.bind(this));
     this.data.on(DataProvider.EVENT_JUMP_TO_NEAREST + '.main', this.jumpToNearest.bind(this));
 
+    this.history = new History(data, this.config.history);
+    this.forward(this.history, LineUp.EVENT_HISTORY_CHANGED, LineUp.EVENT_HISTORY_PROBLEMS);
+    if (this.config.history.shortcuts) {
+      //focusable to receive the key events
+      this.$container.attr('tabindex', -1).on('keydown.history', this.onHistoryShortcut.bind(this));
+    }
+
     this.header = new HeaderRenderer(data, this.node, merge({}, this.config.header, {
       idPrefix: this.config.idPrefix,
       manipulative: this.config.manipulative,
@@ -200,6 +246,7 @@ export default class LineUp extends AEventDispatcher {
     if (this.config.body.visibleRowsOnly) {
       this.contentScroller = new ContentScroller(<Element>this.$container.node(), this.body.node, {
         backupRows: this.config.body.backupScrollRows,
+        prefetchRows: this.config.body.prefetchRows,
         rowHeight: this.config.body.rowHeight,
         topShift: () => this.header.currentHeight()
       });
@@ -207,6 +254,7 @@ export default class LineUp extends AEventDispatcher {
         //in two svg mode propagate horizontal shift
         //console.log(top, left,'ss');
         this.header.$node.style('transform', `translate(0px, ${top}px)`);
+        this.body.updatePinned(top);
         if (this.config.body.freezeCols > 0) {
           this.header.updateFreeze(left);
           this.body.updateFreeze(left);
@@ -217,7 +265,26 @@ export default class LineUp extends AEventDispatcher {
   }
 
   protected createEventList() {
-    return super.createEventList().concat([LineUp.EVENT_HOVER_CHANGED, LineUp.EVENT_SELECTION_CHANGED, LineUp.EVENT_MULTISELECTION_CHANGED, LineUp.EVENT_UPDATE_START, LineUp.EVENT_UPDATE_FINISHED]);
+    return super.createEventList().concat([LineUp.EVENT_HOVER_CHANGED, LineUp.EVENT_SELECTION_CHANGED, LineUp.EVENT_MULTISELECTION_CHANGED, LineUp.EVENT_UPDATE_START, LineUp.EVENT_UPDATE_FINISHED, LineUp.EVENT_HISTORY_CHANGED, LineUp.EVENT_HISTORY_PROBLEMS]);
+  }
+
+  private onHistoryShortcut() {
+    const event = <KeyboardEvent>d3event;
+    const target = <HTMLElement>event.target;
+    //keep the native undo of text fields
+    if (!(event.ctrlKey || event.metaKey) || target.isContentEditable || /^(input|textarea|select)$/i.test(target.tagName)) {
+      return;
+    }
+    const Z = 90, Y = 89;
+    let done = false;
+    if (event.keyCode === Z && !event.shiftKey) {
+      done = this.undo();
+    } else if (event.keyCode === Y || (event.keyCode === Z && event.shiftKey)) {
+      done = this.redo();
+    }
+    if (done) {
+      event.preventDefault();
+    }
   }
 
   /**
@@ -256,6 +323,7 @@ export default class LineUp extends AEventDispatcher {
    */
   destroy() {
     this.pools.forEach((p) => p.remove());
+    this.history.destroy();
     this.$container.remove();
     if (this.contentScroller) {
       this.contentScroller.destroy();
@@ -280,13 +348,41 @@ export default class LineUp extends AEventDispatcher {
     return this.data.dump();
   }
 
-  changeDataStorage(data: DataProvider, dump?: any) {
+  /**
+   * reverts the last change of the rankings
+   * @returns {boolean} whether there was something to undo
+   */
+  undo() {
+    return this.history.undo();
+  }
+
+  /**
+   * reapplies the last undone change of the rankings
+   * @returns {boolean} whether there was something to redo
+   */
+  redo() {
+    return this.history.redo();
+  }
+
+  /**
+   * changes the data provider and optionally restores the given dump
+   * @param data
+   * @param dump
+   * @returns {IDumpProblem[]} the problems while restoring the dump
+   */
+  changeDataStorage(data: DataProvider, dump?: any): IDumpProblem[] {
     if (this.data) {
       this.data.on([DataProvider.EVENT_SELECTION_CHANGED + '.main', DataProvider.EVENT_JUMP_TO_NEAREST + '.main'], null);
     }
+    const changed = this.data !== data;
     this.data = data;
+    let problems: IDumpProblem[] = [];
     if (dump) {
-      this.data.restore(dump);
+      problems = this.data.restore(dump);
+    }
+    //a restored dump of the same provider is just another undoable change
+    if (changed) {
+      this.history.changeDataStorage(data);
     }
     this.data.on(DataProvider.EVENT_SELECTION_CHANGED + '.main', this.triggerSelection.bind(this));
     this.data.on(DataProvider.EVENT_JUMP_TO_NEAREST + '.main', this.jumpToNearest.bind(this));
@@ -294,6 +390,7 @@ export default class LineUp extends AEventDispatcher {
     this.body.changeDataStorage(data);
     this.pools.forEach((p) => p.changeDataStorage(data));
     this.update();
+    return problems;
   }
 
   private triggerSelection(dataIndices: number[]) {
@@ -322,7 +419,7 @@ export default class LineUp extends AEventDispatcher {
   }
 
   restore(dump: any) {
-    this.changeDataStorage(this.data, dump);
+    return this.changeDataStorage(this.data, dump);
   }
 
   /**
@@ -4,7 +4,7 @@
 
 import {select, scale, behavior, Selection, event as d3event, mouse, selectAll} from 'd3';
 import {merge} from './utils';
-import {INumberFilter, IMappingFunction, ScaleMappingFunction, ScriptMappingFunction} from './model/NumberColumn';
+import {INumberFilter, IMappingFunction, ScaleMappingFunction, ScriptMappingFunction, DataMappingFunction, DATA_MAPPINGS} from './model/NumberColumn';
 import {filterMissingText} from './dialogs/AFilterDialog';
 
 
@@ -86,6 +86,10 @@ export default class MappingEditor {
         <option value="pow2">Pow 2</option>
         <option value="pow3">Pow 3</option>
         <option value="sqrt">Sqrt</option>
+        <option value="zscore">Z-Score</option>
+        <option value="robust">Robust (Median/IQR)</option>
+        <option value="percentile">Percentile</option>
+        <option value="quantile">Quantile (Quartiles)</option>
         <option value="script">Custom Script</option>
       </select>
       </label></div>
@@ -143,6 +147,7 @@ export default class MappingEditor {
         <label for="me${options.idPrefix}script_code">Custom Script</label><button>Apply</button>
         <textarea id="me${options.idPrefix}script_code">
         </textarea>
+        <div class="lu-script-problems"></div>
       </div>
     </form>`;
 
@@ -235,6 +240,7 @@ export default class MappingEditor {
 
     function renderMappingLines() {
       if (!(that.scale instanceof ScaleMappingFunction)) {
+        $root.select('g.mappings').selectAll('g.mapping').remove();
         return;
       }
 
@@ -428,8 +434,12 @@ export default class MappingEditor {
       const sscale = <ScriptMappingFunction>that.scale;
       const $text = $root.select('textarea').text(sscale.code);
 
+      const showProblems = () => $root.select('div.lu-script-problems').text(sscale.problems.map((p) => `${p.message} (at ${p.position + 1})`).join('\n'));
+      showProblems();
+
       $root.select('div.script').select('button').on('click', () => {
         sscale.code = $text.property('value');
+        showProblems();
         updateDataLines();
         triggerUpdate();
       });
@@ -525,28 +535,39 @@ export default class MappingEditor {
 
     updateRaw();
 
+    function useScale(mapping: IMappingFunction) {
+      that.scale = mapping;
+      updateDataLines();
+      renderMappingLines();
+      renderScript();
+      triggerUpdate();
+    }
+
     $root.select('select').on('change', function () {
       const v = this.value;
+      if (DATA_MAPPINGS.hasOwnProperty(v)) {
+        //fit to the data
+        that.dataPromise.then((data) => useScale(new DataMappingFunction(v, data, raw2pixel.domain())));
+        return;
+      }
       if (v === 'linear_invert') {
-        that.scale = new ScaleMappingFunction(raw2pixel.domain(), 'linear', [1, 0]);
+        useScale(new ScaleMappingFunction(raw2pixel.domain(), 'linear', [1, 0]));
       } else if (v === 'linear_abs') {
         const d = raw2pixel.domain();
-        that.scale = new ScaleMappingFunction([d[0], (d[1] - d[0]) / 2, d[1]], 'linear', [1, 0, 1]);
+        useScale(new ScaleMappingFunction([d[0], (d[1] - d[0]) / 2, d[1]], 'linear', [1, 0, 1]));
       } else if (v === 'script') {
-        that.scale = new ScriptMappingFunction(raw2pixel.domain());
+        useScale(new ScriptMappingFunction(raw2pixel.domain()));
       } else {
-        that.scale = new ScaleMappingFunction(raw2pixel.domain(), v);
+        useScale(new ScaleMappingFunction(raw2pixel.domain(), v));
       }
-      updateDataLines();
-      renderMappingLines();
-      renderScript();
-      triggerUpdate();
     }).property('selectedIndex', function () {
       let name = 'script';
       if (that.scale instanceof ScaleMappingFunction) {
         name = (<ScaleMappingFunction>that.scale).scaleType;
+      } else if (that.scale instanceof DataMappingFunction) {
+        name = (<DataMappingFunction>that.scale).mappingType;
       }
-      const types = ['linear', 'linear_invert', 'linear_abs', 'log', 'pow1.1', 'pow2', 'pow3', 'sqrt', 'script'];
+      const types = ['linear', 'linear_invert', 'linear_abs', 'log', 'pow1.1', 'pow2', 'pow3', 'sqrt', 'zscore', 'robust', 'percentile', 'quantile', 'script'];
       return types.indexOf(name);
     });
   }
@@ -0,0 +1,49 @@
+import Column, {IColumnDesc} from './Column';
+import {IGroup} from './Group';
+
+/**
+ * factory for creating a description creating an aggregate group column
+ * @param label
+ * @returns {{type: string, label: string}}
+ */
+export function createDesc(label: string = 'Aggregate Groups') {
+  return {type: 'aggregate', label};
+}
+
+/**
+ * a column for toggling whether a group of the ranking is aggregated
+ */
+export default class AggregateGroupColumn extends Column {
+  static readonly EVENT_AGGREGATE = 'aggregate';
+
+  constructor(id: string, desc: IColumnDesc) {
+    super(id, desc);
+    this.setWidthImpl(20);
+  }
+
+  protected createEventList() {
+    return super.createEventList().concat([AggregateGroupColumn.EVENT_AGGREGATE]);
+  }
+
+  isAggregated(group: IGroup) {
+    const r = this.findMyRanker();
+    if (r) {
+      return r.isAggregated(group);
+    }
+    return false;
+  }
+
+  setAggregated(group: IGroup, value: boolean) {
+    const r = this.findMyRanker();
+    if (!r || r.isAggregated(group) === value) {
+      return false;
+    }
+    r.setAggregated(group, value);
+    this.fire(AggregateGroupColumn.EVENT_AGGREGATE, group, value);
+    return true;
+  }
+
+  toggleAggregated(group: IGroup) {
+    return this.setAggregated(group, !this.isAggregated(group));
+  }
+}
@@ -46,6 +46,21 @@ export default class AnnotateColumn extends StringColumn {
     }
   }
 
+  /**
+   * remaps the annotations after the data indices changed, e.g., due to removed rows
+   * @param mapping maps the old data index to the new one, negative if the row doesn't exist anymore
+   */
+  remapAnnotations(mapping: (index: number) => number) {
+    const old = Array.from(this.annotations.entries());
+    this.annotations.clear();
+    old.forEach(([index, value]) => {
+      const next = mapping(index);
+      if (next >= 0) {
+        this.annotations.set(next, value);
+      }
+    });
+  }
+
   setValue(row: any, index: number, value: string) {
     const old = this.getValue(row, index);
     if (old === value) {
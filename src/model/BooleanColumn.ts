@@ -78,6 +78,17 @@ export default class BooleanColumn extends ValueColumn<boolean> {
     return this.currentFilter;
   }
 
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    return [{
+      type: 'boolean',
+      id: toId(this.desc),
+      filter: this.currentFilter
+    }];
+  }
+
   setFilter(filter: boolean) {
     if (this.currentFilter === filter) {
       return;
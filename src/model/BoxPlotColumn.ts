@@ -3,7 +3,9 @@
  */
 import ValueColumn, {IValueColumnDesc} from './ValueColumn';
 import Column from './Column';
-import {format} from 'd3';
+import {INumberColumn} from './NumberColumn';
+import StackColumn from './StackColumn';
+import {format, ascending, quantile, mean} from 'd3';
 
 export const SORT_METHOD = {
   min: 'min',
@@ -24,9 +26,14 @@ export interface IBoxPlotColumn {
   setSortMethod(sortMethod: string);
 }
 
-export interface IBoxPlotColumnDesc extends IValueColumnDesc<IBoxPlotData> {
+export interface IBoxPlotColumnDesc extends IValueColumnDesc<IBoxPlotData|number[]> {
   readonly domain?: number[];
   readonly sort?: string;
+  /**
+   * the summary statistic used as number of this column, e.g. within a stacked column, one of SORT_METHOD
+   * @default median
+   */
+  readonly summary?: string;
 }
 
 export interface IBoxPlotData {
@@ -35,6 +42,80 @@ export interface IBoxPlotData {
   readonly median: number;
   readonly q1: number;
   readonly q3: number;
+  /**
+   * optional mean of the values
+   */
+  readonly mean?: number;
+  /**
+   * optional values beyond the whiskers
+   */
+  readonly outliers?: number[];
+}
+
+/**
+ * filter by the range of a statistic of the box plot
+ */
+export interface IBoxPlotFilter {
+  /**
+   * the statistic to filter by, e.g. one of SORT_METHOD
+   */
+  mode: string;
+  /**
+   * inclusive bounds, null if unbounded
+   */
+  min: number;
+  max: number;
+  filterMissing: boolean;
+}
+
+export function isUnbounded(v: number) {
+  return v === null || v === undefined || isNaN(v);
+}
+
+/**
+ * whether the given value is within the bounds of the filter
+ * @param filter
+ * @param v
+ * @returns {boolean}
+ */
+export function isWithinFilter(filter: IBoxPlotFilter, v: number) {
+  return (filter.min === null || v >= filter.min) && (filter.max === null || v <= filter.max);
+}
+
+/**
+ * the factor of the interquartile range the whiskers extend at most
+ * @type {number}
+ */
+const WHISKER_IQR_FACTOR = 1.5;
+
+/**
+ * computes the box plot of the given values with Tukey whiskers, i.e. the whiskers end at the most extreme values within 1.5 IQR of the quartiles
+ * @param values
+ * @returns {IBoxPlotData} null if there are no valid values
+ */
+/**
+ * the computed box plots by their raw values, since a row is sorted, filtered, and rendered multiple times
+ */
+const boxPlots = new WeakMap<number[], IBoxPlotData>();
+
+export function computeBoxPlot(values: number[]): IBoxPlotData {
+  const sorted = values.filter((v) => v !== null && !isNaN(v)).sort(ascending);
+  if (sorted.length === 0) {
+    return null;
+  }
+  const q1 = quantile(sorted, 0.25), q3 = quantile(sorted, 0.75);
+  const iqr = q3 - q1;
+  const lower = q1 - WHISKER_IQR_FACTOR * iqr, upper = q3 + WHISKER_IQR_FACTOR * iqr;
+  const inner = sorted.filter((v) => v >= lower && v <= upper);
+  return {
+    min: inner[0],
+    max: inner[inner.length - 1],
+    median: quantile(sorted, 0.5),
+    q1,
+    q3,
+    mean: mean(sorted),
+    outliers: sorted.filter((v) => v < lower || v > upper)
+  };
 }
 
 
@@ -52,9 +133,13 @@ export function compareBoxPlot(col: IBoxPlotColumn, a: any, b: any, aIndex: numb
 }
 
 
-export default class BoxPlotColumn extends ValueColumn<IBoxPlotData> implements IBoxPlotColumn {
+export default class BoxPlotColumn extends ValueColumn<IBoxPlotData|number[]> implements IBoxPlotColumn, INumberColumn {
+  static readonly EVENT_SUMMARY_CHANGED = 'summaryChanged';
+
   private readonly domain;
   private sort: SortMethod;
+  private summary: string;
+  private currentFilter: IBoxPlotFilter = null;
 
   static readonly DEFAULT_FORMATTER = format('.3n');
 
@@ -62,7 +147,12 @@ export default class BoxPlotColumn extends ValueColumn<IBoxPlotData> implements
     super(id, desc);
     this.domain = desc.domain || [0, 100];
     this.sort = desc.sort || SORT_METHOD.min;
+    this.summary = SORT_METHOD.hasOwnProperty(desc.summary) ? desc.summary : SORT_METHOD.median;
+
+  }
 
+  protected createEventList() {
+    return super.createEventList().concat([BoxPlotColumn.EVENT_SUMMARY_CHANGED]);
   }
 
   compare(a: any, b: any, aIndex: number, bIndex: number): number {
@@ -73,12 +163,34 @@ export default class BoxPlotColumn extends ValueColumn<IBoxPlotData> implements
     return this.domain;
   }
 
+  getRendererType() {
+    //within a stacked column the summary statistic is shown as bar
+    if (this.parent instanceof StackColumn) {
+      return 'number';
+    }
+    return super.getRendererType();
+  }
+
+  /**
+   * @returns {IBoxPlotData} the box plot of the row, computed if the raw value is an array of numbers
+   */
   getBoxPlotData(row: any, index: number): IBoxPlotData {
-    return this.getValue(row, index);
+    const v = this.getValue(row, index);
+    if (v === null || v === undefined) {
+      return null;
+    }
+    if (!Array.isArray(v)) {
+      return <IBoxPlotData>v;
+    }
+    const values = <number[]>v;
+    if (!boxPlots.has(values)) {
+      boxPlots.set(values, computeBoxPlot(values));
+    }
+    return boxPlots.get(values);
   }
 
   getLabel(row: any, index: number): string {
-    const v = this.getValue(row, index);
+    const v = this.getBoxPlotData(row, index);
     if (v === null) {
       return '';
     }
@@ -86,6 +198,37 @@ export default class BoxPlotColumn extends ValueColumn<IBoxPlotData> implements
     return `BoxPlot(min = ${f(v.min)}, q1 = ${f(v.q1)}, median = ${f(v.median)}, q3 = ${f(v.q3)}, max = ${f(v.max)})`;
   }
 
+  /**
+   * @returns {number} the summary statistic of the box plot, NaN if missing
+   */
+  getRawNumber(row: any, index: number) {
+    const box = this.getBoxPlotData(row, index);
+    return box === null ? NaN : box[this.summary];
+  }
+
+  /**
+   * @returns {number} the summary statistic of the box plot normalized by the domain
+   */
+  getNumber(row: any, index: number) {
+    const v = this.getRawNumber(row, index);
+    return isNaN(v) ? NaN : Math.max(0, Math.min(1, (v - this.domain[0]) / (this.domain[1] - this.domain[0])));
+  }
+
+  getSummary() {
+    return this.summary;
+  }
+
+  /**
+   * sets the summary statistic used as number of this column
+   * @param summary one of SORT_METHOD
+   */
+  setSummary(summary: string) {
+    if (this.summary === summary || !SORT_METHOD.hasOwnProperty(summary)) {
+      return;
+    }
+    this.fire([BoxPlotColumn.EVENT_SUMMARY_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.summary, this.summary = summary);
+  }
+
   getSortMethod() {
     return this.sort;
   }
@@ -104,6 +247,10 @@ export default class BoxPlotColumn extends ValueColumn<IBoxPlotData> implements
   dump(toDescRef: (desc: any) => any): any {
     const r = super.dump(toDescRef);
     r.sortMethod = this.getSortMethod();
+    r.summary = this.getSummary();
+    if (this.currentFilter) {
+      r.filter = this.getFilter();
+    }
     return r;
   }
 
@@ -112,6 +259,65 @@ export default class BoxPlotColumn extends ValueColumn<IBoxPlotData> implements
     if (dump.sortMethod) {
       this.sort = dump.sortMethod;
     }
+    if (SORT_METHOD.hasOwnProperty(dump.summary)) {
+      this.summary = dump.summary;
+    }
+    if (dump.filter) {
+      this.currentFilter = {
+        mode: SORT_METHOD.hasOwnProperty(dump.filter.mode) ? dump.filter.mode : SORT_METHOD.median,
+        min: isUnbounded(dump.filter.min) ? null : dump.filter.min,
+        max: isUnbounded(dump.filter.max) ? null : dump.filter.max,
+        filterMissing: dump.filter.filterMissing === true
+      };
+    }
   }
-}
 
+  isFiltered() {
+    return this.currentFilter !== null;
+  }
+
+  filter(row: any, index: number) {
+    if (!this.isFiltered()) {
+      return true;
+    }
+    const box = this.getBoxPlotData(row, index);
+    if (box === null) {
+      return !this.currentFilter.filterMissing;
+    }
+    return isWithinFilter(this.currentFilter, box[this.currentFilter.mode]);
+  }
+
+  getFilter(): IBoxPlotFilter {
+    return this.currentFilter === null ? null : Object.assign({}, this.currentFilter);
+  }
+
+  /**
+   * sets the filter, unbounded ends are given as null
+   * @param filter the new filter or null to reset it
+   */
+  setFilter(filter: IBoxPlotFilter) {
+    let value: IBoxPlotFilter = null;
+    if (filter && (!isUnbounded(filter.min) || !isUnbounded(filter.max) || filter.filterMissing)) {
+      value = {
+        mode: SORT_METHOD.hasOwnProperty(filter.mode) ? filter.mode : SORT_METHOD.median,
+        min: isUnbounded(filter.min) ? null : filter.min,
+        max: isUnbounded(filter.max) ? null : filter.max,
+        filterMissing: filter.filterMissing === true
+      };
+    }
+    const bak = this.getFilter();
+    if (bak === value || (bak !== null && value !== null && bak.mode === value.mode && bak.min === value.min && bak.max === value.max && bak.filterMissing === value.filterMissing)) {
+      return;
+    }
+    this.currentFilter = value;
+    this.fire([Column.EVENT_FILTER_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, this.getFilter());
+  }
+
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    //same structure as the one of a multi value column
+    return [Object.assign({type: 'multiValue', id: toId(this.desc)}, this.currentFilter)];
+  }
+}
@@ -5,7 +5,8 @@
 import {ascending, scale} from 'd3';
 import Column, {IColumnDesc} from './Column';
 import ValueColumn,{IValueColumnDesc} from './ValueColumn';
-import StringColumn from './StringColumn';
+import StringColumn, {encodeRegExp} from './StringColumn';
+import {IGroup, missingGroup} from './Group';
 
 export interface ICategoricalColumn {
   readonly categories: string[];
@@ -50,7 +51,7 @@ export declare type ICategoricalDesc = IValueColumnDesc<string> & IBaseCategoric
  * @returns {boolean}
  */
 export function isCategoricalColumn(col: Column|IColumnDesc) {
-  return (col instanceof Column && typeof (<any>col).getCategories === 'function' || (!(col instanceof Column) && (<IColumnDesc>col).type.match(/(categorical|ordinal)/) != null));
+  return (col instanceof Column && typeof (<any>col).getCategories === 'function' || (!(col instanceof Column) && (<IColumnDesc>col).type.match(/(categorical|ordinal|hierarchy)/) != null));
 }
 
 export interface ICategoricalFilter {
@@ -86,6 +87,25 @@ function arrayEquals<T>(a: T[], b: T[]) {
   return a.every((ai, i) => ai === b[i]);
 }
 
+/**
+ * checks whether the given category passes the filter
+ * @param filter the filter attribute of an ICategoricalFilter
+ * @param category
+ * @returns {boolean}
+ */
+export function isCategoryIncluded(filter: string[]|string|RegExp, category: string) {
+  if (Array.isArray(filter) && filter.length > 0) { //array mode
+    return filter.indexOf(category) >= 0;
+  } else if (typeof filter === 'string' && filter.length > 0) { //search mode
+    return category != null && category.toLowerCase().indexOf(filter.toLowerCase()) >= 0;
+  } else if (filter instanceof RegExp) { //regex match mode
+    //test is stateful for global and sticky expressions
+    filter.lastIndex = 0;
+    return category != null && filter.test(category);
+  }
+  return true;
+}
+
 /**
  * column for categorical values
  */
@@ -223,6 +243,19 @@ export default class CategoricalColumn extends ValueColumn<string> implements IC
     return this.getCategories(row, index).map(this.colors);
   }
 
+  group(row: any, index: number): IGroup {
+    //group by the first category
+    const cats = this.getCategories(row, index);
+    if (cats.length === 0 || cats[0] === '') {
+      return missingGroup;
+    }
+    const cat = cats[0];
+    return {
+      name: this.catLabels.has(cat) ? this.catLabels.get(cat) : cat,
+      color: this.colors(cat)
+    };
+  }
+
   dump(toDescRef: (desc: any) => any): any {
     const r = super.dump(toDescRef);
     r.filter = this.currentFilter;
@@ -274,22 +307,26 @@ export default class CategoricalColumn extends ValueColumn<string> implements IC
       return false;
     }
 
-    return vs.every((v) => {
-      if (Array.isArray(filter) && filter.length > 0) { //array mode
-        return filter.indexOf(v) >= 0;
-      } else if (typeof filter === 'string' && filter.length > 0) { //search mode
-        return v && v.toLowerCase().indexOf(filter.toLowerCase()) >= 0;
-      } else if (filter instanceof RegExp) { //regex match mode
-        return v != null && v.match(filter).length > 0;
-      }
-      return true;
-    });
+    return vs.every((v) => isCategoryIncluded(filter, v));
   }
 
   getFilter() {
     return this.currentFilter;
   }
 
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    const filter = this.currentFilter.filter;
+    return [{
+      type: 'categorical',
+      id: toId(this.desc),
+      filter: filter instanceof RegExp ? encodeRegExp(filter) : filter,
+      filterMissing: this.currentFilter.filterMissing
+    }];
+  }
+
   setFilter(filter: ICategoricalFilter) {
     if (isEqualFilter(this.currentFilter, filter)) {
       return;
@@ -98,6 +98,10 @@ export default class CategoricalNumberColumn extends ValueColumn<number> impleme
     return CategoricalColumn.prototype.getValues.call(this, row, index);
   }
 
+  group(row: any, index: number) {
+    return CategoricalColumn.prototype.group.call(this, row, index);
+  }
+
   getNumber(row: any, index: number) {
     return this.getValue(row, index);
   }
@@ -182,6 +186,10 @@ export default class CategoricalNumberColumn extends ValueColumn<number> impleme
     return CategoricalColumn.prototype.setFilter.call(this, filter);
   }
 
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    return CategoricalColumn.prototype.toFilterDesc.call(this, toId);
+  }
+
   compare(a: any, b: any, aIndex: number, bIndex: number) {
     return NumberColumn.prototype.compare.call(this, a, b, aIndex, bIndex);
   }
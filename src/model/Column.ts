@@ -4,6 +4,7 @@
 
 import {AEventDispatcher} from '../utils';
 import Ranking from './Ranking';
+import {IGroup, defaultGroup} from './Group';
 
 /**
  * converts a given id to css compatible one
@@ -68,6 +69,10 @@ export interface IStatistics {
   readonly max: number;
   readonly mean: number;
   readonly count: number;
+  /**
+   * number of missing values, i.e. imputed ones
+   */
+  readonly missing?: number;
   readonly maxBin: number;
   readonly hist: {x: number; dx: number; y: number;}[];
 }
@@ -342,6 +347,18 @@ export default class Column extends AEventDispatcher {
     return false;
   }
 
+  /**
+   * toggles this column as additional sort criteria in the ranking
+   * @returns {any}
+   */
+  toggleMySortCriteria() {
+    const r = this.findMyRanker();
+    if (r) {
+      return r.toggleSortCriteria(this);
+    }
+    return false;
+  }
+
   /**
    * removes the column from the ranking
    * @returns {boolean}
@@ -449,6 +466,16 @@ export default class Column extends AEventDispatcher {
     return 0; //can't compare
   }
 
+  /**
+   * determines the group the given row belongs to when the ranking is grouped by this column
+   * @param row
+   * @param index the row index
+   * @return {IGroup}
+   */
+  group(row: any, index: number): IGroup {
+    return defaultGroup;
+  }
+
   /**
    * flag whether any filter is applied
    * @return {boolean}
@@ -500,4 +527,13 @@ export default class Column extends AEventDispatcher {
   toSortingDesc(toId: (desc: any) => string): any {
     return toId(this.desc);
   }
+
+  /**
+   * describe the filter settings of this column for transferring them to the server
+   * @param toId helper to convert a description to an id
+   * @return {any[]} json compatible filter descriptions, empty if not filtered
+   */
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    return [];
+  }
 }
@@ -151,6 +151,11 @@ export default class CompositeColumn extends Column implements IColumnParent {
     return this._children.map((c) => c.toSortingDesc(toId));
   }
 
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    //all children filters have to match
+    return [].concat(...this._children.map((c) => c.toFilterDesc(toId)));
+  }
+
   get canJustAddNumbers() {
     return false;
   }
@@ -0,0 +1,301 @@
+import {time} from 'd3';
+import Column from './Column';
+import ValueColumn, {IValueColumnDesc} from './ValueColumn';
+import {ICategoricalColumn} from './CategoricalColumn';
+import {IGroup, missingGroup} from './Group';
+
+export interface IDateColumnDesc extends IValueColumnDesc<Date> {
+  /**
+   * d3 time format for formatting the dates
+   * @default %x
+   */
+  readonly dateFormat?: string;
+  /**
+   * d3 time format for parsing string values, numbers are considered to be timestamps
+   * @default the dateFormat
+   */
+  readonly dateParse?: string;
+  /**
+   * timestamp range of the dates, determines the bins of the histogram
+   * @default the range of the dates of the data
+   */
+  readonly domain?: [number, number];
+  /**
+   * computes the timestamp range of the dates of the data, injected by the data provider
+   * @param value the parsed date of a row
+   * @returns {[number, number]} null if unknown
+   */
+  dataDomain?(value: (row: any, index: number) => Date): [number, number];
+  /**
+   * @default month
+   */
+  readonly binning?: string;
+}
+
+/**
+ * the date filter, the bounds are timestamps, null for unbounded
+ */
+export interface IDateFilter {
+  min: number;
+  max: number;
+  filterMissing: boolean;
+}
+
+/**
+ * the time intervals to bin the dates by, i.e. for the histogram and the grouping
+ */
+export const DATE_BINNING = {
+  day: 'day',
+  week: 'week',
+  month: 'month',
+  year: 'year'
+};
+
+/**
+ * time interval, key format, and label format of a binning
+ */
+const binnings: {[binning: string]: {interval: d3.time.Interval, key: string, label: string}} = {
+  day: {interval: time.day, key: '%Y-%m-%d', label: '%x'},
+  week: {interval: time.week, key: '%Y-%m-%d', label: 'Week of %x'},
+  month: {interval: time.month, key: '%Y-%m', label: '%b %Y'},
+  year: {interval: time.year, key: '%Y', label: '%Y'}
+};
+
+function isUnbounded(v: number) {
+  return v === null || v === undefined || isNaN(v);
+}
+
+/**
+ * a column of dates, which are parsed out of strings or timestamps
+ */
+export default class DateColumn extends ValueColumn<Date> implements ICategoricalColumn {
+  static readonly EVENT_BINNING_CHANGED = 'binningChanged';
+
+  private readonly format: d3.time.Format;
+  private readonly parse: d3.time.Format;
+  private readonly domain: [number, number];
+  private readonly dataDomain: (value: (row: any, index: number) => Date) => [number, number];
+  private binning = DATE_BINNING.month;
+  private currentFilter: IDateFilter = null;
+  /**
+   * the bin keys of the last binning and domain
+   */
+  private categoriesCache: {binning: string, domain: [number, number], categories: string[]} = null;
+
+  constructor(id: string, desc: IDateColumnDesc) {
+    super(id, desc);
+    this.setWidthImpl(100);
+    this.format = time.format(desc.dateFormat || '%x');
+    this.parse = time.format(desc.dateParse || desc.dateFormat || '%x');
+    this.domain = desc.domain || null;
+    this.dataDomain = desc.dataDomain || (() => null);
+    if (binnings.hasOwnProperty(desc.binning)) {
+      this.binning = desc.binning;
+    }
+
+    this.setRendererList([{type: 'date', label: 'Text'}, {type: 'timeline', label: 'Timeline'}]);
+  }
+
+  protected createEventList() {
+    return super.createEventList().concat([DateColumn.EVENT_BINNING_CHANGED]);
+  }
+
+  getValue(row: any, index: number): Date {
+    const v: any = super.getValue(row, index);
+    if (v instanceof Date) {
+      return isNaN(v.getTime()) ? null : v;
+    }
+    if (typeof v === 'number') {
+      return isNaN(v) ? null : new Date(v);
+    }
+    if (typeof v === 'string' && v !== '') {
+      return this.parse.parse(v);
+    }
+    return null;
+  }
+
+  getLabel(row: any, index: number) {
+    if (!this.isLoaded()) {
+      return '';
+    }
+    const v = this.getValue(row, index);
+    return v ? this.format(v) : '';
+  }
+
+  /**
+   * the relative position of the date within the domain or NaN if unknown
+   * @param row
+   * @param index
+   * @returns {number}
+   */
+  getRelativePosition(row: any, index: number) {
+    const v = this.getValue(row, index);
+    const domain = this.getDomainImpl();
+    if (!v || !domain || domain[1] === domain[0]) {
+      return NaN;
+    }
+    return Math.max(0, Math.min(1, (v.getTime() - domain[0]) / (domain[1] - domain[0])));
+  }
+
+  private getDomainImpl() {
+    return this.domain || this.dataDomain((row, index) => this.getValue(row, index));
+  }
+
+  /**
+   * @returns {[number, number]} the given domain or the one of the data, null if unknown
+   */
+  getDomain() {
+    const domain = this.getDomainImpl();
+    return domain ? <[number, number]>domain.slice() : null;
+  }
+
+  getBinning() {
+    return this.binning;
+  }
+
+  setBinning(binning: string) {
+    if (this.binning === binning || !binnings.hasOwnProperty(binning)) {
+      return;
+    }
+    this.fire([DateColumn.EVENT_BINNING_CHANGED, Column.EVENT_DIRTY_HEADER, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.binning, this.binning = binning);
+  }
+
+  /**
+   * the bin keys covering the domain, empty if the domain is unknown
+   * @returns {string[]}
+   */
+  get categories() {
+    const domain = this.getDomainImpl();
+    if (!domain) {
+      return [];
+    }
+    const cache = this.categoriesCache;
+    if (cache === null || cache.binning !== this.binning || cache.domain[0] !== domain[0] || cache.domain[1] !== domain[1]) {
+      const b = binnings[this.binning];
+      const key = time.format(b.key);
+      const categories = b.interval.range(b.interval.floor(new Date(domain[0])), new Date(domain[1] + 1)).map((d) => key(d));
+      this.categoriesCache = {binning: this.binning, domain, categories};
+    }
+    return this.categoriesCache.categories;
+  }
+
+  get categoryLabels() {
+    const b = binnings[this.binning];
+    const key = time.format(b.key), label = time.format(b.label);
+    return this.categories.map((c) => label(key.parse(c)));
+  }
+
+  /**
+   * the key of the bin of the date, a sortable string, e.g. 2017-03 in case of a monthly binning
+   * @param row
+   * @param index
+   * @returns {string[]}
+   */
+  getCategories(row: any, index: number) {
+    const v = this.getValue(row, index);
+    if (!v) {
+      return [];
+    }
+    const b = binnings[this.binning];
+    return [time.format(b.key)(b.interval.floor(v))];
+  }
+
+  colorOf(cat: string) {
+    return this.color;
+  }
+
+  group(row: any, index: number): IGroup {
+    const v = this.getValue(row, index);
+    if (!v) {
+      return missingGroup;
+    }
+    const b = binnings[this.binning];
+    return {
+      name: time.format(b.label)(b.interval.floor(v)),
+      color: this.color
+    };
+  }
+
+  dump(toDescRef: (desc: any) => any): any {
+    const r = super.dump(toDescRef);
+    r.binning = this.binning;
+    if (this.currentFilter !== null) {
+      r.filter = this.getFilter();
+    }
+    return r;
+  }
+
+  restore(dump: any, factory: (dump: any) => Column) {
+    super.restore(dump, factory);
+    if (binnings.hasOwnProperty(dump.binning)) {
+      this.binning = dump.binning;
+    }
+    if (dump.filter) {
+      this.currentFilter = {
+        min: isUnbounded(dump.filter.min) ? null : dump.filter.min,
+        max: isUnbounded(dump.filter.max) ? null : dump.filter.max,
+        filterMissing: dump.filter.filterMissing === true
+      };
+    }
+  }
+
+  compare(a: any, b: any, aIndex: number, bIndex: number) {
+    const av = this.getValue(a, aIndex), bv = this.getValue(b, bIndex);
+    if (!av) {
+      return bv ? +1 : 0; //missing ones last
+    }
+    if (!bv) {
+      return -1;
+    }
+    return av.getTime() - bv.getTime();
+  }
+
+  isFiltered() {
+    return this.currentFilter !== null;
+  }
+
+  filter(row: any, index: number) {
+    if (!this.isFiltered()) {
+      return true;
+    }
+    const v = this.getValue(row, index);
+    if (!v) {
+      return !this.currentFilter.filterMissing;
+    }
+    const t = v.getTime();
+    const {min, max} = this.currentFilter;
+    return (min === null || t >= min) && (max === null || t <= max);
+  }
+
+  getFilter(): IDateFilter {
+    return this.currentFilter === null ? null : Object.assign({}, this.currentFilter);
+  }
+
+  /**
+   * sets the filter, unbounded ends are given as null
+   * @param filter the new filter or null to reset it
+   */
+  setFilter(filter: IDateFilter) {
+    let value: IDateFilter = null;
+    if (filter && (!isUnbounded(filter.min) || !isUnbounded(filter.max) || filter.filterMissing)) {
+      value = {
+        min: isUnbounded(filter.min) ? null : filter.min,
+        max: isUnbounded(filter.max) ? null : filter.max,
+        filterMissing: filter.filterMissing === true
+      };
+    }
+    const bak = this.getFilter();
+    if (bak === value || (bak !== null && value !== null && bak.min === value.min && bak.max === value.max && bak.filterMissing === value.filterMissing)) {
+      return;
+    }
+    this.currentFilter = value;
+    this.fire([Column.EVENT_FILTER_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, this.getFilter());
+  }
+
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    return [Object.assign({type: 'date', id: toId(this.desc)}, this.currentFilter)];
+  }
+}
@@ -0,0 +1,525 @@
+import Column from './Column';
+import ValueColumn from './ValueColumn';
+import {isNumberColumn, INumberColumn} from './NumberColumn';
+import {isCategoricalColumn, ICategoricalColumn} from './CategoricalColumn';
+
+/**
+ * a problem detected while parsing a filter expression
+ */
+export interface IFilterExpressionProblem {
+  /**
+   * the character offset within the expression
+   */
+  readonly position: number;
+  readonly message: string;
+}
+
+/**
+ * json compatible regular expression literal, e.g. /test/i
+ */
+export interface IFilterRegExp {
+  regex: string;
+  flags: string;
+}
+
+export declare type FilterValue = number | string | boolean | IFilterRegExp | (number | string)[];
+
+export interface IFilterLogicNode {
+  type: 'and' | 'or';
+  operands: IFilterNode[];
+}
+
+export interface IFilterNotNode {
+  type: 'not';
+  operand: IFilterNode;
+}
+
+export interface IFilterCompareNode {
+  type: 'compare';
+  /**
+   * the referenced column, i.e. its label or id
+   */
+  column: string;
+  /**
+   * one of =, !=, <, <=, >, >=, ~, in
+   */
+  op: string;
+  value: FilterValue;
+}
+
+export interface IFilterMissingNode {
+  type: 'missing';
+  column: string;
+}
+
+/**
+ * the json compatible syntax tree of a filter expression
+ */
+export declare type IFilterNode = IFilterLogicNode | IFilterNotNode | IFilterCompareNode | IFilterMissingNode;
+
+export interface IParsedFilterExpression {
+  /**
+   * the syntax tree or null if the expression is empty or invalid
+   */
+  node: IFilterNode;
+  problems: IFilterExpressionProblem[];
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'is', 'missing', 'true', 'false'];
+const OPERATORS = ['<=', '>=', '!=', '==', '=', '<', '>', '~'];
+const IDENTIFIER = /^[A-Za-z_][\w]*$/;
+
+interface IToken {
+  type: string;
+  value: any;
+  position: number;
+}
+
+function isValidRegExp(value: IFilterRegExp) {
+  try {
+    return new RegExp(value.regex, value.flags) !== null;
+  } catch (e) {
+    return false;
+  }
+}
+
+class ParseError {
+  constructor(public readonly position: number, public readonly message: string) {
+
+  }
+}
+
+/**
+ * splits the expression in its tokens
+ * @param text
+ * @returns {IToken[]}
+ */
+function tokenize(text: string): IToken[] {
+  const tokens: IToken[] = [];
+  let i = 0;
+
+  const readQuoted = (end: string, escapes: boolean) => {
+    const start = i++;
+    let r = '';
+    while (i < text.length && text[i] !== end) {
+      if (escapes && text[i] === '\\' && i + 1 < text.length) {
+        i++;
+      }
+      r += text[i++];
+    }
+    if (i >= text.length) {
+      throw new ParseError(start, `missing closing ${end}`);
+    }
+    i++;
+    return r;
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    const rest = text.slice(i);
+    const position = i;
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const numeric = rest.match(/^-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+    const op = OPERATORS.find((o) => rest.indexOf(o) === 0);
+    if (numeric) {
+      tokens.push({type: 'number', value: parseFloat(numeric[0]), position});
+      i += numeric[0].length;
+    } else if (c === '"' || c === '\'') {
+      tokens.push({type: 'string', value: readQuoted(c, true), position});
+    } else if (c === '`') {
+      tokens.push({type: 'column', value: readQuoted(c, false), position});
+    } else if (c === '/') {
+      const source = readQuoted('/', false);
+      const flags = text.slice(i).match(/^[gimuy]*/)[0];
+      i += flags.length;
+      tokens.push({type: 'regex', value: {regex: source, flags}, position});
+    } else if (op) {
+      tokens.push({type: 'op', value: op === '==' ? '=' : op, position});
+      i += op.length;
+    } else if ('()[],'.indexOf(c) >= 0) {
+      tokens.push({type: c, value: c, position});
+      i++;
+    } else {
+      const word = rest.match(/^[A-Za-z_]\w*/);
+      if (!word) {
+        throw new ParseError(position, `unexpected character: ${c}`);
+      }
+      const lower = word[0].toLowerCase();
+      tokens.push(KEYWORDS.indexOf(lower) >= 0 ? {type: lower, value: lower, position} : {type: 'column', value: word[0], position});
+      i += word[0].length;
+    }
+  }
+  tokens.push({type: 'eof', value: null, position: text.length});
+  return tokens;
+}
+
+/**
+ * recursive descent parser of the grammar:
+ *
+ * or := and ('or' and)*
+ * and := not ('and' not)*
+ * not := 'not' not | '(' or ')' | condition
+ * condition := column ('is' 'not'? 'missing' | 'not'? 'in' list | operator value)
+ */
+class Parser {
+  private i = 0;
+
+  constructor(private readonly tokens: IToken[]) {
+
+  }
+
+  private get current() {
+    return this.tokens[this.i];
+  }
+
+  private expect(type: string, what = type) {
+    const t = this.current;
+    if (t.type !== type) {
+      throw new ParseError(t.position, t.type === 'eof' ? `unexpected end, expected ${what}` : `expected ${what} but got ${t.value}`);
+    }
+    this.i++;
+    return t;
+  }
+
+  private accept(type: string) {
+    if (this.current.type === type) {
+      this.i++;
+      return true;
+    }
+    return false;
+  }
+
+  parse(): IFilterNode {
+    const node = this.parseLogic('or');
+    this.expect('eof', 'end of expression');
+    return node;
+  }
+
+  private parseLogic(type: 'and' | 'or'): IFilterNode {
+    const next = () => type === 'or' ? this.parseLogic('and') : this.parseNot();
+    const operands = [next()];
+    while (this.accept(type)) {
+      operands.push(next());
+    }
+    return operands.length === 1 ? operands[0] : {type, operands};
+  }
+
+  private parseNot(): IFilterNode {
+    if (this.accept('not')) {
+      return {type: 'not', operand: this.parseNot()};
+    }
+    if (this.accept('(')) {
+      const node = this.parseLogic('or');
+      this.expect(')');
+      return node;
+    }
+    return this.parseCondition();
+  }
+
+  private parseCondition(): IFilterNode {
+    const column: string = this.expect('column', 'column').value;
+    if (this.accept('is')) {
+      const negate = this.accept('not');
+      this.expect('missing');
+      const node: IFilterNode = {type: 'missing', column};
+      return negate ? {type: 'not', operand: node} : node;
+    }
+    if (this.current.type === 'not' || this.current.type === 'in') {
+      const negate = this.accept('not');
+      this.expect('in');
+      const node: IFilterNode = {type: 'compare', column, op: 'in', value: this.parseList()};
+      return negate ? {type: 'not', operand: node} : node;
+    }
+    const op: string = this.expect('op', 'operator').value;
+    return {type: 'compare', column, op, value: this.parseValue(op)};
+  }
+
+  private parseList() {
+    this.expect('[');
+    const values: (number | string)[] = [];
+    if (!this.accept(']')) {
+      do {
+        const t = this.current;
+        if (t.type !== 'number' && t.type !== 'string') {
+          throw new ParseError(t.position, `expected number or string but got ${t.value}`);
+        }
+        values.push(t.value);
+        this.i++;
+      } while (this.accept(','));
+      this.expect(']');
+    }
+    return values;
+  }
+
+  private parseValue(op: string): FilterValue {
+    const t = this.current;
+    const allowed = op === '~' ? ['string', 'regex'] : (op === '=' || op === '!=' ? ['number', 'string', 'true', 'false'] : ['number', 'string']);
+    if (allowed.indexOf(t.type) < 0) {
+      throw new ParseError(t.position, t.type === 'eof' ? 'unexpected end, expected value' : `invalid value for ${op}: ${t.value}`);
+    }
+    this.i++;
+    if (t.type === 'true' || t.type === 'false') {
+      return t.type === 'true';
+    }
+    if (t.type === 'regex' && !isValidRegExp(t.value)) {
+      throw new ParseError(t.position, `invalid regular expression: ${t.value.regex}`);
+    }
+    return t.value;
+  }
+}
+
+/**
+ * parses a filter expression like: price > 10 and (region in ["EU", "US"] or rating >= 4) and not name ~ /test/
+ *
+ * columns are referenced by their label or id, labels which are no identifiers have to be quoted with backticks, e.g. `my column` = 5.
+ * the operators are =, !=, <, <=, >, >=, ~ (contains text or matches regex), in [list], and is (not) missing.
+ *
+ * @param text
+ * @returns {IParsedFilterExpression}
+ */
+export function parseFilterExpression(text: string): IParsedFilterExpression {
+  if (!text || text.trim() === '') {
+    return {node: null, problems: []};
+  }
+  try {
+    return {node: new Parser(tokenize(text)).parse(), problems: []};
+  } catch (e) {
+    if (e instanceof ParseError) {
+      return {node: null, problems: [{position: e.position, message: e.message}]};
+    }
+    throw e;
+  }
+}
+
+/**
+ * locates the column references within the given expression
+ * @param text a valid expression
+ * @returns {{column: string, position: number}[]} the column references in the order of their occurrence
+ */
+export function locateFilterColumns(text: string): {column: string, position: number}[] {
+  return tokenize(text).filter((t) => t.type === 'column').map((t) => ({column: <string>t.value, position: t.position}));
+}
+
+/**
+ * creates a copy of the syntax tree with replaced column references
+ * @param node
+ * @param f
+ * @returns {IFilterNode}
+ */
+export function mapFilterColumns(node: IFilterNode, f: (column: string) => any): IFilterNode {
+  switch (node.type) {
+    case 'and':
+    case 'or':
+      return {type: node.type, operands: (<IFilterLogicNode>node).operands.map((o) => mapFilterColumns(o, f))};
+    case 'not':
+      return {type: 'not', operand: mapFilterColumns((<IFilterNotNode>node).operand, f)};
+    default:
+      return Object.assign({}, node, {column: f((<IFilterCompareNode | IFilterMissingNode>node).column)});
+  }
+}
+
+/**
+ * @param node
+ * @returns {string[]} the distinct column references of the syntax tree
+ */
+export function filterColumnsOf(node: IFilterNode): string[] {
+  const r = new Set<string>();
+  mapFilterColumns(node, (column) => r.add(column));
+  return Array.from(r);
+}
+
+function toColumnText(column: string) {
+  return IDENTIFIER.test(column) && KEYWORDS.indexOf(column.toLowerCase()) < 0 ? column : `\`${column}\``;
+}
+
+function toValueText(value: FilterValue): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(toValueText).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return `/${(<IFilterRegExp>value).regex}/${(<IFilterRegExp>value).flags}`;
+  }
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * converts the syntax tree back to its textual representation
+ * @param node
+ * @param parent the type of the parent node for deciding about parentheses
+ * @returns {string}
+ */
+export function toFilterExpressionText(node: IFilterNode, parent = 'or'): string {
+  switch (node.type) {
+    case 'and':
+    case 'or': {
+      const r = (<IFilterLogicNode>node).operands.map((o) => toFilterExpressionText(o, node.type)).join(` ${node.type} `);
+      return parent === node.type || (parent === 'or' && node.type === 'and') ? r : `(${r})`;
+    }
+    case 'not':
+      return `not ${toFilterExpressionText((<IFilterNotNode>node).operand, 'not')}`;
+    case 'missing':
+      return `${toColumnText(node.column)} is missing`;
+    default: {
+      const n = <IFilterCompareNode>node;
+      return `${toColumnText(n.column)} ${n.op} ${toValueText(n.value)}`;
+    }
+  }
+}
+
+function isMissing(v: any) {
+  return v === null || v === undefined || v === '' || (typeof v === 'number' && isNaN(v));
+}
+
+/**
+ * the values of a row to test, empty if missing, multiple ones in case of categorical columns
+ */
+function valuesOf(col: Column, row: any, index: number): any[] {
+  //check the raw value since e.g. number columns replace missing values
+  if (col instanceof ValueColumn && isMissing(col.getRaw(row, index))) {
+    return [];
+  }
+  if (isNumberColumn(col)) {
+    const v = (<INumberColumn><any>col).getRawNumber(row, index);
+    return isNaN(v) ? [] : [v];
+  }
+  if (isCategoricalColumn(col)) {
+    return (<ICategoricalColumn><any>col).getCategories(row, index) || [];
+  }
+  const v = col.getValue(row, index);
+  return isMissing(v) ? [] : [v];
+}
+
+/**
+ * converts both to numbers for comparing them, dates can be compared with their textual representation
+ */
+function toNumbers(v: any, value: any): [number, number] {
+  if (v instanceof Date) {
+    return [v.getTime(), typeof value === 'string' ? Date.parse(value) : +value];
+  }
+  return [+v, +value];
+}
+
+function isEqual(v: any, value: any) {
+  if (typeof value === 'number' || v instanceof Date) {
+    const [a, b] = toNumbers(v, value);
+    return a === b;
+  }
+  if (typeof value === 'boolean') {
+    return v === value;
+  }
+  return String(v) === value;
+}
+
+function createTest(op: string, value: FilterValue): (v: any) => boolean {
+  switch (op) {
+    case '=':
+      return (v) => isEqual(v, value);
+    case 'in':
+      return (v) => (<any[]>value).some((l) => isEqual(v, l));
+    case '~':
+      if (typeof value === 'string') {
+        const search = value.toLowerCase();
+        return (v) => String(v).toLowerCase().indexOf(search) >= 0;
+      } else {
+        //the expression is reused for all rows, so drop the flags making test stateful
+        const regex = new RegExp((<IFilterRegExp>value).regex, (<IFilterRegExp>value).flags.replace(/[gy]/g, ''));
+        return (v) => regex.test(String(v));
+      }
+    case '<':
+      return (v) => {
+        const [a, b] = toNumbers(v, value);
+        return a < b;
+      };
+    case '<=':
+      return (v) => {
+        const [a, b] = toNumbers(v, value);
+        return a <= b;
+      };
+    case '>':
+      return (v) => {
+        const [a, b] = toNumbers(v, value);
+        return a > b;
+      };
+    case '>=':
+      return (v) => {
+        const [a, b] = toNumbers(v, value);
+        return a >= b;
+      };
+  }
+  return () => false;
+}
+
+/**
+ * compiles the syntax tree to a predicate of a row.
+ * Conditions are fulfilled if any value of the row, e.g., one of multiple categories, matches, != if none of them is equal.
+ * Thus, a row having a missing value fulfills just the != and is missing conditions.
+ *
+ * @param node
+ * @param resolve resolves a column reference, conditions of unknown columns are never fulfilled
+ * @returns {(row: any, index: number) => boolean}
+ */
+export function compileFilterExpression(node: IFilterNode, resolve: (column: string) => Column): (row: any, index: number) => boolean {
+  switch (node.type) {
+    case 'and': {
+      const operands = (<IFilterLogicNode>node).operands.map((o) => compileFilterExpression(o, resolve));
+      return (row, index) => operands.every((o) => o(row, index));
+    }
+    case 'or': {
+      const operands = (<IFilterLogicNode>node).operands.map((o) => compileFilterExpression(o, resolve));
+      return (row, index) => operands.some((o) => o(row, index));
+    }
+    case 'not': {
+      const operand = compileFilterExpression((<IFilterNotNode>node).operand, resolve);
+      return (row, index) => !operand(row, index);
+    }
+  }
+  const col = resolve((<IFilterCompareNode | IFilterMissingNode>node).column);
+  if (!col) {
+    return () => false;
+  }
+  if (node.type === 'missing') {
+    return (row, index) => valuesOf(col, row, index).length === 0;
+  }
+  const n = <IFilterCompareNode>node;
+  if (n.op === '!=') {
+    const equal = createTest('=', n.value);
+    return (row, index) => !valuesOf(col, row, index).some(equal);
+  }
+  const test = createTest(n.op, n.value);
+  return (row, index) => valuesOf(col, row, index).some(test);
+}
+
+/**
+ * finds the referenced column by its id or case insensitive label
+ * @param columns
+ * @param column
+ * @returns {Column}
+ */
+export function findFilterColumn(columns: Column[], column: string): Column {
+  const lower = column.toLowerCase();
+  return columns.find((c) => c.id === column) || columns.find((c) => c.label.toLowerCase() === lower) || null;
+}
+
+/**
+ * suggests column labels for completing the column reference being typed at the given position
+ * @param text the expression
+ * @param position the cursor position
+ * @param labels the labels of the available columns
+ * @returns {{from: number, completions: string[]}} the completions for replacing the text from the from position to the cursor position
+ */
+export function suggestFilterColumns(text: string, position: number, labels: string[]) {
+  const before = text.slice(0, position);
+  const quoted = (before.match(/`/g) || []).length % 2 === 1;
+  const from = quoted ? before.lastIndexOf('`') : before.search(/\w*$/);
+  const prefix = before.slice(quoted ? from + 1 : from).toLowerCase();
+  //columns are just referenced at the beginning of a condition
+  const head = before.slice(0, from).trim();
+  if (head !== '' && !/\($/.test(head) && !/(^|[\s(])(and|or|not)$/i.test(head)) {
+    return {from, completions: <string[]>[]};
+  }
+  const completions = labels.filter((l) => l.toLowerCase().indexOf(prefix) === 0).map(toColumnText);
+  return {from, completions};
+}
@@ -0,0 +1,77 @@
+import {compileScript, ICompiledScript, IScriptProblem} from './ScriptExpression';
+
+/**
+ * a column description whose values are derived from the raw fields of the row
+ */
+export interface IFormulaDesc {
+  /**
+   * expression computing the value out of the raw fields of the row, e.g. revenue / employees or year(founded).
+   * Fields which are no identifiers are referenced in backticks, e.g. `number of employees`
+   */
+  formula?: string;
+}
+
+/**
+ * the result types a formula column can have
+ */
+export const FORMULA_TYPES = {
+  number: 'Number',
+  string: 'String',
+  categorical: 'Category'
+};
+
+/**
+ * compiled formulas of the evaluated descriptions by their code since many columns share the same description
+ */
+const compiled = new Map<string, ICompiledScript>();
+
+function compileFormula(formula: string) {
+  if (!compiled.has(formula)) {
+    //any identifier is a field of the row
+    compiled.set(formula, compileScript(formula, null));
+  }
+  return compiled.get(formula);
+}
+
+/**
+ * factory for creating a description of a formula column
+ * @param formula the formula
+ * @param type the type of the resulting column, one of FORMULA_TYPES
+ * @param label
+ * @returns {{type: string, label: string, formula: string, column: string}} the formula is also used as column for identifying the description
+ */
+export function createDesc(formula: string, type: string = 'number', label: string = formula) {
+  return {type, label, formula, column: formula};
+}
+
+/**
+ * @param formula
+ * @returns {IScriptProblem[]} the problems of the given formula, empty if it is valid
+ */
+export function checkFormula(formula: string): IScriptProblem[] {
+  //not cached since it is called for every typed character
+  return compileScript(formula, null).problems;
+}
+
+/**
+ * evaluates the formula for the given row
+ * @param formula
+ * @param row
+ * @returns {any} the result, e.g. a number or string, null if it cannot be computed
+ */
+export function evaluateFormula(formula: string, row: any) {
+  if (row === null || typeof row !== 'object') {
+    return null;
+  }
+  return compileFormula(formula).evaluateValue({
+    variables: row,
+    column: (field: string) => Object.prototype.hasOwnProperty.call(row, field) ? row[field] : undefined
+  });
+}
+
+/**
+ * value accessor of a column description with a formula
+ */
+export function formulaAccessor(row: any, index: number, id: string, desc: IFormulaDesc) {
+  return evaluateFormula(desc.formula, row);
+}
@@ -0,0 +1,64 @@
+export interface IGroup {
+  /**
+   * name of this group, used as identifier
+   */
+  readonly name: string;
+  /**
+   * color to use for this group
+   */
+  readonly color: string;
+}
+
+export interface IOrderedGroup extends IGroup {
+  /**
+   * the data indices of this group in sorted order
+   */
+  readonly order: number[];
+  /**
+   * optional flags whether the row at the same position has the same values as its predecessor, computed while sorting
+   */
+  readonly ties?: boolean[];
+}
+
+export interface IGroupData extends IOrderedGroup {
+  /**
+   * the data rows of this group in the same order as the indices
+   */
+  readonly rows: any[];
+}
+
+/**
+ * group used when a ranking is not grouped at all
+ * @type {{name: string, color: string}}
+ */
+export const defaultGroup: IGroup = {
+  name: 'Default',
+  color: 'gray'
+};
+
+/**
+ * group of all rows having a missing value
+ * @type {{name: string, color: string}}
+ */
+export const missingGroup: IGroup = {
+  name: 'Missing values',
+  color: 'gray'
+};
+
+/**
+ * how groups are ordered among themselves
+ */
+export const GROUP_SORT_METHOD = {
+  /**
+   * by the group name
+   */
+  name: 'name',
+  /**
+   * by the number of items, largest first
+   */
+  count: 'count',
+  /**
+   * by the aggregated value of the primary sort criteria
+   */
+  aggregate: 'aggregate'
+};
@@ -0,0 +1,445 @@
+import {scale} from 'd3';
+import Column from './Column';
+import ValueColumn, {IValueColumnDesc} from './ValueColumn';
+import {ICategoricalColumn} from './CategoricalColumn';
+import {IGroup, missingGroup} from './Group';
+
+/**
+ * a category within the hierarchy
+ */
+export interface ICategoryNode {
+  name: string;
+  /**
+   * optional label of this category (the one to render)
+   */
+  label?: string;
+  /**
+   * category color
+   * @default the color of the parent category or the next in d3 color 10 range for the top level
+   */
+  color?: string;
+  children?: ICategoryNode[];
+}
+
+export interface IHierarchyColumnDesc extends IValueColumnDesc<string> {
+  /**
+   * the tree of categories, the root itself is no category. The value of a row is the name of a category at any level, usually a leaf
+   */
+  hierarchy: ICategoryNode;
+  /**
+   * the initial level of the categories to show, 1 for the children of the root
+   * @default 1
+   */
+  level?: number;
+}
+
+export interface IHierarchyNode {
+  readonly name: string;
+  readonly label: string;
+  readonly color: string;
+  /**
+   * 1 for the children of the root
+   */
+  readonly depth: number;
+  readonly parent: IHierarchyNode;
+  readonly children: IHierarchyNode[];
+}
+
+/**
+ * the names of the fully included categories, a row is included if its category or one of its ancestors is part of it
+ */
+export interface IHierarchyFilter {
+  filter: string[];
+  filterMissing: boolean;
+}
+
+interface INode extends IHierarchyNode {
+  readonly parent: INode;
+  readonly children: INode[];
+  /**
+   * index in pre order, i.e. the sorting order
+   */
+  readonly index: number;
+  /**
+   * the range of its leaves within the leaves in pre order, the end is exclusive
+   */
+  readonly firstLeaf: number;
+  readonly endLeaf: number;
+}
+
+/**
+ * factory for creating a description creating a hierarchy column
+ * @param hierarchy the tree of categories
+ * @param column the column of the data containing the category name
+ * @param label
+ * @returns {{type: string, label: string, column: string, hierarchy: ICategoryNode}}
+ */
+export function createDesc(hierarchy: ICategoryNode, column: string, label: string = column) {
+  return {type: 'hierarchy', label, column, hierarchy};
+}
+
+/**
+ * column for categories forming a tree, e.g. continent > country > city, which can be drilled up and down
+ */
+export default class HierarchyColumn extends ValueColumn<string> implements ICategoricalColumn {
+  static readonly EVENT_LEVEL_CHANGED = 'levelChanged';
+
+  private readonly root: INode;
+  /**
+   * all categories by name in pre order
+   */
+  private readonly nodes = new Map<string, INode>();
+  /**
+   * the names of all leaves in pre order, such that the leaves of a category are a contiguous range
+   */
+  private readonly leaves: string[] = [];
+  private maxLevel = 1;
+  private level = 1;
+
+  private currentFilter: IHierarchyFilter = null;
+  /**
+   * names of all categories whose leaves are all included by the current filter
+   */
+  private included: Set<string> = null;
+
+  constructor(id: string, desc: IHierarchyColumnDesc) {
+    super(id, desc);
+    this.root = this.initHierarchy(desc.hierarchy || {name: '', children: []});
+    this.level = Math.max(1, Math.min(desc.level || 1, this.maxLevel));
+    this.setRendererList([{type: 'hierarchy', label: 'Path'}, {type: 'categorical', label: 'Level'}]);
+  }
+
+  private initHierarchy(root: ICategoryNode) {
+    const colors = scale.category10();
+    let index = 0;
+    const build = (node: ICategoryNode, parent: INode, depth: number, i: number): INode => {
+      const n = {
+        name: node.name,
+        label: node.label || node.name,
+        color: node.color || (parent && parent.depth > 0 ? parent.color : colors(String(i))),
+        depth,
+        parent,
+        children: <INode[]>[],
+        index: index++,
+        firstLeaf: this.leaves.length,
+        endLeaf: this.leaves.length
+      };
+      if (depth > 0 && !this.nodes.has(n.name)) {
+        this.nodes.set(n.name, n);
+      }
+      this.maxLevel = Math.max(this.maxLevel, depth);
+      n.children = (node.children || []).map((child, j) => build(child, n, depth + 1, j));
+      if (n.children.length === 0 && depth > 0) {
+        this.leaves.push(n.name);
+      }
+      n.endLeaf = this.leaves.length;
+      return n;
+    };
+    return build(root, null, 0, 0);
+  }
+
+  protected createEventList() {
+    return super.createEventList().concat([HierarchyColumn.EVENT_LEVEL_CHANGED]);
+  }
+
+  /**
+   * @returns {number} the level of the shown categories, 1 for the top level
+   */
+  getLevel() {
+    return this.level;
+  }
+
+  getMaxLevel() {
+    return this.maxLevel;
+  }
+
+  /**
+   * shows the categories of the given level, e.g. the countries instead of the continents
+   * @param level
+   */
+  setLevel(level: number) {
+    level = Math.max(1, Math.min(level, this.maxLevel));
+    if (this.level === level) {
+      return;
+    }
+    this.fire([HierarchyColumn.EVENT_LEVEL_CHANGED, Column.EVENT_DIRTY_HEADER, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.level, this.level = level);
+  }
+
+  /**
+   * @returns {IHierarchyNode} the root of the category tree
+   */
+  getHierarchy(): IHierarchyNode {
+    return this.root;
+  }
+
+  /**
+   * the categories of the current level, including the leaves of the upper levels
+   */
+  private levelNodes() {
+    const r: INode[] = [];
+    const visit = (node: INode) => {
+      if (node.depth === this.level || (node.depth > 0 && node.children.length === 0)) {
+        r.push(node);
+        return;
+      }
+      node.children.forEach(visit);
+    };
+    visit(this.root);
+    return r;
+  }
+
+  get categories() {
+    return this.levelNodes().map((n) => n.name);
+  }
+
+  get categoryLabels() {
+    return this.levelNodes().map((n) => n.label);
+  }
+
+  get categoryColors() {
+    return this.levelNodes().map((n) => n.color);
+  }
+
+  colorOf(cat: string) {
+    return this.nodes.has(cat) ? this.nodes.get(cat).color : null;
+  }
+
+  private nodeOf(row: any, index: number) {
+    const v = super.getValue(row, index);
+    if (v === null || v === undefined) {
+      return null;
+    }
+    return this.nodes.get(String(v)) || null;
+  }
+
+  /**
+   * the ancestor of the category of the row at the current level
+   */
+  private levelNodeOf(row: any, index: number) {
+    let node = this.nodeOf(row, index);
+    while (node !== null && node.depth > this.level) {
+      node = node.parent;
+    }
+    return node;
+  }
+
+  /**
+   * @returns {string} the name of the category at the current level or null if missing
+   */
+  getValue(row: any, index: number) {
+    const node = this.levelNodeOf(row, index);
+    return node ? node.name : null;
+  }
+
+  getLabel(row: any, index: number) {
+    const node = this.levelNodeOf(row, index);
+    return node ? node.label : '';
+  }
+
+  /**
+   * @returns {IHierarchyNode[]} the categories from the top level to the category of the row
+   */
+  getPath(row: any, index: number): IHierarchyNode[] {
+    const r: INode[] = [];
+    for (let node = this.nodeOf(row, index); node !== null && node.depth > 0; node = node.parent) {
+      r.unshift(node);
+    }
+    return r;
+  }
+
+  getPathLabel(row: any, index: number) {
+    return this.getPath(row, index).map((n) => n.label).join(' > ');
+  }
+
+  getCategories(row: any, index: number) {
+    const node = this.levelNodeOf(row, index);
+    return node ? [node.name] : [];
+  }
+
+  getColor(row: any, index: number) {
+    const node = this.levelNodeOf(row, index);
+    return node ? node.color : null;
+  }
+
+  group(row: any, index: number): IGroup {
+    const node = this.levelNodeOf(row, index);
+    if (!node) {
+      return missingGroup;
+    }
+    return {name: node.label, color: node.color};
+  }
+
+  /**
+   * sorts by the order of the categories within the hierarchy, missing ones last
+   */
+  compare(a: any, b: any, aIndex: number, bIndex: number) {
+    const na = this.nodeOf(a, aIndex), nb = this.nodeOf(b, bIndex);
+    if (na === null) {
+      return nb === null ? 0 : +1;
+    }
+    if (nb === null) {
+      return -1;
+    }
+    return na.index - nb.index;
+  }
+
+  dump(toDescRef: (desc: any) => any): any {
+    const r = super.dump(toDescRef);
+    r.level = this.level;
+    if (this.currentFilter) {
+      r.filter = this.getFilter();
+    }
+    return r;
+  }
+
+  restore(dump: any, factory: (dump: any) => Column) {
+    super.restore(dump, factory);
+    if (typeof dump.level === 'number') {
+      this.level = Math.max(1, Math.min(dump.level, this.maxLevel));
+    }
+    if (dump.filter && Array.isArray(dump.filter.filter)) {
+      this.setFilterImpl({filter: dump.filter.filter, filterMissing: dump.filter.filterMissing === true});
+    }
+  }
+
+  /**
+   * the names of the leaves of the given categories
+   * @param names
+   * @returns {string[]}
+   */
+  leavesOf(names: string[]) {
+    const r: string[] = [];
+    names.filter((n) => this.nodes.has(n)).forEach((n) => {
+      const node = this.nodes.get(n);
+      r.push(...this.leaves.slice(node.firstLeaf, node.endLeaf));
+    });
+    return r;
+  }
+
+  /**
+   * @returns {string[]} the names of the included leaves
+   */
+  getIncludedLeaves() {
+    return this.leavesOf(this.currentFilter ? this.currentFilter.filter : this.root.children.map((n) => n.name));
+  }
+
+  /**
+   * the minimal set of categories covering exactly the given leaves
+   * @param leaves
+   * @returns {string[]}
+   */
+  private coverOf(leaves: string[]) {
+    const included = new Set<string>(leaves);
+    //number of included leaves before the i-th one
+    const before = [0];
+    this.leaves.forEach((l, i) => before.push(before[i] + (included.has(l) ? 1 : 0)));
+    const r: string[] = [];
+    const visit = (node: INode) => {
+      if (before[node.endLeaf] - before[node.firstLeaf] === node.endLeaf - node.firstLeaf) {
+        r.push(node.name);
+        return;
+      }
+      node.children.forEach(visit);
+    };
+    this.root.children.forEach(visit);
+    return r;
+  }
+
+  /**
+   * whether the given category is included by the current filter, i.e. all its leaves
+   * @param cat
+   * @returns {boolean}
+   */
+  isIncluded(cat: string) {
+    return this.included === null || this.included.has(cat);
+  }
+
+  isFiltered() {
+    return this.currentFilter !== null;
+  }
+
+  filter(row: any, index: number): boolean {
+    if (!this.isFiltered()) {
+      return true;
+    }
+    const node = this.nodeOf(row, index);
+    if (node === null) {
+      return !this.currentFilter.filterMissing;
+    }
+    return this.included.has(node.name);
+  }
+
+  getFilter(): IHierarchyFilter {
+    return this.currentFilter === null ? null : {filter: this.currentFilter.filter.slice(), filterMissing: this.currentFilter.filterMissing};
+  }
+
+  setFilter(filter: IHierarchyFilter) {
+    const bak = this.getFilter();
+    this.setFilterImpl(filter);
+    const now = this.getFilter();
+    if (bak === now || (bak !== null && now !== null && bak.filterMissing === now.filterMissing && bak.filter.join('\t') === now.filter.join('\t'))) {
+      return;
+    }
+    this.fire([Column.EVENT_FILTER_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, now);
+  }
+
+  private setFilterImpl(filter: IHierarchyFilter) {
+    //normalize to the minimal set of covering categories
+    const cover = filter ? this.coverOf(this.leavesOf(filter.filter)) : [];
+    const all = filter === null || cover.length === this.root.children.length && cover.every((c, i) => c === this.root.children[i].name);
+    if (all && (!filter || !filter.filterMissing)) {
+      this.currentFilter = null;
+      this.included = null;
+      return;
+    }
+    this.currentFilter = {filter: cover, filterMissing: filter.filterMissing === true};
+    //all categories whose leaves are all included
+    this.included = new Set<string>();
+    const include = (node: INode) => {
+      this.included.add(node.name);
+      node.children.forEach(include);
+    };
+    cover.forEach((name) => include(this.nodes.get(name)));
+  }
+
+  /**
+   * filters by the given leaves
+   * @param leaves the names of the included leaves
+   * @param filterMissing
+   */
+  setIncludedLeaves(leaves: string[], filterMissing = false) {
+    this.setFilter({filter: this.coverOf(leaves), filterMissing});
+  }
+
+  /**
+   * filters by the given category
+   * @param cat the category
+   * @param toggle whether to add or remove the category to or from the current filter instead of filtering just by it
+   */
+  toggleCategoryFilter(cat: string, toggle: boolean) {
+    const filterMissing = this.currentFilter !== null && this.currentFilter.filterMissing;
+    const active = this.getIncludedLeaves();
+    const leaves = this.leavesOf([cat]);
+    if (toggle) {
+      this.setIncludedLeaves(this.isIncluded(cat) ? active.filter((l) => leaves.indexOf(l) < 0) : active.concat(leaves), filterMissing);
+    } else if (active.length === leaves.length && this.isIncluded(cat)) {
+      //clicking the single active category again resets the filter
+      this.setIncludedLeaves(this.leavesOf(this.root.children.map((n) => n.name)), filterMissing);
+    } else {
+      this.setIncludedLeaves(leaves, filterMissing);
+    }
+  }
+
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    //as categorical filter by all included categories, since a row is included if its category is
+    return [{
+      type: 'categorical',
+      id: toId(this.desc),
+      filter: Array.from(this.included),
+      filterMissing: this.currentFilter.filterMissing
+    }];
+  }
+}
@@ -27,7 +27,7 @@ export default class MaxColumn extends CompositeNumberColumn {
     let maxIndex = 0, maxValue = c[0].getValue(row, index);
     for (let i = 1; i < c.length; ++i) {
       const v = c[i].getValue(row, index);
-      if (v > maxValue) {
+      if (v > maxValue || isNaN(maxValue)) { //excluded missing values are NaN
         maxIndex = i;
         maxValue = v;
       }
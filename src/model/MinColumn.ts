@@ -26,7 +26,7 @@ export default class MinColumn extends CompositeNumberColumn {
     let minIndex = 0, minValue = c[0].getValue(row, index);
     for (let i = 1; i < c.length; ++i) {
       const v = c[i].getValue(row, index);
-      if (v < minValue) {
+      if (v < minValue || isNaN(minValue)) { //excluded missing values are NaN
         minIndex = i;
         minValue = v;
       }
@@ -1,12 +1,14 @@
 /**
  * Created by bikramkawan on 24/11/2016.
  */
-import {median, quantile, mean, scale as d3scale, ascending, format} from 'd3';
+import {median, quantile, mean, scale as d3scale, ascending, format, merge as d3merge} from 'd3';
 import ValueColumn, {IValueColumnDesc} from './ValueColumn';
 import Column from './Column';
 import {
-  IBoxPlotColumn, IBoxPlotData, SORT_METHOD as BASE_SORT_METHOD, SortMethod, compareBoxPlot
+  IBoxPlotColumn, IBoxPlotData, SORT_METHOD as BASE_SORT_METHOD, SortMethod, compareBoxPlot, IBoxPlotFilter, isUnbounded, isWithinFilter
 } from './BoxPlotColumn';
+import {INumberColumn} from './NumberColumn';
+import StackColumn from './StackColumn';
 import {merge} from '../utils';
 
 
@@ -14,6 +16,19 @@ export const SORT_METHOD = merge({
   mean: 'mean'
 }, BASE_SORT_METHOD);
 
+/**
+ * the modes of a filter, either any or all of the values or a summary statistic has to be within the range
+ */
+export const FILTER_MODES = merge({
+  any: 'any value',
+  all: 'all values'
+}, SORT_METHOD);
+
+/**
+ * filter whose mode is one of the FILTER_MODES
+ */
+export declare type IMultiValueFilter = IBoxPlotFilter;
+
 export interface IAdvancedBoxPlotData extends IBoxPlotData {
   readonly mean: number;
 }
@@ -70,7 +85,7 @@ class LazyBoxPlotData implements IAdvancedBoxPlotData {
 }
 
 export interface IMultiValueColumn {
-  getNumber(row: any, index: number): number[];
+  getNumbers(row: any, index: number): number[];
 }
 
 export interface IMultiValueColumnDesc extends IValueColumnDesc<number[]> {
@@ -79,15 +94,24 @@ export interface IMultiValueColumnDesc extends IValueColumnDesc<number[]> {
   readonly threshold?: number;
   readonly dataLength: number;
   readonly colorRange?: string[];
+  /**
+   * the summary statistic used as number of this column, e.g. within a stacked column, one of SORT_METHOD
+   * @default median
+   */
+  readonly summary?: string;
 }
 
 
-export default class MultiValueColumn extends ValueColumn<number[]> implements IAdvancedBoxPlotColumn, IMultiValueColumn {
+export default class MultiValueColumn extends ValueColumn<number[]> implements IAdvancedBoxPlotColumn, IMultiValueColumn, INumberColumn {
+  static readonly EVENT_SUMMARY_CHANGED = 'summaryChanged';
+
   private readonly domain;
   private sort: SortMethod;
   private readonly threshold;
   private readonly dataLength;
   private readonly colorRange;
+  private summary: string;
+  private currentFilter: IMultiValueFilter = null;
 
   private static readonly DEFAULT_FORMATTER = format('.3n');
 
@@ -98,6 +122,7 @@ export default class MultiValueColumn extends ValueColumn<number[]> implements I
     this.threshold = desc.threshold || 0;
     this.colorRange = desc.colorRange || ['blue', 'red'];
     this.sort = desc.sort || SORT_METHOD.min;
+    this.summary = SORT_METHOD.hasOwnProperty(desc.summary) ? desc.summary : SORT_METHOD.median;
 
     const rendererList = [{type: 'multiValue', label: 'Heatmap'},
       {type: 'boxplot', label: 'Boxplot'},
@@ -110,6 +135,10 @@ export default class MultiValueColumn extends ValueColumn<number[]> implements I
   }
 
 
+  protected createEventList() {
+    return super.createEventList().concat([MultiValueColumn.EVENT_SUMMARY_CHANGED]);
+  }
+
   private getColorValues(): string[] {
     if (this.colorRange.length > 2) {
       return this.colorRange.slice();
@@ -126,6 +155,14 @@ export default class MultiValueColumn extends ValueColumn<number[]> implements I
     return compareBoxPlot(this, a, b, aIndex, bIndex);
   }
 
+  getRendererType() {
+    //within a stacked column the summary statistic is shown as bar
+    if (this.parent instanceof StackColumn) {
+      return 'number';
+    }
+    return super.getRendererType();
+  }
+
   getColorScale() {
     const colorScale = d3scale.linear<string, number>();
     const colorValues = this.getColorValues();
@@ -142,10 +179,57 @@ export default class MultiValueColumn extends ValueColumn<number[]> implements I
     return colorScale;
   }
 
-  getNumber(row: any, index: number) {
+  getNumbers(row: any, index: number) {
     return this.getValue(row, index);
   }
 
+  /**
+   * @returns {number} the summary statistic of the values, NaN if missing
+   */
+  getRawNumber(row: any, index: number) {
+    const box = this.getBoxPlotData(row, index);
+    return box === null ? NaN : box[this.summary];
+  }
+
+  /**
+   * @returns {number} the summary statistic of the values normalized by the domain
+   */
+  getNumber(row: any, index: number) {
+    const v = this.getRawNumber(row, index);
+    return isNaN(v) ? NaN : Math.max(0, Math.min(1, (v - this.domain[0]) / (this.domain[1] - this.domain[0])));
+  }
+
+  getSummary() {
+    return this.summary;
+  }
+
+  /**
+   * sets the summary statistic used as number of this column
+   * @param summary one of SORT_METHOD
+   */
+  setSummary(summary: string) {
+    if (this.summary === summary || !SORT_METHOD.hasOwnProperty(summary)) {
+      return;
+    }
+    this.fire([MultiValueColumn.EVENT_SUMMARY_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.summary, this.summary = summary);
+  }
+
+  /**
+   * aggregates the values of all given rows, e.g. to summarize the visible ones
+   * @param rows
+   * @param indices the data indices of the rows
+   * @returns {IAdvancedBoxPlotData} null if there are no values
+   */
+  summarize(rows: any[], indices: number[]): IAdvancedBoxPlotData {
+    const values = d3merge(rows.map((row, i) => this.getValue(row, indices[i]) || [])).filter((v) => !isNaN(v));
+    if (values.length === 0) {
+      return null;
+    }
+    //as plain object, since it might be transferred from the server
+    const box = new LazyBoxPlotData(values);
+    return {min: box.min, max: box.max, median: box.median, q1: box.q1, q3: box.q3, mean: box.mean};
+  }
+
   calculateCellDimension(width: number) {
     return (width / this.dataLength);
   }
@@ -207,6 +291,10 @@ export default class MultiValueColumn extends ValueColumn<number[]> implements I
   dump(toDescRef: (desc: any) => any): any {
     const r = super.dump(toDescRef);
     r.sortMethod = this.getSortMethod();
+    r.summary = this.getSummary();
+    if (this.currentFilter) {
+      r.filter = this.getFilter();
+    }
     return r;
   }
 
@@ -215,6 +303,73 @@ export default class MultiValueColumn extends ValueColumn<number[]> implements I
     if (dump.sortMethod) {
       this.sort = dump.sortMethod;
     }
+    if (SORT_METHOD.hasOwnProperty(dump.summary)) {
+      this.summary = dump.summary;
+    }
+    if (dump.filter) {
+      this.currentFilter = {
+        mode: FILTER_MODES.hasOwnProperty(dump.filter.mode) ? dump.filter.mode : 'any',
+        min: isUnbounded(dump.filter.min) ? null : dump.filter.min,
+        max: isUnbounded(dump.filter.max) ? null : dump.filter.max,
+        filterMissing: dump.filter.filterMissing === true
+      };
+    }
+  }
+
+  isFiltered() {
+    return this.currentFilter !== null;
+  }
+
+  filter(row: any, index: number) {
+    if (!this.isFiltered()) {
+      return true;
+    }
+    const values = (this.getValue(row, index) || []).filter((v) => !isNaN(v));
+    if (values.length === 0) {
+      return !this.currentFilter.filterMissing;
+    }
+    const within = (v: number) => isWithinFilter(this.currentFilter, v);
+    switch (this.currentFilter.mode) {
+      case 'any':
+        return values.some(within);
+      case 'all':
+        return values.every(within);
+      default:
+        return within(new LazyBoxPlotData(values)[this.currentFilter.mode]);
+    }
+  }
+
+  getFilter(): IMultiValueFilter {
+    return this.currentFilter === null ? null : Object.assign({}, this.currentFilter);
+  }
+
+  /**
+   * sets the filter, unbounded ends are given as null
+   * @param filter the new filter or null to reset it
+   */
+  setFilter(filter: IMultiValueFilter) {
+    let value: IMultiValueFilter = null;
+    if (filter && (!isUnbounded(filter.min) || !isUnbounded(filter.max) || filter.filterMissing)) {
+      value = {
+        mode: FILTER_MODES.hasOwnProperty(filter.mode) ? filter.mode : 'any',
+        min: isUnbounded(filter.min) ? null : filter.min,
+        max: isUnbounded(filter.max) ? null : filter.max,
+        filterMissing: filter.filterMissing === true
+      };
+    }
+    const bak = this.getFilter();
+    if (bak === value || (bak !== null && value !== null && bak.mode === value.mode && bak.min === value.min && bak.max === value.max && bak.filterMissing === value.filterMissing)) {
+      return;
+    }
+    this.currentFilter = value;
+    this.fire([Column.EVENT_FILTER_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, this.getFilter());
+  }
+
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    return [Object.assign({type: 'multiValue', id: toId(this.desc)}, this.currentFilter)];
   }
 }
 
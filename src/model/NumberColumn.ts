@@ -2,9 +2,11 @@
  * Created by sam on 04.11.2016.
  */
 
-import {scale, format} from 'd3';
+import {scale, format, ascending, mean as d3mean, quantile, range as d3range} from 'd3';
 import Column, {IColumnDesc} from './Column';
 import ValueColumn, {IValueColumnDesc} from './ValueColumn';
+import {IGroup, missingGroup} from './Group';
+import {compileScript, ICompiledScript} from './ScriptExpression';
 
 
 /**
@@ -20,6 +22,48 @@ function isMissingValue(v: any) {
   return typeof(v) === 'undefined' || v == null || isNaN(v) || v === '' || v === 'NA' || (typeof(v) === 'string' && (v.toLowerCase() === 'na'));
 }
 
+/**
+ * strategies for replacing missing values
+ */
+export const IMPUTATION = {
+  /**
+   * the fixed missing value of the column
+   */
+  constant: 'constant',
+  mean: 'mean',
+  median: 'median',
+  min: 'min',
+  max: 'max',
+  /**
+   * no value at all, i.e. composite columns exclude it and renormalize the weights of the others
+   */
+  exclude: 'exclude'
+};
+
+/**
+ * computes the value to impute for the given strategy out of all raw values of a column
+ * @param values the raw values including missing ones
+ * @param imputation the imputation strategy
+ * @returns {number} the value or NaN if it cannot be derived from the values
+ */
+export function computeImputation(values: any[], imputation: string) {
+  const valid = values.filter((v) => !isMissingValue(v)).map((v) => +v).sort(ascending);
+  if (valid.length === 0) {
+    return NaN;
+  }
+  switch (imputation) {
+    case IMPUTATION.mean:
+      return d3mean(valid);
+    case IMPUTATION.median:
+      return quantile(valid, 0.5);
+    case IMPUTATION.min:
+      return valid[0];
+    case IMPUTATION.max:
+      return valid[valid.length - 1];
+  }
+  return NaN;
+}
+
 function isUnknown(v?: number|null) {
   return isNaN(v) || v === null || v === undefined;
 }
@@ -174,13 +218,18 @@ export class ScaleMappingFunction implements IMappingFunction {
 }
 
 /**
- * a mapping function based on a custom user function using 'value' as the current value
+ * the variables available in the script of a mapping function
+ */
+const MAPPING_VARIABLES = ['value', 'value_min', 'value_max', 'value_range', 'value_domain'];
+
+/**
+ * a mapping function based on a custom user expression using 'value' as the current value
  */
 export class ScriptMappingFunction implements IMappingFunction {
-  private f: Function;
+  private compiled: ICompiledScript;
 
-  constructor(public domain: number[] = [0, 1], private _code: string = 'return this.linear(value,this.value_min,this.value_max);') {
-    this.f = new Function('value', _code);
+  constructor(public domain: number[] = [0, 1], private _code: string = 'linear(value, value_min, value_max)') {
+    this.compiled = compileScript(_code, MAPPING_VARIABLES);
   }
 
   get code() {
@@ -192,24 +241,29 @@ export class ScriptMappingFunction implements IMappingFunction {
       return;
     }
     this._code = code;
-    this.f = new Function('value', code);
+    this.compiled = compileScript(code, MAPPING_VARIABLES);
+  }
+
+  /**
+   * @returns {IScriptProblem[]} the problems of the current code, empty if it is valid
+   */
+  get problems() {
+    return this.compiled.problems;
   }
 
   apply(v: number): number {
     const min = this.domain[0],
       max = this.domain[this.domain.length - 1];
-    const r = this.f.call({
-      value_min: min,
-      value_max: max,
-      value_range: max - min,
-      value_domain: this.domain.slice(),
-      linear: (v, mi, ma) => (v - mi) / (ma - mi)
-    }, v);
-
-    if (typeof r === 'number') {
-      return Math.max(Math.min(r, 1), 0);
-    }
-    return NaN;
+    const r = this.compiled.evaluate({
+      variables: {
+        value: v,
+        value_min: min,
+        value_max: max,
+        value_range: max - min,
+        value_domain: this.domain.slice()
+      }
+    });
+    return isNaN(r) ? NaN : Math.max(Math.min(r, 1), 0);
   }
 
   dump(): any {
@@ -236,11 +290,168 @@ export class ScriptMappingFunction implements IMappingFunction {
   }
 }
 
+/**
+ * normalizations whose parameters are derived from a sample of the data
+ */
+export const DATA_MAPPINGS = {
+  /**
+   * standard score clamped to +-3 standard deviations
+   */
+  zscore: 'zscore',
+  /**
+   * the percentile rank within the sample, interpolated between its percentiles
+   */
+  percentile: 'percentile',
+  /**
+   * median centered and scaled by the inter quartile range, clamped to +-2 IQRs
+   */
+  robust: 'robust',
+  /**
+   * piecewise linear between the quartiles of the sample
+   */
+  quantile: 'quantile'
+};
+
+const ZSCORE_CLAMP = 3;
+const ROBUST_CLAMP = 2;
+const QUANTILES = [0, 0.25, 0.5, 0.75, 1];
+const PERCENTILES = d3range(0, 101).map((p) => p / 100);
+
+function clamp01(v: number) {
+  return Math.max(Math.min(v, 1), 0);
+}
+
+/**
+ * a mapping function which is fitted to a sample of the data, such that differently distributed attributes become comparable
+ */
+export class DataMappingFunction implements IMappingFunction {
+  /**
+   * the fitted parameters: [mean, std] for zscore, [median, iqr] for robust, and the values at the breakpoints for percentile and quantile
+   */
+  private params: number[] = [];
+  private s: IScale = null;
+
+  /**
+   * @param type one of DATA_MAPPINGS
+   * @param sample the data to fit the parameters to
+   * @param domain the raw value domain, by default the extent of the sample
+   */
+  constructor(private type = DATA_MAPPINGS.zscore, sample: number[] = [], public domain: number[] = null) {
+    const valid = sample.filter((v) => !isMissingValue(v)).sort(ascending);
+    if (!this.domain) {
+      this.domain = valid.length > 0 ? [valid[0], valid[valid.length - 1]] : [0, 1];
+    }
+    this.params = DataMappingFunction.fit(this.type, valid);
+    this.updateScale();
+  }
+
+  private static fit(type: string, sorted: number[]) {
+    if (sorted.length === 0) {
+      return [];
+    }
+    switch (type) {
+      case DATA_MAPPINGS.zscore: {
+        const m = d3mean(sorted);
+        return [m, Math.sqrt(d3mean(sorted, (v) => (v - m) * (v - m)))];
+      }
+      case DATA_MAPPINGS.robust:
+        return [quantile(sorted, 0.5), quantile(sorted, 0.75) - quantile(sorted, 0.25)];
+      case DATA_MAPPINGS.percentile:
+        return PERCENTILES.map((p) => quantile(sorted, p));
+      case DATA_MAPPINGS.quantile:
+        return QUANTILES.map((p) => quantile(sorted, p));
+    }
+    return [];
+  }
+
+  private updateScale() {
+    this.s = null;
+    const percentile = this.type === DATA_MAPPINGS.percentile;
+    if ((!percentile && this.type !== DATA_MAPPINGS.quantile) || this.params.length === 0) {
+      return;
+    }
+    const breakpoints = percentile ? PERCENTILES : QUANTILES;
+    //merge duplicate values since the domain of a piecewise scale has to be strictly increasing
+    //ties get their average percentile rank but the lowest quantile
+    const domain: number[] = [], ranks: number[][] = [];
+    this.params.forEach((v, i) => {
+      if (domain.length > 0 && v <= domain[domain.length - 1]) {
+        ranks[ranks.length - 1].push(breakpoints[i]);
+      } else {
+        domain.push(v);
+        ranks.push([breakpoints[i]]);
+      }
+    });
+    if (domain.length > 1) {
+      const range = ranks.map((r) => percentile ? d3mean(r) : r[0]);
+      this.s = scale.linear().domain(domain).range(range).clamp(true);
+    }
+  }
+
+  get mappingType() {
+    return this.type;
+  }
+
+  apply(v: number): number {
+    const p = this.params;
+    if (isNaN(v) || p.length === 0) {
+      return NaN;
+    }
+    switch (this.type) {
+      case DATA_MAPPINGS.zscore:
+        return p[1] > 0 ? clamp01(((v - p[0]) / p[1] + ZSCORE_CLAMP) / (2 * ZSCORE_CLAMP)) : 0.5;
+      case DATA_MAPPINGS.robust:
+        return p[1] > 0 ? clamp01(((v - p[0]) / p[1] + ROBUST_CLAMP) / (2 * ROBUST_CLAMP)) : 0.5;
+      case DATA_MAPPINGS.percentile:
+      case DATA_MAPPINGS.quantile:
+        return this.s ? this.s(v) : 0.5;
+    }
+    return NaN;
+  }
+
+  dump(): any {
+    return {
+      type: this.type,
+      domain: this.domain,
+      params: this.params
+    };
+  }
+
+  eq(other: IMappingFunction) {
+    if (!(other instanceof DataMappingFunction)) {
+      return false;
+    }
+    const that = <DataMappingFunction>other;
+    return that.type === this.type && isSame(this.domain, that.domain) && isSame(this.params, that.params);
+  }
+
+  restore(dump: any) {
+    this.type = dump.type;
+    this.domain = dump.domain;
+    this.params = dump.params || [];
+    if (this.type === DATA_MAPPINGS.percentile && this.params.length > 0 && this.params.length !== PERCENTILES.length) {
+      //older dumps stored the whole sorted sample
+      this.params = DataMappingFunction.fit(this.type, this.params);
+    }
+    this.updateScale();
+  }
+
+  clone() {
+    const c = new DataMappingFunction(this.type, [], this.domain.slice());
+    c.restore(this.dump());
+    return c;
+  }
+}
+
 export function createMappingFunction(dump: any): IMappingFunction {
   if (dump.type === 'script') {
     const s = new ScriptMappingFunction();
     s.restore(dump);
     return s;
+  } else if (DATA_MAPPINGS.hasOwnProperty(dump.type)) {
+    const d = new DataMappingFunction();
+    d.restore(dump);
+    return d;
   } else {
     const l = new ScaleMappingFunction();
     l.restore(dump);
@@ -272,6 +483,25 @@ export interface INumberColumnDesc extends IValueColumnDesc<number> {
    * @default 0
    */
   missingValue?: number;
+
+  /**
+   * how to replace missing values, see IMPUTATION
+   * @default constant, i.e. the missingValue
+   */
+  imputation?: string;
+
+  /**
+   * computes the value to impute for a data derived strategy, injected by the data provider
+   * @param imputation the strategy
+   * @returns {number} NaN if unknown
+   */
+  impute?(imputation: string): number;
+
+  /**
+   * number of equally sized bins of the domain to use when grouping by this column
+   * @default 4
+   */
+  groupBins?: number;
 }
 
 /**
@@ -279,12 +509,18 @@ export interface INumberColumnDesc extends IValueColumnDesc<number> {
  */
 export default class NumberColumn extends ValueColumn<number> implements INumberColumn {
   static readonly EVENT_MAPPING_CHANGED = 'mappingChanged';
+  static readonly EVENT_GROUPING_CHANGED = 'groupingChanged';
+  static readonly EVENT_IMPUTATION_CHANGED = 'imputationChanged';
   static readonly COMPRESSED_RENDERER = 'heatmap';
 
   static readonly noFilter = () => ({min: -Infinity, max: Infinity, filterMissing: false});
 
   missingValue = 0;
 
+  private imputation = IMPUTATION.constant;
+
+  private readonly impute: (imputation: string) => number;
+
   private mapping: IMappingFunction;
 
   private original: IMappingFunction;
@@ -298,6 +534,12 @@ export default class NumberColumn extends ValueColumn<number> implements INumber
 
   private numberFormat: (n: number) => string = format('.3n');
 
+  /**
+   * number of bins used for grouping
+   * @type {number}
+   */
+  private groupBins = 4;
+
   constructor(id: string, desc: INumberColumnDesc) {
     super(id, desc);
 
@@ -315,6 +557,14 @@ export default class NumberColumn extends ValueColumn<number> implements INumber
     if (desc.missingValue !== undefined) {
       this.missingValue = desc.missingValue;
     }
+    if (IMPUTATION.hasOwnProperty(desc.imputation)) {
+      this.imputation = desc.imputation;
+    }
+    this.impute = desc.impute || (() => NaN);
+
+    if (desc.groupBins > 0) {
+      this.groupBins = desc.groupBins;
+    }
 
     const rendererList = [{type: 'number', label: 'Bar'},
       {type: 'circle', label: 'Circle'},
@@ -326,8 +576,10 @@ export default class NumberColumn extends ValueColumn<number> implements INumber
   dump(toDescRef: (desc: any) => any) {
     const r = super.dump(toDescRef);
     r.map = this.mapping.dump();
-    r.filter = this.currentFilter;
+    r.filter = this.getFilter();
     r.missingValue = this.missingValue;
+    r.imputation = this.imputation;
+    r.groupBins = this.groupBins;
     return r;
   }
 
@@ -338,19 +590,31 @@ export default class NumberColumn extends ValueColumn<number> implements INumber
     } else if (dump.domain) {
       this.mapping = new ScaleMappingFunction(dump.domain, 'linear', dump.range || [0, 1]);
     }
-    if (dump.currentFilter) {
-      this.currentFilter = dump.currentFilter;
+    //older dumps stored the filter as currentFilter
+    const filter = dump.filter || dump.currentFilter;
+    if (filter) {
+      this.currentFilter = {
+        min: isUnknown(filter.min) ? -Infinity : filter.min,
+        max: isUnknown(filter.max) ? Infinity : filter.max,
+        filterMissing: filter.filterMissing === true
+      };
     }
     if (dump.missingValue !== undefined) {
       this.missingValue = dump.missingValue;
     }
+    if (IMPUTATION.hasOwnProperty(dump.imputation)) {
+      this.imputation = dump.imputation;
+    }
     if (dump.numberFormat) {
       this.numberFormat = format(dump.numberFormat);
     }
+    if (dump.groupBins > 0) {
+      this.groupBins = dump.groupBins;
+    }
   }
 
   protected createEventList() {
-    return super.createEventList().concat([NumberColumn.EVENT_MAPPING_CHANGED]);
+    return super.createEventList().concat([NumberColumn.EVENT_MAPPING_CHANGED, NumberColumn.EVENT_GROUPING_CHANGED, NumberColumn.EVENT_IMPUTATION_CHANGED]);
   }
 
   getLabel(row: any, index: number) {
@@ -373,11 +637,55 @@ export default class NumberColumn extends ValueColumn<number> implements INumber
   getRawValue(row: any, index: number) {
     const v: any = super.getValue(row, index);
     if (isMissingValue(v)) {
-      return this.missingValue;
+      return this.getImputedValue();
     }
     return +v;
   }
 
+  /**
+   * whether the value of the given row is missing and thus imputed
+   * @param row
+   * @param index
+   * @returns {boolean}
+   */
+  isMissing(row: any, index: number) {
+    return isMissingValue(super.getValue(row, index));
+  }
+
+  /**
+   * the raw value used for missing values according to the imputation strategy
+   * @returns {number} NaN if missing values are excluded
+   */
+  getImputedValue() {
+    switch (this.imputation) {
+      case IMPUTATION.constant:
+        return this.missingValue;
+      case IMPUTATION.exclude:
+        return NaN;
+    }
+    const v = this.impute(this.imputation);
+    return isNaN(v) ? this.missingValue : v;
+  }
+
+  getImputation() {
+    return this.imputation;
+  }
+
+  /**
+   * sets how missing values are replaced
+   * @param imputation see IMPUTATION
+   * @param missingValue the value used by the constant strategy
+   */
+  setImputation(imputation: string, missingValue = this.missingValue) {
+    if (!IMPUTATION.hasOwnProperty(imputation) || (this.imputation === imputation && this.missingValue === missingValue)) {
+      return;
+    }
+    const bak = {imputation: this.imputation, missingValue: this.missingValue};
+    this.imputation = imputation;
+    this.missingValue = missingValue;
+    this.fire([NumberColumn.EVENT_IMPUTATION_CHANGED, Column.EVENT_DIRTY_HEADER, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, {imputation, missingValue});
+  }
+
   getValue(row: any, index: number) {
     const v = this.getRawValue(row, index);
     if (isNaN(v)) {
@@ -484,6 +792,53 @@ export default class NumberColumn extends ValueColumn<number> implements INumber
     return !((isFinite(this.currentFilter.min) && vn < this.currentFilter.min) || (isFinite(this.currentFilter.max) && vn > this.currentFilter.max));
   }
 
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    //infinite bounds are not json compatible
+    return [{
+      type: 'number',
+      id: toId(this.desc),
+      min: isFinite(this.currentFilter.min) ? this.currentFilter.min : null,
+      max: isFinite(this.currentFilter.max) ? this.currentFilter.max : null,
+      filterMissing: this.currentFilter.filterMissing
+    }];
+  }
+
+  /**
+   * groups by binning the raw value within the domain of the mapping function
+   * @param row
+   * @param index row index
+   * @returns {IGroup}
+   */
+  group(row: any, index: number): IGroup {
+    const v: any = super.getValue(row, index);
+    if (isMissingValue(v)) {
+      return missingGroup;
+    }
+    const domain = this.mapping.domain;
+    const min = domain[0], max = domain[domain.length - 1];
+    const step = (max - min) / this.groupBins;
+    const bin = step === 0 ? 0 : Math.max(0, Math.min(this.groupBins - 1, Math.floor((+v - min) / step)));
+    const from = min + bin * step;
+    return {
+      name: `${this.numberFormat(from)} - ${this.numberFormat(from + step)}`,
+      color: this.color
+    };
+  }
+
+  getGroupBins() {
+    return this.groupBins;
+  }
+
+  setGroupBins(bins: number) {
+    if (this.groupBins === bins || bins <= 0) {
+      return;
+    }
+    this.fire([NumberColumn.EVENT_GROUPING_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.groupBins, this.groupBins = bins);
+  }
+
   getRendererType(): string {
     if (this.getCompressed()) {
       return NumberColumn.COMPRESSED_RENDERER;
@@ -4,6 +4,29 @@
 
 
 import ValueColumn, {IValueColumnDesc} from './ValueColumn';
+import Column from './Column';
+import Ranking from './Ranking';
+
+/**
+ * the ways to rank rows with equal values
+ */
+export const TIE_MODES = {
+  ordinal: 'Ordinal (1, 2, 3, 4)',
+  competition: 'Competition (1, 2, 2, 4)',
+  dense: 'Dense (1, 2, 2, 3)'
+};
+
+export interface IRankColumnDesc extends IValueColumnDesc<number> {
+  /**
+   * how to rank rows with equal values, one of TIE_MODES
+   * @default ordinal
+   */
+  tieMode?: string;
+  /**
+   * whether the row of the given data index has the same values as one of its neighbors, provided by the data provider
+   */
+  isTied?(index: number, ranking: Ranking): boolean;
+}
 
 /**
  * factory for creating a description creating a rank column
@@ -18,9 +41,64 @@ export function createDesc(label: string = 'Rank') {
  * a rank column
  */
 export default class RankColumn extends ValueColumn<number> {
+  static readonly EVENT_TIE_MODE_CHANGED = 'tieModeChanged';
 
-  constructor(id: string, desc: IValueColumnDesc<number>) {
+  private tieMode = 'ordinal';
+
+  constructor(id: string, desc: IRankColumnDesc) {
     super(id, desc);
     this.setWidthImpl(50);
+    if (TIE_MODES.hasOwnProperty(desc.tieMode)) {
+      this.tieMode = desc.tieMode;
+    }
+  }
+
+  protected createEventList() {
+    return super.createEventList().concat([RankColumn.EVENT_TIE_MODE_CHANGED]);
+  }
+
+  getTieMode() {
+    return this.tieMode;
+  }
+
+  /**
+   * sets how to rank rows with equal values
+   * @param tieMode one of TIE_MODES
+   */
+  setTieMode(tieMode: string) {
+    if (this.tieMode === tieMode || !TIE_MODES.hasOwnProperty(tieMode)) {
+      return;
+    }
+    this.fire([RankColumn.EVENT_TIE_MODE_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.tieMode, this.tieMode = tieMode);
+  }
+
+  /**
+   * @returns {boolean} whether the row has the same values as one of its neighbors
+   */
+  isTied(row: any, index: number) {
+    const isTied = (<IRankColumnDesc>this.desc).isTied;
+    const ranking = this.findMyRanker();
+    return typeof isTied === 'function' && ranking !== null && isTied(index, ranking);
+  }
+
+  /**
+   * tied ranks are marked with a leading =, e.g. =2
+   */
+  getLabel(row: any, index: number) {
+    const label = super.getLabel(row, index);
+    return this.isTied(row, index) ? `=${label}` : label;
+  }
+
+  dump(toDescRef: (desc: any) => any): any {
+    const r = super.dump(toDescRef);
+    r.tieMode = this.tieMode;
+    return r;
+  }
+
+  restore(dump: any, factory: (dump: any) => Column) {
+    super.restore(dump, factory);
+    if (TIE_MODES.hasOwnProperty(dump.tieMode)) {
+      this.tieMode = dump.tieMode;
+    }
   }
 }
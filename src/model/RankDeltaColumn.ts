@@ -0,0 +1,319 @@
+import Column from './Column';
+import ValueColumn, {IValueColumnDesc} from './ValueColumn';
+import Ranking from './Ranking';
+
+export interface IRankDeltaColumnDesc extends IValueColumnDesc<number> {
+  /**
+   * all rankings of the provider to choose the reference ranking from, injected by the data provider
+   */
+  rankings?(): Ranking[];
+}
+
+/**
+ * the rank delta filter, the bounds are inclusive and null for unbounded
+ */
+export interface IRankDeltaFilter {
+  min: number;
+  max: number;
+  /**
+   * compare the absolute delta, i.e. moved by at least min places in any direction
+   */
+  absolute: boolean;
+  filterMissing: boolean;
+}
+
+/**
+ * factory for creating a description creating a rank delta column
+ * @param label
+ * @returns {{type: string, label: string}}
+ */
+export function createDesc(label: string = 'Rank Change') {
+  return {type: 'rankdelta', label};
+}
+
+/**
+ * creates a lookup from data index to its rank in the given order
+ * @param order
+ * @returns {Map<number, number>}
+ */
+function toRanks(order: number[]) {
+  const ranks = new Map<number, number>();
+  order.forEach((dataIndex, i) => ranks.set(dataIndex, i + 1));
+  return ranks;
+}
+
+function isUnbounded(v: number) {
+  return v === null || v === undefined || isNaN(v);
+}
+
+/**
+ * a column showing how many places a row moved compared to a reference, i.e. another ranking or a pinned earlier order of its own ranking.
+ * Positive values mean the row moved up.
+ */
+export default class RankDeltaColumn extends ValueColumn<number> {
+  static readonly EVENT_REFERENCE_CHANGED = 'referenceChanged';
+
+  private readonly rankings: () => Ranking[];
+  /**
+   * the id of the reference ranking or null if the pinned order is used
+   */
+  private referenceId: string = null;
+  /**
+   * the pinned order, null if not yet pinned
+   */
+  private pinned: number[] = null;
+  private pinnedRanks: Map<number, number> = null;
+
+  /**
+   * cached rank lookup of the current order of the reference ranking
+   */
+  private referenceRanks: {order: number[], ranks: Map<number, number>} = null;
+  /**
+   * rank lookup of the own order the deltas refer to, frozen while this column sorts or filters its ranking
+   */
+  private currentRanks: {order: number[], ranks: Map<number, number>} = null;
+
+  private currentFilter: IRankDeltaFilter = null;
+
+  constructor(id: string, desc: IRankDeltaColumnDesc) {
+    super(id, desc);
+    this.setWidthImpl(50);
+    this.rankings = desc.rankings || (() => []);
+  }
+
+  protected createEventList() {
+    return super.createEventList().concat([RankDeltaColumn.EVENT_REFERENCE_CHANGED]);
+  }
+
+  /**
+   * @returns {Ranking} the reference ranking or null if the pinned order is used or the reference ranking doesn't exist anymore
+   */
+  getReference() {
+    if (this.referenceId === null) {
+      return null;
+    }
+    return this.rankings().find((r) => r.id === this.referenceId) || null;
+  }
+
+  /**
+   * whether the order of the given ranking is the reference
+   * @param ranking
+   * @returns {boolean}
+   */
+  isReference(ranking: Ranking) {
+    return this.referenceId !== null && this.referenceId === ranking.id;
+  }
+
+  /**
+   * compares with the order of the given ranking from now on
+   * @param ranking the reference ranking, null or the own ranking pins the current order
+   */
+  setReference(ranking: Ranking) {
+    const own = this.findMyRanker();
+    if (!ranking || ranking === own) {
+      return this.pin();
+    }
+    if (this.isReference(ranking)) {
+      return;
+    }
+    const bak = this.getReference();
+    this.referenceId = ranking.id;
+    this.referenceRanks = null;
+    this.fire([RankDeltaColumn.EVENT_REFERENCE_CHANGED, Column.EVENT_DIRTY_HEADER, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, ranking);
+  }
+
+  /**
+   * pins the current order of the own ranking as reference
+   */
+  pin() {
+    const own = this.findMyRanker();
+    const bak = this.getReference();
+    this.referenceId = null;
+    this.referenceRanks = null;
+    this.setPinned(own ? own.getOrder().slice() : []);
+    this.fire([RankDeltaColumn.EVENT_REFERENCE_CHANGED, Column.EVENT_DIRTY_HEADER, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, null);
+  }
+
+  private setPinned(order: number[]) {
+    this.pinned = order;
+    this.pinnedRanks = toRanks(order);
+  }
+
+  /**
+   * signals that the order of the reference ranking changed or the ranking was removed, called by the data provider
+   */
+  dirtyReference() {
+    this.fire([Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY]);
+  }
+
+  /**
+   * whether the own order depends on the values of this column
+   * @param own
+   * @returns {boolean}
+   */
+  private isOrderDependent(own: Ranking) {
+    return this.isFiltered() || own.getSortCriterias().some((s) => s.col === this);
+  }
+
+  /**
+   * the rank within the reference
+   * @param index the data index
+   * @returns {number} the rank or NaN if it is not part of the reference
+   */
+  getReferenceRank(index: number) {
+    if (this.referenceId !== null) {
+      const ref = this.getReference();
+      if (!ref) {
+        return NaN; //not yet restored or removed
+      }
+      const order = ref.getOrder();
+      if (this.referenceRanks === null || this.referenceRanks.order !== order) {
+        this.referenceRanks = {order, ranks: toRanks(order)};
+      }
+      const ranks = this.referenceRanks.ranks;
+      return ranks.has(index) ? ranks.get(index) : NaN;
+    }
+    if (this.pinned === null) {
+      //compare with the order at the time the column is first used
+      const own = this.findMyRanker();
+      this.setPinned(own ? own.getOrder().slice() : []);
+    }
+    return this.pinnedRanks.has(index) ? this.pinnedRanks.get(index) : NaN;
+  }
+
+  /**
+   * the current rank within the own ranking. While this column sorts or filters its ranking, the rank within the last order not depending on this column is used,
+   * such that the deltas are stable and rows filtered out by this column keep their delta
+   * @param index the data index
+   * @returns {number} the rank or NaN if it is not part of the current order
+   */
+  getCurrentRank(index: number) {
+    const own = this.findMyRanker();
+    if (!own) {
+      return NaN;
+    }
+    if (this.currentRanks === null || !this.isOrderDependent(own)) {
+      const order = own.getOrder();
+      if (this.currentRanks === null || this.currentRanks.order !== order) {
+        this.currentRanks = {order, ranks: toRanks(order)};
+      }
+    }
+    const ranks = this.currentRanks.ranks;
+    return ranks.has(index) ? ranks.get(index) : NaN;
+  }
+
+  /**
+   * the number of places the row moved up compared to the reference, negative if it moved down
+   * @param row
+   * @param index
+   * @returns {number} the delta or NaN if the row isn't part of both orders
+   */
+  getValue(row: any, index: number) {
+    return this.getReferenceRank(index) - this.getCurrentRank(index);
+  }
+
+  getLabel(row: any, index: number) {
+    const v = this.getValue(row, index);
+    if (isNaN(v)) {
+      return '';
+    }
+    return v > 0 ? `+${v}` : String(v);
+  }
+
+  dump(toDescRef: (desc: any) => any): any {
+    const r = super.dump(toDescRef);
+    if (this.referenceId !== null) {
+      r.reference = this.referenceId;
+    } else if (this.pinned !== null) {
+      r.pinned = this.pinned.slice();
+    }
+    if (this.currentFilter !== null) {
+      r.filter = this.getFilter();
+    }
+    return r;
+  }
+
+  restore(dump: any, factory: (dump: any) => Column) {
+    super.restore(dump, factory);
+    if (typeof dump.reference === 'string') {
+      //the reference ranking might not be restored yet, so it is resolved lazily
+      this.referenceId = dump.reference;
+    } else if (Array.isArray(dump.pinned)) {
+      this.setPinned(dump.pinned);
+    }
+    if (dump.filter) {
+      this.currentFilter = {
+        min: isUnbounded(dump.filter.min) ? null : dump.filter.min,
+        max: isUnbounded(dump.filter.max) ? null : dump.filter.max,
+        absolute: dump.filter.absolute === true,
+        filterMissing: dump.filter.filterMissing === true
+      };
+    }
+  }
+
+  /**
+   * compares the deltas of the current order, missing ones last
+   */
+  compare(a: any, b: any, aIndex: number, bIndex: number) {
+    const av = this.getValue(a, aIndex), bv = this.getValue(b, bIndex);
+    if (isNaN(av)) {
+      return isNaN(bv) ? 0 : +1;
+    }
+    if (isNaN(bv)) {
+      return -1;
+    }
+    return av - bv;
+  }
+
+  isFiltered() {
+    return this.currentFilter !== null;
+  }
+
+  filter(row: any, index: number) {
+    if (!this.isFiltered()) {
+      return true;
+    }
+    let v = this.getValue(row, index);
+    if (isNaN(v)) {
+      return !this.currentFilter.filterMissing;
+    }
+    const {min, max, absolute} = this.currentFilter;
+    if (absolute) {
+      v = Math.abs(v);
+    }
+    return (min === null || v >= min) && (max === null || v <= max);
+  }
+
+  getFilter(): IRankDeltaFilter {
+    return this.currentFilter === null ? null : Object.assign({}, this.currentFilter);
+  }
+
+  /**
+   * sets the filter, unbounded ends are given as null
+   * @param filter the new filter or null to reset it
+   */
+  setFilter(filter: IRankDeltaFilter) {
+    let value: IRankDeltaFilter = null;
+    if (filter && (!isUnbounded(filter.min) || !isUnbounded(filter.max) || filter.filterMissing)) {
+      value = {
+        min: isUnbounded(filter.min) ? null : filter.min,
+        max: isUnbounded(filter.max) ? null : filter.max,
+        absolute: filter.absolute === true,
+        filterMissing: filter.filterMissing === true
+      };
+    }
+    const bak = this.getFilter();
+    if (bak === value || (bak !== null && value !== null && bak.min === value.min && bak.max === value.max && bak.absolute === value.absolute && bak.filterMissing === value.filterMissing)) {
+      return;
+    }
+    this.currentFilter = value;
+    this.fire([Column.EVENT_FILTER_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], bak, this.getFilter());
+  }
+
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    return [Object.assign({type: 'rankdelta', id: toId(this.desc)}, this.currentFilter)];
+  }
+}
@@ -5,7 +5,46 @@
 import Column, {IColumnParent, fixCSS, IFlatColumn, IColumnDesc} from './Column';
 import StringColumn from './StringColumn';
 import StackColumn from './StackColumn';
+import NumberColumn, {isNumberColumn, numberCompare, INumberColumn} from './NumberColumn';
+import {IGroup, IOrderedGroup, IGroupData, defaultGroup, GROUP_SORT_METHOD} from './Group';
 import {AEventDispatcher} from '../utils';
+import {
+  IFilterNode, IFilterExpressionProblem, IParsedFilterExpression, parseFilterExpression, compileFilterExpression, findFilterColumn,
+  mapFilterColumns, locateFilterColumns
+} from './FilterExpression';
+import {ascending, mean} from 'd3';
+
+/**
+ * json compatible description of a ranking used for sorting and filtering on the server side
+ */
+export interface IRankingQueryDesc {
+  /**
+   * the primary sorting criteria for compatibility, see toSortingDesc
+   */
+  id: any;
+  asc: boolean;
+  /**
+   * all sorting criterias in their priority order
+   */
+  sortCriterias: {id: any, asc: boolean}[];
+  /**
+   * the filters of all columns, all of them have to match
+   */
+  filters: any[];
+  /**
+   * the syntax tree of the filter expression, whose column references are sorting descriptions, see FilterExpression
+   */
+  filterExpression: IFilterNode;
+  /**
+   * the mapping functions of the number columns
+   */
+  mappings: {id: any, map: any}[];
+  groupCriteria: any;
+  /**
+   * the data indices of the pinned rows which are kept even if they don't match the filters, see Ranking.isFilterPinned
+   */
+  pinned?: number[];
+}
 
 export interface ISortCriteria {
   readonly col: Column;
@@ -13,7 +52,7 @@ export interface ISortCriteria {
 }
 
 export function isSupportType(col: IColumnDesc) {
-  return ['rank', 'selection', 'actions'].indexOf(col.type) >= 0;
+  return ['rank', 'selection', 'actions', 'aggregate'].indexOf(col.type) >= 0;
 }
 
 /**
@@ -33,7 +72,12 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
   static readonly EVENT_SORT_CRITERIAS_CHANGED = 'sortCriteriasChanged';
   static readonly EVENT_DIRTY_ORDER = 'dirtyOrder';
   static readonly EVENT_ORDER_CHANGED = 'orderChanged';
-
+  static readonly EVENT_GROUPS_CHANGED = 'groupsChanged';
+  static readonly EVENT_GROUP_CRITERIA_CHANGED = 'groupCriteriaChanged';
+  static readonly EVENT_GROUP_SORT_METHOD_CHANGED = 'groupSortMethodChanged';
+  static readonly EVENT_GROUP_AGGREGATION_CHANGED = 'groupAggregationChanged';
+  static readonly EVENT_FILTER_EXPRESSION_CHANGED = 'filterExpressionChanged';
+  static readonly EVENT_PINNED_CHANGED = 'pinnedChanged';
 
   /**
    * the list of sort criterias
@@ -48,6 +92,36 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
    */
   private readonly columns: Column[] = [];
 
+  /**
+   * the column used for grouping the rows
+   * @type {Column}
+   */
+  private groupCriteria: Column = null;
+
+  /**
+   * how to sort the groups among each other
+   * @type {string}
+   */
+  private groupSortMethod = GROUP_SORT_METHOD.aggregate;
+
+  /**
+   * names of the groups that are aggregated i.e. shown as a single row
+   * @type {Set<string>}
+   */
+  private readonly aggregated = new Set<string>();
+
+  /**
+   * data indices of the rows shown on top independent of the sorting
+   * @type {Set<number>}
+   */
+  private readonly pinned = new Set<number>();
+
+  /**
+   * whether the pinned rows are subject to the filters, otherwise they are kept even if they don't match
+   * @type {boolean}
+   */
+  private filterPinned = true;
+
   readonly comparator = (a: any, b: any, aIndex: number, bIndex: number) => {
     if (this.sortCriterias.length === 0) {
       return 0;
@@ -61,6 +135,49 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
     return 0;
   }
 
+  readonly grouper = (row: any, index: number): IGroup => {
+    if (this.groupCriteria === null) {
+      return defaultGroup;
+    }
+    return this.groupCriteria.group(row, index);
+  }
+
+  /**
+   * creates a comparator for sorting the given groups among each other, the mean values of the groups are computed just once
+   * @param groups the groups to sort
+   * @returns {(a: IGroupData, b: IGroupData) => number}
+   */
+  toGroupComparator(groups: IGroupData[]) {
+    const primary = this.primarySortCriteria;
+    const means = new Map<IGroupData, number>();
+    if (this.groupSortMethod === GROUP_SORT_METHOD.aggregate && primary.col !== null && isNumberColumn(primary.col)) {
+      const col = <INumberColumn><any>primary.col;
+      groups.forEach((g) => means.set(g, mean(g.rows, (row, i) => col.getNumber(row, g.order[i]))));
+    }
+    return (a: IGroupData, b: IGroupData) => {
+      switch (this.groupSortMethod) {
+        case GROUP_SORT_METHOD.name:
+          return ascending(a.name, b.name);
+        case GROUP_SORT_METHOD.count:
+          return b.order.length - a.order.length;
+      }
+      if (primary.col === null) {
+        return ascending(a.name, b.name);
+      }
+      let r: number;
+      if (means.size > 0) {
+        //compare the mean value of the groups
+        r = numberCompare(means.get(a), means.get(b));
+      } else if (a.rows.length === 0 || b.rows.length === 0) {
+        r = a.rows.length - b.rows.length;
+      } else {
+        //compare the best rows of the groups
+        r = primary.col.compare(a.rows[0], b.rows[0], a.order[0], b.order[0]);
+      }
+      return primary.asc ? r : -r;
+    };
+  }
+
   readonly dirtyOrder = () => {
     this.fire([Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], this.getSortCriteria());
   }
@@ -71,6 +188,28 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
    */
   private order: number[] = [];
 
+  /**
+   * the current groups each having its own sorted order
+   * @type {Array}
+   */
+  private groups: IOrderedGroup[] = [];
+
+  /**
+   * lazy lookup of the group of a data index
+   * @type {Map<number, IOrderedGroup>}
+   */
+  private groupLookup: Map<number, IOrderedGroup> = null;
+
+  /**
+   * the ranking wide filter expression in addition to the column filters
+   */
+  private filterExpression = '';
+  private filterNode: IFilterNode = null;
+  /**
+   * compiled version of the filterNode, reset whenever the columns change
+   */
+  private filterPredicate: (row: any, index: number) => boolean = null;
+
   constructor(public id: string, private readonly maxSortCriterias = 1) {
     super();
     this.id = fixCSS(id);
@@ -82,7 +221,9 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
       Ranking.EVENT_LABEL_CHANGED, Ranking.EVENT_COMPRESS_CHANGED,
       Ranking.EVENT_ADD_COLUMN, Ranking.EVENT_REMOVE_COLUMN,
       Ranking.EVENT_DIRTY, Ranking.EVENT_DIRTY_HEADER, Ranking.EVENT_DIRTY_VALUES,
-      Ranking.EVENT_SORT_CRITERIA_CHANGED, Ranking.EVENT_SORT_CRITERIAS_CHANGED, Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_ORDER_CHANGED]);
+      Ranking.EVENT_SORT_CRITERIA_CHANGED, Ranking.EVENT_SORT_CRITERIAS_CHANGED, Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_ORDER_CHANGED,
+      Ranking.EVENT_GROUPS_CHANGED, Ranking.EVENT_GROUP_CRITERIA_CHANGED, Ranking.EVENT_GROUP_SORT_METHOD_CHANGED, Ranking.EVENT_GROUP_AGGREGATION_CHANGED,
+      Ranking.EVENT_FILTER_EXPRESSION_CHANGED, Ranking.EVENT_PINNED_CHANGED]);
   }
 
   assignNewId(idGenerator: () => string) {
@@ -91,21 +232,208 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
   }
 
   setOrder(order: number[]) {
-    this.fire([Ranking.EVENT_ORDER_CHANGED, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], this.order, this.order = order);
+    this.setGroups([Object.assign({order}, defaultGroup)]);
   }
 
   getOrder() {
     return this.order;
   }
 
+  /**
+   * sets the current groups and derives the overall order by concatenating them
+   * @param groups
+   */
+  setGroups(groups: IOrderedGroup[]) {
+    const old = this.groups;
+    this.groups = groups;
+    this.groupLookup = null;
+    this.fire(Ranking.EVENT_GROUPS_CHANGED, old, groups);
+    const order = groups.length === 1 ? groups[0].order : [].concat(...groups.map((g) => g.order));
+    this.fire([Ranking.EVENT_ORDER_CHANGED, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], this.order, this.order = order);
+  }
+
+  getGroups() {
+    return this.groups.slice();
+  }
+
+  /**
+   * finds the group the given data index belongs to
+   * @param dataIndex
+   * @returns {IOrderedGroup} the group or null if the data index is not part of the current order
+   */
+  findGroup(dataIndex: number): IOrderedGroup {
+    if (this.groupLookup === null) {
+      this.groupLookup = new Map<number, IOrderedGroup>();
+      this.groups.forEach((g) => g.order.forEach((i) => this.groupLookup.set(i, g)));
+    }
+    return this.groupLookup.get(dataIndex) || null;
+  }
+
+  getGroupCriteria() {
+    return this.groupCriteria;
+  }
+
+  /**
+   * groups this ranking by the given column
+   * @param col the column to group by or null to remove the grouping
+   * @returns {boolean} whether the column could be used
+   */
+  groupBy(col: Column) {
+    if (col !== null && col.findMyRanker() !== this) {
+      return false; //not one of mine
+    }
+    if (this.groupCriteria === col) {
+      return true; //already grouped
+    }
+    const bak = this.groupCriteria;
+    if (bak) {
+      bak.on(Column.EVENT_DIRTY_VALUES + '.group', null);
+    }
+    this.groupCriteria = col;
+    if (col) {
+      col.on(Column.EVENT_DIRTY_VALUES + '.group', this.dirtyOrder);
+    }
+    this.fire([Ranking.EVENT_GROUP_CRITERIA_CHANGED, Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_DIRTY_HEADER,
+      Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], bak, col);
+    return true;
+  }
+
+  /**
+   * whether the grouping is based on the given column or one of its children
+   * @param col
+   * @returns {boolean}
+   */
+  private isGroupedBy(col: Column) {
+    let act: any = this.groupCriteria;
+    while (act instanceof Column) {
+      if (act === col) {
+        return true;
+      }
+      act = act.parent;
+    }
+    return false;
+  }
+
+  toggleGrouping(col: Column) {
+    return this.groupBy(this.groupCriteria === col ? null : col);
+  }
+
+  getGroupSortMethod() {
+    return this.groupSortMethod;
+  }
+
+  setGroupSortMethod(sortMethod: string) {
+    if (this.groupSortMethod === sortMethod) {
+      return;
+    }
+    this.fire([Ranking.EVENT_GROUP_SORT_METHOD_CHANGED, Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], this.groupSortMethod, this.groupSortMethod = sortMethod);
+  }
+
+  /**
+   * whether the given group is aggregated, i.e. collapsed to a single row
+   * @param group
+   * @returns {boolean}
+   */
+  isAggregated(group: IGroup) {
+    return this.aggregated.has(group.name);
+  }
+
+  setAggregated(group: IGroup, value: boolean) {
+    if (this.isAggregated(group) === value) {
+      return;
+    }
+    if (value) {
+      this.aggregated.add(group.name);
+    } else {
+      this.aggregated.delete(group.name);
+    }
+    this.fire([Ranking.EVENT_GROUP_AGGREGATION_CHANGED, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], group, value);
+  }
+
+  /**
+   * @returns {number[]} the data indices of the pinned rows in the order they were pinned
+   */
+  getPinned() {
+    return Array.from(this.pinned);
+  }
+
+  isPinned(dataIndex: number) {
+    return this.pinned.has(dataIndex);
+  }
+
+  /**
+   * sets the rows which are shown on top of this ranking independent of the sorting
+   * @param dataIndices the data indices of the rows to pin
+   */
+  setPinned(dataIndices: number[]) {
+    const bak = this.getPinned();
+    if (bak.length === dataIndices.length && dataIndices.every((d) => this.pinned.has(d))) {
+      return;
+    }
+    this.pinned.clear();
+    dataIndices.forEach((d) => this.pinned.add(d));
+    //the pinned rows affect the order if they are kept regardless of the filters
+    const events = this.filterPinned ? [] : [Ranking.EVENT_DIRTY_ORDER];
+    this.fire([Ranking.EVENT_PINNED_CHANGED, ...events, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], bak, this.getPinned());
+  }
+
+  /**
+   * pins or unpins the given row
+   * @param dataIndex
+   * @param value
+   */
+  setRowPinned(dataIndex: number, value: boolean) {
+    if (this.isPinned(dataIndex) === value) {
+      return;
+    }
+    this.setPinned(value ? this.getPinned().concat([dataIndex]) : this.getPinned().filter((d) => d !== dataIndex));
+  }
+
+  isFilterPinned() {
+    return this.filterPinned;
+  }
+
+  /**
+   * sets whether the pinned rows are subject to the filters
+   * @param value false to keep the pinned rows even if they don't match the filters
+   */
+  setFilterPinned(value: boolean) {
+    if (this.filterPinned === value) {
+      return;
+    }
+    this.fire([Ranking.EVENT_FILTER_CHANGED, Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_DIRTY_HEADER, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY],
+      this.filterPinned, this.filterPinned = value);
+  }
+
   dump(toDescRef: (desc: any) => any) {
     const r: any = {};
+    r.id = this.id;
     r.columns = this.columns.map((d) => d.dump(toDescRef));
     r.sortCriterias = this.sortCriterias.map((s) => ({asc: s.asc, sortBy: s.col.id}));
+    if (this.groupCriteria) {
+      r.groupCriteria = this.groupCriteria.id;
+    }
+    r.groupSortMethod = this.groupSortMethod;
+    r.aggregated = Array.from(this.aggregated);
+    if (this.filterNode) {
+      r.filterExpression = this.filterExpression;
+    }
+    if (this.pinned.size > 0) {
+      r.pinned = this.getPinned();
+    }
+    if (!this.filterPinned) {
+      r.filterPinned = false;
+    }
     return r;
   }
 
-  restore(dump: any, factory: (dump: any) => Column) {
+  /**
+   * restores the state of this ranking, an invalid filter expression is dropped
+   * @param dump
+   * @param factory creates the columns out of their dumps
+   * @returns {IFilterExpressionProblem[]} the problems of the filter expression if it is invalid
+   */
+  restore(dump: any, factory: (dump: any) => Column): IFilterExpressionProblem[] {
     this.clear();
     dump.columns.map((child) => {
       const c = factory(child);
@@ -113,22 +441,35 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
         this.push(c);
       }
     });
-    // compatibility case
-    if (dump.sortColumn) {
-      if (dump.sortColumn.sortBy) {
-        const help = this.columns.filter((d) => d.id === dump.sortColumn.sortBy);
-        this.sortBy(help.length === 0 ? null : help[0], dump.sortColumn.asc);
-      }
-    }
     if (dump.sortCriterias) {
+      // restore each criteria, unknown columns are skipped
       const sortCriterias = dump.sortCriterias.map((s) => {
         return {
           asc: s.asc,
-          col: this.columns.find((d) => d.id === dump.sortColumn) || null
+          col: this.find(s.sortBy)
         };
       });
       this.setSortCriterias(sortCriterias);
+    } else if (dump.sortColumn && dump.sortColumn.sortBy) {
+      // compatibility case
+      const help = this.columns.filter((d) => d.id === dump.sortColumn.sortBy);
+      this.sortBy(help.length === 0 ? null : help[0], dump.sortColumn.asc);
+    }
+    if (dump.groupCriteria) {
+      this.groupBy(this.find(dump.groupCriteria));
+    }
+    if (dump.groupSortMethod) {
+      this.setGroupSortMethod(dump.groupSortMethod);
     }
+    //toggle just the groups whose aggregation state differs
+    const aggregated = new Set<string>(dump.aggregated || []);
+    const toGroup = (name: string): IGroup => this.groups.find((g) => g.name === name) || {name, color: defaultGroup.color};
+    Array.from(this.aggregated).filter((name) => !aggregated.has(name)).forEach((name) => this.setAggregated(toGroup(name), false));
+    aggregated.forEach((name) => this.setAggregated(toGroup(name), true));
+    this.pinned.clear();
+    (dump.pinned || []).forEach((dataIndex: number) => this.pinned.add(dataIndex));
+    this.filterPinned = dump.filterPinned !== false;
+    return this.setFilterExpression(dump.filterExpression || '');
   }
 
   flatten(r: IFlatColumn[], offset: number, levelsToGo = 0, padding = 0) {
@@ -169,11 +510,38 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
     return this.sortBy(col);
   }
 
+  /**
+   * toggles the given column as additional sort criteria: flips its order if it is already used, otherwise it is appended
+   * @param col the column to sort by in addition
+   * @returns {boolean}
+   */
+  toggleSortCriteria(col: Column) {
+    const criterias = this.getSortCriterias();
+    const existing = criterias.findIndex((d) => d.col === col);
+    if (existing >= 0) {
+      criterias[existing] = {col, asc: !criterias[existing].asc};
+    } else if (criterias.length < this.maxSortCriterias) {
+      criterias.push({col, asc: false});
+    } else {
+      return this.toggleSorting(col);
+    }
+    return this.setSortCriterias(criterias);
+  }
+
+  /**
+   * the maximal number of nested sort criterias
+   * @returns {number}
+   */
+  getMaxSortCriterias() {
+    return this.maxSortCriterias;
+  }
+
   setSortCriteria(value: ISortCriteria) {
     return this.sortBy(value.col, value.asc);
   }
 
   setSortCriterias(values: ISortCriteria[]) {
+    values = values.filter((d) => d.col != null && d.col.findMyRanker() === this);
     if (values.length === 0) {
       return this.sortBy(null);
     } else if (values.length === 1) {
@@ -197,6 +565,7 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
     });
     this.sortCriterias.splice(0, this.sortCriterias.length, ...values.slice());
     this.triggerResort(bak);
+    return true;
   }
 
   sortBy(col: Column, ascending = false) {
@@ -265,7 +634,7 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
     col.parent = this;
     this.forward(col, Column.EVENT_DIRTY_VALUES + '.ranking', Column.EVENT_DIRTY_HEADER + '.ranking', Column.EVENT_DIRTY + '.ranking', Column.EVENT_FILTER_CHANGED + '.ranking');
     col.on(Ranking.EVENT_FILTER_CHANGED + '.order', this.dirtyOrder);
-
+    this.filterPredicate = null;
 
     this.fire([Ranking.EVENT_ADD_COLUMN, Ranking.EVENT_DIRTY_HEADER, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], col, index);
 
@@ -333,8 +702,13 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
       this.triggerResort();
     }
 
+    if (this.isGroupedBy(col)) {
+      this.groupBy(null);
+    }
+
     col.parent = null;
     this.columns.splice(i, 1);
+    this.filterPredicate = null;
 
     this.fire([Ranking.EVENT_REMOVE_COLUMN, Ranking.EVENT_DIRTY_HEADER, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], col, i);
     return true;
@@ -345,11 +719,16 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
       return;
     }
     this.sortCriterias.splice(0, this.sortCriterias.length);
+    if (this.groupCriteria) {
+      this.groupCriteria.on(Column.EVENT_DIRTY_VALUES + '.group', null);
+      this.groupCriteria = null;
+    }
     this.columns.forEach((col) => {
       this.unforward(col, Column.EVENT_DIRTY_VALUES + '.ranking', Column.EVENT_DIRTY_HEADER + '.ranking', Column.EVENT_DIRTY + '.ranking', Column.EVENT_FILTER_CHANGED + '.ranking');
       col.parent = null;
     });
     this.columns.length = 0;
+    this.filterPredicate = null;
     this.fire([Ranking.EVENT_REMOVE_COLUMN, Ranking.EVENT_DIRTY_HEADER, Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], null);
   }
 
@@ -375,7 +754,6 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
    * @param toId
    */
   toSortingDesc(toId: (desc: any) => string) {
-    //TODO describe also all the filter settings
     const resolve = (s: Column): any => {
       if (s === null) {
         return null;
@@ -393,11 +771,87 @@ export default class Ranking extends AEventDispatcher implements IColumnParent {
     };
   }
 
+  /**
+   * converts the whole state affecting the order, i.e. sorting criterias, filters, and mappings, to a json compatible notation for transferring it to the server
+   * @param toId
+   * @returns {IRankingQueryDesc}
+   */
+  toQueryDesc(toId: (desc: any) => string): IRankingQueryDesc {
+    const primary = this.toSortingDesc(toId);
+    return {
+      id: primary ? primary.id : null,
+      asc: primary ? primary.asc : false,
+      sortCriterias: this.sortCriterias.filter((s) => s.col != null).map((s) => ({id: s.col.toSortingDesc(toId), asc: s.asc})),
+      filters: [].concat(...this.columns.map((c) => c.toFilterDesc(toId))),
+      filterExpression: this.filterNode ? mapFilterColumns(this.filterNode, (ref) => {
+        const col = findFilterColumn(this.flatColumns, ref);
+        return col ? col.toSortingDesc(toId) : ref;
+      }) : null,
+      mappings: this.flatColumns.filter((c) => c instanceof NumberColumn).map((c: NumberColumn) => ({id: toId(c.desc), map: c.getMapping().dump()})),
+      groupCriteria: this.groupCriteria ? this.groupCriteria.toSortingDesc(toId) : null,
+      pinned: this.filterPinned ? [] : this.getPinned()
+    };
+  }
+
+  getFilterExpression() {
+    return this.filterExpression;
+  }
+
+  /**
+   * parses the given filter expression and checks whether the referenced columns are part of this ranking
+   * @param expression
+   * @returns {IParsedFilterExpression}
+   */
+  checkFilterExpression(expression: string): IParsedFilterExpression {
+    const {node, problems} = parseFilterExpression(expression);
+    if (node) {
+      const columns = this.flatColumns;
+      locateFilterColumns(expression).filter(({column}) => !findFilterColumn(columns, column)).forEach(({column, position}) => {
+        problems.push({position, message: `unknown column: ${column}`});
+      });
+    }
+    return {node, problems};
+  }
+
+  /**
+   * sets the ranking wide filter expression, see parseFilterExpression for its syntax
+   * @param expression the expression or an empty string to remove it
+   * @returns {IFilterExpressionProblem[]} the problems of an invalid expression, which isn't applied
+   */
+  setFilterExpression(expression: string): IFilterExpressionProblem[] {
+    const {node, problems} = this.checkFilterExpression(expression);
+    if (problems.length > 0) {
+      return problems;
+    }
+    const bak = this.filterExpression;
+    if (bak === expression) {
+      return [];
+    }
+    this.filterExpression = node ? expression : '';
+    this.filterNode = node;
+    this.filterPredicate = null;
+    this.fire([Ranking.EVENT_FILTER_EXPRESSION_CHANGED, Ranking.EVENT_FILTER_CHANGED, Ranking.EVENT_DIRTY_ORDER, Ranking.EVENT_DIRTY_HEADER,
+      Ranking.EVENT_DIRTY_VALUES, Ranking.EVENT_DIRTY], bak, this.filterExpression);
+    return [];
+  }
+
   isFiltered() {
-    return this.columns.some((d) => d.isFiltered());
+    return this.filterNode !== null || this.columns.some((d) => d.isFiltered());
   }
 
   filter(row: any, index: number) {
+    if (!this.filterPinned && this.pinned.has(index)) {
+      return true;
+    }
+    if (this.filterNode !== null) {
+      if (this.filterPredicate === null) {
+        const columns = this.flatColumns;
+        this.filterPredicate = compileFilterExpression(this.filterNode, (ref) => findFilterColumn(columns, ref));
+      }
+      if (!this.filterPredicate(row, index)) {
+        return false;
+      }
+    }
     return this.columns.every((d) => d.filter(row, index));
   }
 
@@ -5,6 +5,8 @@
 import Column from './Column';
 import CompositeNumberColumn, {ICompositeNumberDesc} from './CompositeNumberColumn';
 import {INumberColumn, isNumberColumn} from './NumberColumn';
+import {compileScript, ICompiledScript} from './ScriptExpression';
+import {findFilterColumn} from './FilterExpression';
 
 const DEFAULT_SCRIPT = 'max(values)';
 
@@ -18,45 +20,16 @@ export function createDesc(label: string = 'script') {
 }
 
 
-function wrapWithContext(code: string) {
-  let clean = code.trim();
-  if (!clean.startsWith('return')) {
-    clean = `return (${clean});`;
-  }
-  return `
-  const max = function(arr) { return Math.max.apply(Math, arr); };
-  const min = function(arr) { return Math.min.apply(Math, arr); };
-  const extent = function(arr) { return [min(arr), max(arr)]; };
-  const clamp = function(v, minValue, maxValue) { return v < minValue ? minValue : (v > maxValue ? maxValue : v); };
-  const normalize = function(v, minMax, max) {
-    if (Array.isArray(minMax)) {
-      minMax = minMax[0];
-      max = minMax[1];
-    }
-    return (v - minMax) / (max - minMax);
-  };
-  const denormalize = function(v, minMax, max) {
-    if (Array.isArray(minMax)) {
-      minMax = minMax[0];
-      max = minMax[1];
-    }
-    return v * (max - minMax) + minMax;
-  };
-  const linear = function(v, source, target) {
-    target = target || [0, 1];
-    return denormalize(normalize(v, source), target);
-  };
-  const v = (function custom() {
-    ${clean}
-  })();
-
-  return typeof v === 'number' ? v : NaN`;
-}
+/**
+ * the variables available in the script
+ */
+const VARIABLES = ['values', 'raws', 'index'];
 
 export interface IScriptColumnDesc extends ICompositeNumberDesc {
   /**
-   * the function to use, it has two parameters: children (current children) and values (their row values)
-   * @default 'return Math.max.apply(Math,values)'
+   * the expression to compute, it can use the variables values (the row values of the children), raws (their raw values), index, and reference children by their label in backticks.
+   * values and raws have one entry per child, missing ones are NaN and ignored by the aggregate functions, e.g. max
+   * @default 'max(values)'
    */
   script?: string;
 }
@@ -67,7 +40,7 @@ export default class ScriptColumn extends CompositeNumberColumn {
   static readonly DEFAULT_SCRIPT = DEFAULT_SCRIPT;
 
   private script = ScriptColumn.DEFAULT_SCRIPT;
-  private f: Function = null;
+  private compiled: ICompiledScript = null;
 
   constructor(id: string, desc: IScriptColumnDesc) {
     super(id, desc);
@@ -82,7 +55,7 @@ export default class ScriptColumn extends CompositeNumberColumn {
     if (this.script === script) {
       return;
     }
-    this.f = null;
+    this.compiled = null;
     this.fire([ScriptColumn.EVENT_SCRIPT_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.script, this.script = script);
   }
 
@@ -90,6 +63,16 @@ export default class ScriptColumn extends CompositeNumberColumn {
     return this.script;
   }
 
+  /**
+   * checks the given script against the current children
+   * @param script
+   * @returns {IScriptProblem[]} the problems with their positions, empty if it is valid
+   */
+  checkScript(script: string) {
+    const columns = this._children.map((c) => c.label).concat(this._children.map((c) => c.id));
+    return compileScript(script, VARIABLES, columns).problems;
+  }
+
   dump(toDescRef: (desc: any) => any) {
     const r = super.dump(toDescRef);
     r.script = this.script;
@@ -102,15 +85,21 @@ export default class ScriptColumn extends CompositeNumberColumn {
   }
 
   protected compute(row: any, index: number) {
-    if (this.f == null) {
-      this.f = new Function('children', 'values', 'raws', 'row', 'index', wrapWithContext(this.script));
+    if (this.compiled == null) {
+      this.compiled = compileScript(this.script, VARIABLES);
     }
-    return this.f.call(this,
-      this._children,
-      this._children.map((d) => d.getValue(row, index)),
-      <number[]>this._children.map((d) => isNumberColumn(d) ? (<INumberColumn><any>d).getRawNumber(row, index) : null),
-      row,
-      index);
+    //the positions match the children, such that values[i] is the value of the i-th child
+    return this.compiled.evaluate({
+      variables: {
+        values: this._children.map((d) => d.getValue(row, index)),
+        raws: this._children.map((d) => isNumberColumn(d) ? (<INumberColumn><any>d).getRawNumber(row, index) : NaN),
+        index
+      },
+      column: (name: string) => {
+        const child = findFilterColumn(this._children, name);
+        return child ? child.getValue(row, index) : NaN;
+      }
+    });
   }
 
   /**
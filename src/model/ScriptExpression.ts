@@ -0,0 +1,655 @@
+/**
+ * a problem detected while compiling a script
+ */
+export interface IScriptProblem {
+  /**
+   * the character offset within the script
+   */
+  readonly position: number;
+  readonly message: string;
+}
+
+/**
+ * the context a compiled script is evaluated in
+ */
+export interface IScriptScope {
+  /**
+   * the values of the variables by name, e.g., the row for evaluating a formula
+   */
+  readonly variables: {[name: string]: any};
+
+  /**
+   * resolves a column reference
+   * @param name the label or id of the column
+   * @returns {any} its value or NaN if there is no such column
+   */
+  column?(name: string): any;
+}
+
+export interface ICompiledScript {
+  /**
+   * syntax errors, unknown variables, functions, or columns, empty if the script is valid
+   */
+  readonly problems: IScriptProblem[];
+
+  /**
+   * evaluates the script
+   * @param scope
+   * @returns {number} the result or NaN if the script is invalid or the result is no number
+   */
+  evaluate(scope: IScriptScope): number;
+
+  /**
+   * evaluates the script without converting the result
+   * @param scope
+   * @returns {any} the result, e.g. a number, string, or boolean, or null if the script is invalid or the evaluation failed
+   */
+  evaluateValue(scope: IScriptScope): any;
+}
+
+const KEYWORDS = ['and', 'or', 'not', 'true', 'false', 'return', 'this'];
+const OPERATORS = ['<=', '>=', '!=', '==', '&&', '||', '=', '<', '>', '+', '-', '*', '/', '%', '!', '?', ':', '(', ')', '[', ']', ',', '.', ';'];
+
+interface IToken {
+  type: string;
+  value: any;
+  position: number;
+}
+
+/**
+ * json compatible syntax tree node
+ */
+interface INode {
+  type: string;
+  position: number;
+  value?: number | boolean | string;
+  /**
+   * name of the variable, function, or column
+   */
+  name?: string;
+  op?: string;
+  operands?: INode[];
+}
+
+class ParseError {
+  constructor(public readonly position: number, public readonly message: string) {
+
+  }
+}
+
+/**
+ * thrown when a value has the wrong type during the evaluation, results in NaN
+ */
+class EvaluationError {
+  constructor(public readonly message: string) {
+
+  }
+}
+
+function toNumber(v: any): number {
+  if (typeof v === 'number') {
+    return v;
+  }
+  if (typeof v === 'boolean') {
+    return v ? 1 : 0;
+  }
+  if (typeof v === 'string') {
+    //e.g. numeric fields of a parsed csv file
+    return v.trim() === '' ? NaN : Number(v);
+  }
+  if (v === null || v === undefined) {
+    return NaN;
+  }
+  if (v instanceof Date) {
+    return v.getTime();
+  }
+  throw new EvaluationError(`expected a number but got ${Array.isArray(v) ? 'an array' : typeof v}`);
+}
+
+function toArray(v: any): any[] {
+  if (!Array.isArray(v)) {
+    throw new EvaluationError(`expected an array but got ${typeof v}`);
+  }
+  return v;
+}
+
+function toText(v: any): string {
+  if (v === null || v === undefined) {
+    return '';
+  }
+  if (Array.isArray(v) || typeof v === 'object' && !(v instanceof Date)) {
+    throw new EvaluationError(`expected a text but got ${Array.isArray(v) ? 'an array' : typeof v}`);
+  }
+  return String(v);
+}
+
+function toDate(v: any): Date {
+  if (v instanceof Date) {
+    return v;
+  }
+  if (v === null || v === undefined || v === '') {
+    return null;
+  }
+  const date = typeof v === 'number' ? new Date(v) : new Date(toText(v));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * dates without a time are parsed as UTC, so are the extracted parts
+ */
+function datePart(v: any, part: (date: Date) => number) {
+  const date = toDate(v);
+  return date ? part(date) : NaN;
+}
+
+/**
+ * the numbers of the arguments, arrays are flattened such that both max(values) and max(a, b) are possible.
+ * Missing values, i.e. NaN, are skipped such that the aggregates just consider the known values
+ * @param args
+ * @returns {number[]}
+ */
+function numbersOf(args: any[]): number[] {
+  const r: number[] = [];
+  const push = (v: any) => {
+    const n = toNumber(v);
+    if (!isNaN(n)) {
+      r.push(n);
+    }
+  };
+  args.forEach((arg) => Array.isArray(arg) ? arg.forEach(push) : push(arg));
+  return r;
+}
+
+/**
+ * applies the aggregate function to the known numbers of the arguments
+ * @returns {number} NaN if all values are missing
+ */
+function aggregate(args: any[], f: (values: number[]) => number) {
+  const values = numbersOf(args);
+  return values.length === 0 ? NaN : f(values);
+}
+
+/**
+ * min and max either given as array or as two arguments
+ */
+function boundsOf(minMax: any, max: any): [number, number] {
+  if (Array.isArray(minMax)) {
+    return [toNumber(minMax[0]), toNumber(minMax[1])];
+  }
+  return [toNumber(minMax), toNumber(max)];
+}
+
+function normalize(v: any, minMax: any, max?: any) {
+  const [a, b] = boundsOf(minMax, max);
+  return (toNumber(v) - a) / (b - a);
+}
+
+function denormalize(v: any, minMax: any, max?: any) {
+  const [a, b] = boundsOf(minMax, max);
+  return toNumber(v) * (b - a) + a;
+}
+
+/**
+ * the available functions with their minimal and maximal number of arguments
+ */
+const FUNCTIONS: {[name: string]: {min: number, max: number, f: (...args: any[]) => any}} = {
+  max: {min: 1, max: Infinity, f: (...args: any[]) => aggregate(args, (values) => Math.max.apply(Math, values))},
+  min: {min: 1, max: Infinity, f: (...args: any[]) => aggregate(args, (values) => Math.min.apply(Math, values))},
+  sum: {min: 1, max: Infinity, f: (...args: any[]) => numbersOf(args).reduce((a, b) => a + b, 0)},
+  mean: {min: 1, max: Infinity, f: (...args: any[]) => aggregate(args, (values) => values.reduce((a, b) => a + b, 0) / values.length)},
+  extent: {
+    min: 1, max: 1, f: (arr: any) => {
+      const values = numbersOf(toArray(arr));
+      return values.length === 0 ? [NaN, NaN] : [Math.min.apply(Math, values), Math.max.apply(Math, values)];
+    }
+  },
+  clamp: {min: 3, max: 3, f: (v: any, min: any, max: any) => Math.max(Math.min(toNumber(v), toNumber(max)), toNumber(min))},
+  normalize: {min: 2, max: 3, f: normalize},
+  denormalize: {min: 2, max: 3, f: denormalize},
+  linear: {
+    min: 2, max: 3, f: (v: any, source: any, target?: any) => {
+      if (!Array.isArray(source)) {
+        //linear(v, min, max) = normalize(v, min, max)
+        return normalize(v, source, target);
+      }
+      return denormalize(normalize(v, source), target === undefined ? [0, 1] : target);
+    }
+  },
+  abs: {min: 1, max: 1, f: (v: any) => Math.abs(toNumber(v))},
+  sqrt: {min: 1, max: 1, f: (v: any) => Math.sqrt(toNumber(v))},
+  pow: {min: 2, max: 2, f: (v: any, exponent: any) => Math.pow(toNumber(v), toNumber(exponent))},
+  log: {min: 1, max: 1, f: (v: any) => Math.log(toNumber(v))},
+  exp: {min: 1, max: 1, f: (v: any) => Math.exp(toNumber(v))},
+  floor: {min: 1, max: 1, f: (v: any) => Math.floor(toNumber(v))},
+  ceil: {min: 1, max: 1, f: (v: any) => Math.ceil(toNumber(v))},
+  round: {min: 1, max: 1, f: (v: any) => Math.round(toNumber(v))},
+  isMissing: {min: 1, max: 1, f: (v: any) => v === null || v === undefined || v === '' || (typeof v === 'number' && isNaN(v))},
+  number: {min: 1, max: 1, f: toNumber},
+  text: {min: 1, max: 1, f: toText},
+  lower: {min: 1, max: 1, f: (v: any) => toText(v).toLowerCase()},
+  upper: {min: 1, max: 1, f: (v: any) => toText(v).toUpperCase()},
+  year: {min: 1, max: 1, f: (v: any) => datePart(v, (d) => d.getUTCFullYear())},
+  month: {min: 1, max: 1, f: (v: any) => datePart(v, (d) => d.getUTCMonth() + 1)},
+  day: {min: 1, max: 1, f: (v: any) => datePart(v, (d) => d.getUTCDate())}
+};
+
+/**
+ * splits the script in its tokens
+ * @param text
+ * @returns {IToken[]}
+ */
+function tokenize(text: string): IToken[] {
+  const tokens: IToken[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const c = text[i];
+    const rest = text.slice(i);
+    const position = i;
+    if (/\s/.test(c)) {
+      i++;
+      continue;
+    }
+    const numeric = rest.match(/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?/);
+    const op = OPERATORS.find((o) => rest.indexOf(o) === 0);
+    if (numeric) {
+      tokens.push({type: 'number', value: parseFloat(numeric[0]), position});
+      i += numeric[0].length;
+    } else if (c === '"' || c === '\'') {
+      let r = '';
+      i++;
+      while (i < text.length && text[i] !== c) {
+        if (text[i] === '\\' && i + 1 < text.length) {
+          i++;
+        }
+        r += text[i++];
+      }
+      if (i >= text.length) {
+        throw new ParseError(position, `missing closing ${c}`);
+      }
+      i++;
+      tokens.push({type: 'string', value: r, position});
+    } else if (c === '`') {
+      const end = text.indexOf('`', i + 1);
+      if (end < 0) {
+        throw new ParseError(position, 'missing closing `');
+      }
+      tokens.push({type: 'column', value: text.slice(i + 1, end), position});
+      i = end + 1;
+    } else if (op) {
+      //the logical operators have an alternative keyword
+      const type = op === '&&' ? 'and' : (op === '||' ? 'or' : (op === '=' ? '==' : op));
+      tokens.push({type, value: op, position});
+      i += op.length;
+    } else {
+      const word = rest.match(/^[A-Za-z_]\w*/);
+      if (!word) {
+        throw new ParseError(position, `unexpected character: ${c}`);
+      }
+      tokens.push({type: KEYWORDS.indexOf(word[0]) >= 0 ? word[0] : 'identifier', value: word[0], position});
+      i += word[0].length;
+    }
+  }
+  tokens.push({type: 'eof', value: null, position: text.length});
+  return tokens;
+}
+
+/**
+ * recursive descent parser of the grammar:
+ *
+ * script := 'return'? conditional ';'?
+ * conditional := or ('?' conditional ':' conditional)?
+ * or := and ('or' and)*
+ * and := not ('and' not)*
+ * not := 'not' not | compare
+ * compare := additive (('<' | '<=' | '>' | '>=' | '==' | '!=') additive)?
+ * additive := multiplicative (('+' | '-') multiplicative)*
+ * multiplicative := unary (('*' | '/' | '%') unary)*
+ * unary := ('-' | '+' | '!') unary | postfix
+ * postfix := primary ('[' conditional ']' | '.' 'length')*
+ * primary := number | string | 'true' | 'false' | column | '(' conditional ')' | '[' list ']' | identifier '(' list ')' | 'this' '.' identifier | identifier
+ */
+class Parser {
+  private i = 0;
+
+  constructor(private readonly tokens: IToken[]) {
+
+  }
+
+  private get current() {
+    return this.tokens[this.i];
+  }
+
+  private expect(type: string, what = type) {
+    const t = this.current;
+    if (t.type !== type) {
+      throw new ParseError(t.position, t.type === 'eof' ? `unexpected end, expected ${what}` : `expected ${what} but got ${t.value}`);
+    }
+    this.i++;
+    return t;
+  }
+
+  private accept(...types: string[]) {
+    const t = this.current;
+    if (types.indexOf(t.type) >= 0) {
+      this.i++;
+      return t;
+    }
+    return null;
+  }
+
+  parse(): INode {
+    this.accept('return');
+    const node = this.parseConditional();
+    this.accept(';');
+    this.expect('eof', 'end of script');
+    return node;
+  }
+
+  private parseConditional(): INode {
+    const test = this.parseLogic('or');
+    const t = this.accept('?');
+    if (!t) {
+      return test;
+    }
+    const then = this.parseConditional();
+    this.expect(':');
+    return {type: 'conditional', position: t.position, operands: [test, then, this.parseConditional()]};
+  }
+
+  private parseLogic(type: 'and' | 'or'): INode {
+    const next = () => type === 'or' ? this.parseLogic('and') : this.parseNot();
+    let node = next();
+    let t: IToken;
+    while ((t = this.accept(type)) !== null) {
+      node = {type: 'binary', position: t.position, op: type, operands: [node, next()]};
+    }
+    return node;
+  }
+
+  private parseNot(): INode {
+    const t = this.accept('not');
+    if (t) {
+      return {type: 'unary', position: t.position, op: '!', operands: [this.parseNot()]};
+    }
+    return this.parseCompare();
+  }
+
+  private parseCompare(): INode {
+    const node = this.parseBinary(0);
+    const t = this.accept('<', '<=', '>', '>=', '==', '!=');
+    if (!t) {
+      return node;
+    }
+    return {type: 'binary', position: t.position, op: t.type, operands: [node, this.parseBinary(0)]};
+  }
+
+  private parseBinary(level: number): INode {
+    const ops = [['+', '-'], ['*', '/', '%']][level];
+    const next = () => level === 0 ? this.parseBinary(1) : this.parseUnary();
+    let node = next();
+    let t: IToken;
+    while ((t = this.accept(...ops)) !== null) {
+      node = {type: 'binary', position: t.position, op: t.type, operands: [node, next()]};
+    }
+    return node;
+  }
+
+  private parseUnary(): INode {
+    const t = this.accept('-', '+', '!');
+    if (t) {
+      return {type: 'unary', position: t.position, op: t.type, operands: [this.parseUnary()]};
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): INode {
+    let node = this.parsePrimary();
+    let t: IToken;
+    while ((t = this.accept('[', '.')) !== null) {
+      if (t.type === '[') {
+        node = {type: 'index', position: t.position, operands: [node, this.parseConditional()]};
+        this.expect(']');
+      } else {
+        const name = this.expect('identifier', 'length');
+        if (name.value !== 'length') {
+          throw new ParseError(name.position, `unknown property: ${name.value}, just length is supported`);
+        }
+        node = {type: 'length', position: t.position, operands: [node]};
+      }
+    }
+    return node;
+  }
+
+  private parseList(end: string) {
+    const operands: INode[] = [];
+    if (!this.accept(end)) {
+      do {
+        operands.push(this.parseConditional());
+      } while (this.accept(','));
+      this.expect(end);
+    }
+    return operands;
+  }
+
+  private parsePrimary(): INode {
+    const t = this.current;
+    this.i++;
+    switch (t.type) {
+      case 'number':
+      case 'string':
+        return {type: 'literal', position: t.position, value: t.value};
+      case 'true':
+      case 'false':
+        return {type: 'literal', position: t.position, value: t.type === 'true'};
+      case 'column':
+        return {type: 'column', position: t.position, name: t.value};
+      case '(': {
+        const node = this.parseConditional();
+        this.expect(')');
+        return node;
+      }
+      case '[':
+        return {type: 'array', position: t.position, operands: this.parseList(']')};
+      case 'this': {
+        //this.value_min and this.linear(...) are supported for compatibility with the former JavaScript scripts
+        this.expect('.');
+        const name = this.expect('identifier', 'variable');
+        if (this.accept('(')) {
+          return {type: 'call', position: name.position, name: name.value, operands: this.parseList(')')};
+        }
+        return {type: 'variable', position: name.position, name: name.value};
+      }
+      case 'identifier':
+        if (this.accept('(')) {
+          return {type: 'call', position: t.position, name: t.value, operands: this.parseList(')')};
+        }
+        return {type: 'variable', position: t.position, name: t.value};
+    }
+    this.i--;
+    throw new ParseError(t.position, t.type === 'eof' ? 'unexpected end, expected value' : `unexpected ${t.value}`);
+  }
+}
+
+/**
+ * checks the references and argument counts of the syntax tree
+ * @param node
+ * @param variables the known variables or null if any is allowed
+ * @param columns the known column labels and ids or null if they are resolved while evaluating
+ * @returns {IScriptProblem[]}
+ */
+function check(node: INode, variables: string[], columns: string[]): IScriptProblem[] {
+  const problems: IScriptProblem[] = [];
+  const visit = (n: INode) => {
+    switch (n.type) {
+      case 'variable':
+        if (variables !== null && variables.indexOf(n.name) < 0) {
+          problems.push({position: n.position, message: FUNCTIONS.hasOwnProperty(n.name) ? `missing arguments of function: ${n.name}` : `unknown variable: ${n.name}`});
+        }
+        break;
+      case 'column':
+        if (columns !== null && !columns.some((c) => c.toLowerCase() === n.name.toLowerCase())) {
+          problems.push({position: n.position, message: `unknown column: ${n.name}`});
+        }
+        break;
+      case 'call': {
+        const f = FUNCTIONS.hasOwnProperty(n.name) ? FUNCTIONS[n.name] : null;
+        if (!f) {
+          problems.push({position: n.position, message: `unknown function: ${n.name}`});
+        } else if (n.operands.length < f.min || n.operands.length > f.max) {
+          const expected = f.min === f.max ? String(f.min) : (f.max === Infinity ? `at least ${f.min}` : `${f.min} to ${f.max}`);
+          problems.push({position: n.position, message: `${n.name} expects ${expected} arguments but got ${n.operands.length}`});
+        }
+        break;
+      }
+    }
+    (n.operands || []).forEach(visit);
+  };
+  visit(node);
+  return problems;
+}
+
+function equal(a: any, b: any) {
+  if (typeof a === typeof b) {
+    return a === b;
+  }
+  return (typeof a === 'string' || typeof b === 'string') ? toText(a) === toText(b) : toNumber(a) === toNumber(b);
+}
+
+/**
+ * a division by zero results in a missing value instead of infinity
+ */
+function divide(a: number, b: number, op: (a: number, b: number) => number) {
+  return b === 0 ? NaN : op(a, b);
+}
+
+/**
+ * compares texts by text and everything else by number
+ */
+function compare(a: any, b: any) {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.localeCompare(b);
+  }
+  return toNumber(a) - toNumber(b);
+}
+
+/**
+ * converts the syntax tree into a tree of closures
+ * @param node
+ * @returns {(scope: IScriptScope) => any}
+ */
+function compile(node: INode): (scope: IScriptScope) => any {
+  const operands = (node.operands || []).map(compile);
+  const [a, b, c] = operands;
+  switch (node.type) {
+    case 'literal':
+      return () => node.value;
+    case 'variable':
+      //just own properties, e.g., no access to the prototype of a row
+      return (scope) => Object.prototype.hasOwnProperty.call(scope.variables, node.name) ? scope.variables[node.name] : undefined;
+    case 'column':
+      return (scope) => scope.column ? scope.column(node.name) : NaN;
+    case 'array':
+      return (scope) => operands.map((o) => o(scope));
+    case 'call': {
+      const f = FUNCTIONS[node.name].f;
+      return (scope) => f.apply(null, operands.map((o) => o(scope)));
+    }
+    case 'index':
+      return (scope) => {
+        const v = toArray(a(scope))[toNumber(b(scope))];
+        return v === undefined ? NaN : v;
+      };
+    case 'length':
+      return (scope) => toArray(a(scope)).length;
+    case 'conditional':
+      return (scope) => toNumber(a(scope)) ? b(scope) : c(scope);
+    case 'unary':
+      switch (node.op) {
+        case '-':
+          return (scope) => -toNumber(a(scope));
+        case '+':
+          return (scope) => toNumber(a(scope));
+        default:
+          return (scope) => !toNumber(a(scope));
+      }
+  }
+  switch (node.op) {
+    case 'and':
+      return (scope) => Boolean(toNumber(a(scope))) && Boolean(toNumber(b(scope)));
+    case 'or':
+      return (scope) => Boolean(toNumber(a(scope))) || Boolean(toNumber(b(scope)));
+    case '==':
+      return (scope) => equal(a(scope), b(scope));
+    case '!=':
+      return (scope) => !equal(a(scope), b(scope));
+    case '<':
+      return (scope) => compare(a(scope), b(scope)) < 0;
+    case '<=':
+      return (scope) => compare(a(scope), b(scope)) <= 0;
+    case '>':
+      return (scope) => compare(a(scope), b(scope)) > 0;
+    case '>=':
+      return (scope) => compare(a(scope), b(scope)) >= 0;
+    case '+':
+      return (scope) => {
+        const av = a(scope), bv = b(scope);
+        //concatenates texts
+        return (typeof av === 'string' || typeof bv === 'string') ? toText(av) + toText(bv) : toNumber(av) + toNumber(bv);
+      };
+    case '-':
+      return (scope) => toNumber(a(scope)) - toNumber(b(scope));
+    case '*':
+      return (scope) => toNumber(a(scope)) * toNumber(b(scope));
+    case '/':
+      return (scope) => divide(toNumber(a(scope)), toNumber(b(scope)), (x, y) => x / y);
+    default:
+      return (scope) => divide(toNumber(a(scope)), toNumber(b(scope)), (x, y) => x % y);
+  }
+}
+
+/**
+ * compiles a script of the safe expression language, e.g. clamp(`price` * 2 + max(values), 0, 1) or value > 10 ? 1 : normalize(value, 0, 10)
+ *
+ * it supports numbers, texts, arrays, arithmetic, comparisons, and/or/not, conditionals, the given variables, indexing arrays and their length, and a fixed set of functions.
+ * columns are referenced by their label or id quoted with backticks. There is no access to anything else, e.g., globals.
+ * In contrast to JavaScript, a division by zero results in NaN and aggregate functions like max ignore missing (NaN) values instead of treating null as 0.
+ *
+ * @param code the script, an optional leading return and trailing semicolon are ignored
+ * @param variables the names of the variables available while evaluating or null if any identifier is resolved as variable
+ * @param columns the labels and ids of the columns to check the references, null to resolve them while evaluating only
+ * @returns {ICompiledScript}
+ */
+export function compileScript(code: string, variables: string[], columns: string[] = null): ICompiledScript {
+  let node: INode;
+  try {
+    node = new Parser(tokenize(code || '')).parse();
+  } catch (e) {
+    if (e instanceof ParseError) {
+      return {problems: [{position: e.position, message: e.message}], evaluate: () => NaN, evaluateValue: () => null};
+    }
+    throw e;
+  }
+  const problems = check(node, variables, columns);
+  if (problems.length > 0) {
+    return {problems, evaluate: () => NaN, evaluateValue: () => null};
+  }
+  const f = compile(node);
+  const evaluateValue = (scope: IScriptScope) => {
+    try {
+      return f(scope);
+    } catch (e) {
+      if (e instanceof EvaluationError) {
+        return null;
+      }
+      throw e;
+    }
+  };
+  return {
+    problems,
+    evaluateValue,
+    evaluate: (scope: IScriptScope) => {
+      const v = evaluateValue(scope);
+      return typeof v === 'boolean' ? (v ? 1 : 0) : (typeof v === 'number' ? v : NaN);
+    }
+  };
+}
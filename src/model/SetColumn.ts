@@ -1,31 +1,107 @@
 /**
  * Created by bikramkawan on 24/11/2016.
  */
-import * as d3 from 'd3';
-import Column, {IColumnDesc, IStatistics} from './Column';
+import Column from './Column';
 import ValueColumn from './ValueColumn';
 import {IValueColumnDesc} from './ValueColumn';
+import {ICategoricalColumn} from './CategoricalColumn';
+import {IGroup, missingGroup} from './Group';
 
 
-interface ISetColumnDesc extends IValueColumnDesc <number[]> {
+interface ISetColumnDesc extends IValueColumnDesc <number[]|string[]> {
   readonly dataLength?: number;
+  /**
+   * the names of the elements of the set, the value of a row is either an array of 0/1 flags in this order or an array of the names of its members
+   */
+  readonly elements?: string[];
+}
 
+/**
+ * the modes of a set filter
+ */
+export const SET_FILTER_MODES = {
+  any: 'contains any of',
+  all: 'contains all of',
+  none: 'contains none of'
+};
+
+export interface ISetFilter {
+  /**
+   * one of the SET_FILTER_MODES
+   */
+  mode: string;
+  elements: string[];
+  filterMissing: boolean;
 }
 
+function isEqualFilter(a: ISetFilter, b: ISetFilter) {
+  if (a === b) {
+    return true;
+  }
+  if (a === null || b === null) {
+    return false;
+  }
+  return a.mode === b.mode && a.filterMissing === b.filterMissing && a.elements.join('\t') === b.elements.join('\t');
+}
 
-export default class SetColumn extends ValueColumn<number[]> {
+/**
+ * jaccard similarity of two sets given by their membership flags
+ * @param a
+ * @param b
+ * @returns {number} 1 for equal sets and 0 for disjoint ones
+ */
+function jaccard(a: boolean[], b: boolean[]) {
+  let intersection = 0, union = 0;
+  a.forEach((v, i) => {
+    if (v && b[i]) {
+      intersection++;
+    }
+    if (v || b[i]) {
+      union++;
+    }
+  });
+  return union === 0 ? 1 : intersection / union;
+}
+
+
+export default class SetColumn extends ValueColumn<number[]|string[]> implements ICategoricalColumn {
   static readonly IN_GROUP = 1;
 
-  private readonly dataLength;
+  private readonly dataLength: number;
+  private readonly elements: string[];
+
+  private currentFilter: ISetFilter = null;
+  /**
+   * the set of the reference row to sort by similarity
+   */
+  private reference: boolean[] = null;
 
   constructor(id: string, desc: ISetColumnDesc) {
     super(id, desc);
-    this.dataLength = (desc.dataLength);
+    this.elements = (desc.elements || []).slice();
+    this.dataLength = desc.dataLength || this.elements.length;
+    //unnamed elements are named by their index
+    for (let i = this.elements.length; i < this.dataLength; ++i) {
+      this.elements.push(String(i + 1));
+    }
+  }
 
+  get categories() {
+    return this.elements.slice();
   }
 
-  compare(a: any, b: any, aIndex: number, bIndex: number) {
+  get categoryLabels() {
+    return this.elements.slice();
+  }
+
+  colorOf(cat: string) {
+    return this.color;
+  }
 
+  /**
+   * sorts by the similarity to the reference row if any, else by the number of members
+   */
+  compare(a: any, b: any, aIndex: number, bIndex: number) {
     const aVal = this.getBinaryValue(a, aIndex);
     const bVal = this.getBinaryValue(b, bIndex);
     if (aVal === null) {
@@ -34,6 +110,9 @@ export default class SetColumn extends ValueColumn<number[]> {
     if (bVal === null) {
       return -1;
     }
+    if (this.reference !== null) {
+      return jaccard(aVal, this.reference) - jaccard(bVal, this.reference);
+    }
 
     const aCat = aVal.filter((x) => x).length;
     const bCat = bVal.filter((x) => x).length;
@@ -46,11 +125,154 @@ export default class SetColumn extends ValueColumn<number[]> {
   }
 
   getBinaryValue(row: any, index: number): boolean[] {
-    return this.getValue(row, index).map((d) => d === SetColumn.IN_GROUP);
+    const v: any[] = this.getValue(row, index);
+    if (!Array.isArray(v)) {
+      return null;
+    }
+    if (v.some((d) => typeof d === 'string')) {
+      return this.elements.map((e) => v.indexOf(e) >= 0);
+    }
+    return v.map((d) => d === SetColumn.IN_GROUP);
   }
 
   getNumber(row: any, index: number) {
     return this.getValue(row, index);
   }
 
+  /**
+   * @returns {string[]} the names of the elements the row is a member of
+   */
+  getCategories(row: any, index: number) {
+    const v = this.getBinaryValue(row, index);
+    return v === null ? [] : this.elements.filter((e, i) => v[i]);
+  }
+
+  getLabel(row: any, index: number) {
+    return this.getCategories(row, index).join(', ');
+  }
+
+  /**
+   * groups by the combination of members
+   */
+  group(row: any, index: number): IGroup {
+    if (this.getBinaryValue(row, index) === null) {
+      return missingGroup;
+    }
+    const members = this.getCategories(row, index);
+    return {name: members.length > 0 ? members.join(', ') : 'None', color: this.color};
+  }
+
+  /**
+   * @returns {string[]} the members of the reference row or null if sorted by the number of members
+   */
+  getReference() {
+    return this.reference === null ? null : this.elements.filter((e, i) => this.reference[i]);
+  }
+
+  /**
+   * sorts by the jaccard similarity to the set of the given row
+   * @param row the reference row or null to sort by the number of members
+   * @param index
+   */
+  setReference(row: any, index: number) {
+    this.setReferenceMembers(row === null ? null : this.getCategories(row, index));
+  }
+
+  /**
+   * sorts by the jaccard similarity to the given set
+   * @param members the names of the members of the reference set or null to sort by the number of members
+   */
+  setReferenceMembers(members: string[]) {
+    const bak = this.getReference();
+    if (bak === members || (bak !== null && members !== null && bak.join('\t') === members.join('\t'))) {
+      return;
+    }
+    this.reference = members === null ? null : this.elements.map((e) => members.indexOf(e) >= 0);
+    this.fire([Column.EVENT_SORTMETHOD_CHANGED], bak, this.getReference());
+    // sort by me if not already sorted by me
+    if (this.findMyRanker() && this.findMyRanker().getSortCriteria().col !== this) {
+      this.sortByMe();
+    }
+  }
+
+  dump(toDescRef: (desc: any) => any): any {
+    const r = super.dump(toDescRef);
+    if (this.currentFilter) {
+      r.filter = this.getFilter();
+    }
+    if (this.reference) {
+      r.reference = this.getReference();
+    }
+    return r;
+  }
+
+  restore(dump: any, factory: (dump: any) => Column) {
+    super.restore(dump, factory);
+    if (dump.filter && SET_FILTER_MODES.hasOwnProperty(dump.filter.mode) && Array.isArray(dump.filter.elements)) {
+      this.currentFilter = {
+        mode: dump.filter.mode,
+        elements: dump.filter.elements.filter((e) => this.elements.indexOf(e) >= 0),
+        filterMissing: dump.filter.filterMissing === true
+      };
+    }
+    if (Array.isArray(dump.reference)) {
+      this.reference = this.elements.map((e) => dump.reference.indexOf(e) >= 0);
+    }
+  }
+
+  isFiltered() {
+    return this.currentFilter !== null;
+  }
+
+  filter(row: any, index: number): boolean {
+    if (!this.isFiltered()) {
+      return true;
+    }
+    if (this.getBinaryValue(row, index) === null) {
+      return !this.currentFilter.filterMissing;
+    }
+    const members = this.getCategories(row, index);
+    const elements = this.currentFilter.elements;
+    switch (this.currentFilter.mode) {
+      case 'all':
+        return elements.every((e) => members.indexOf(e) >= 0);
+      case 'none':
+        return elements.every((e) => members.indexOf(e) < 0);
+      default:
+        return elements.length === 0 || elements.some((e) => members.indexOf(e) >= 0);
+    }
+  }
+
+  getFilter(): ISetFilter {
+    return this.currentFilter;
+  }
+
+  setFilter(filter: ISetFilter) {
+    if (isEqualFilter(this.currentFilter, filter)) {
+      return;
+    }
+    this.fire([Column.EVENT_FILTER_CHANGED, Column.EVENT_DIRTY_VALUES, Column.EVENT_DIRTY], this.currentFilter, this.currentFilter = filter);
+  }
+
+  /**
+   * describe the column if it is a sorting criteria
+   * @param toId helper to convert a description to an id
+   * @return {string} json compatible
+   */
+  toSortingDesc(toId: (desc: any) => string): any {
+    if (this.reference === null) {
+      return super.toSortingDesc(toId);
+    }
+    return {
+      id: toId(this.desc),
+      reference: this.getReference()
+    };
+  }
+
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    return [Object.assign({type: 'set', id: toId(this.desc)}, this.currentFilter)];
+  }
 }
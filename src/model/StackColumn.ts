@@ -3,6 +3,7 @@
  */
 
 import CompositeNumberColumn,{ICompositeNumberDesc} from './CompositeNumberColumn';
+import {INumberColumn} from './NumberColumn';
 import {IMultiLevelColumn} from './CompositeColumn';
 import Column, {IFlatColumn} from './Column';
 
@@ -201,9 +202,20 @@ export default class StackColumn extends CompositeNumberColumn implements IMulti
     super.setWidth(value);
   }
 
+  /**
+   * weighted sum of the children, children without a value are excluded and the weights of the others are renormalized
+   */
   protected compute(row: any, index: number) {
-    const w = this.getWidth();
-    return this._children.reduce((acc, d) => acc + d.getValue(row, index) * (d.getWidth() / w), 0);
+    let acc = 0, weights = 0;
+    this._children.forEach((d) => {
+      const v = (<INumberColumn><any>d).getNumber(row, index);
+      if (isNaN(v)) {
+        return;
+      }
+      acc += v * d.getWidth();
+      weights += d.getWidth();
+    });
+    return weights === 0 ? NaN : acc / weights;
   }
 
   getRendererType() {
@@ -13,6 +13,35 @@ export interface IStringColumnDesc extends IValueColumnDesc<string> {
   readonly alignment?: string;
 }
 
+const REGEX_PREFIX = 'REGEX:';
+
+/**
+ * encodes a regular expression including its flags for sending it to a server, e.g. REGEX:/^a/i
+ * @param regex
+ * @returns {string}
+ */
+export function encodeRegExp(regex: RegExp) {
+  return `${REGEX_PREFIX}/${regex.source}/${regex.flags}`;
+}
+
+/**
+ * inverse operation of encodeRegExp, other values are returned as they are
+ * @param value
+ * @returns {any}
+ */
+export function decodeRegExp(value: any) {
+  if (typeof value !== 'string' || value.indexOf(REGEX_PREFIX) !== 0) {
+    return value;
+  }
+  const regex = value.slice(REGEX_PREFIX.length);
+  const end = regex.lastIndexOf('/');
+  if (regex[0] !== '/' || end <= 0) {
+    //just the source without flags
+    return new RegExp(regex);
+  }
+  return new RegExp(regex.slice(1, end), regex.slice(end + 1));
+}
+
 /**
  * a string column with optional alignment
  */
@@ -81,6 +110,8 @@ export default class StringColumn extends ValueColumn<string> {
       return r && r.toLowerCase().indexOf(filter.toLowerCase()) >= 0;
     }
     if (filter instanceof RegExp) {
+      //test is stateful for global and sticky expressions
+      filter.lastIndex = 0;
       return r && filter.test(r);
     }
     return true;
@@ -90,6 +121,18 @@ export default class StringColumn extends ValueColumn<string> {
     return this.currentFilter;
   }
 
+  toFilterDesc(toId: (desc: any) => string): any[] {
+    if (!this.isFiltered()) {
+      return [];
+    }
+    const filter = this.currentFilter;
+    return [{
+      type: 'string',
+      id: toId(this.desc),
+      filter: filter instanceof RegExp ? encodeRegExp(filter) : filter
+    }];
+  }
+
   setFilter(filter: string|RegExp) {
     if (filter === '') {
       filter = null;
@@ -23,21 +23,33 @@ import LinkColumn from './LinkColumn';
 import SetColumn from './SetColumn';
 import MultiValueColumn from './MultiValueColumn';
 import BoxPlotColumn from './BoxPlotColumn';
+import AggregateGroupColumn from './AggregateGroupColumn';
+import DateColumn from './DateColumn';
+import RankDeltaColumn from './RankDeltaColumn';
+import HierarchyColumn from './HierarchyColumn';
 
 
 export {default as Column, IColumnDesc} from './Column';
 export {default as CompositeColumn} from './CompositeColumn';
-export {createMappingFunction, ScaleMappingFunction, ScriptMappingFunction, isNumberColumn} from './NumberColumn';
+export {createMappingFunction, ScaleMappingFunction, ScriptMappingFunction, DataMappingFunction, isNumberColumn} from './NumberColumn';
 export {isCategoricalColumn} from './CategoricalColumn';
+export {
+  parseFilterExpression, toFilterExpressionText, suggestFilterColumns, IFilterNode, IFilterExpressionProblem
+} from './FilterExpression';
 export {default as Ranking, isSupportType} from './Ranking';
 export {createDesc as createMinDesc} from './MinColumn';
 export {createDesc as createMaxDesc} from './MaxColumn';
 export {createDesc as createMeanDesc} from './MeanColumn';
-export {createDesc as createRankDesc} from './RankColumn';
+export {createDesc as createRankDesc, TIE_MODES} from './RankColumn';
+export {createDesc as createRankDeltaDesc} from './RankDeltaColumn';
 export {createDesc as createSelectionDesc} from './SelectionColumn';
 export {createDesc as createScriptDesc} from './ScriptColumn';
 export {createDesc as createNestedDesc} from './NestedColumn';
 export {createDesc as createStackDesc} from './StackColumn';
+export {createDesc as createAggregateDesc} from './AggregateGroupColumn';
+export {createDesc as createHierarchyDesc} from './HierarchyColumn';
+export {createDesc as createFormulaDesc, checkFormula, FORMULA_TYPES} from './Formula';
+export {IGroup, IOrderedGroup, defaultGroup, GROUP_SORT_METHOD} from './Group';
 
 /**
  * defines a new column type
@@ -97,6 +109,10 @@ export function models() {
     nested: NestedColumn,
     multiValue: MultiValueColumn,
     set: SetColumn,
-    boxplot: BoxPlotColumn
+    boxplot: BoxPlotColumn,
+    aggregate: AggregateGroupColumn,
+    date: DateColumn,
+    rankdelta: RankDeltaColumn,
+    hierarchy: HierarchyColumn
   };
 }
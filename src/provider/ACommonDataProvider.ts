@@ -4,7 +4,10 @@
 
 import {IColumnDesc, createRankDesc} from '../model';
 import Ranking from '../model/Ranking';
+import RankColumn from '../model/RankColumn';
+import {IOrderedGroup} from '../model/Group';
 import ADataProvider, {IDataProviderOptions} from './ADataProvider';
+import {evaluateFormula} from '../model/Formula';
 
 
 function isComplexAccessor(column: any) {
@@ -26,6 +29,9 @@ function resolveComplex(column: string, row: any) {
 }
 
 function rowGetter(row: any, index: number, id: string, desc: any) {
+  if (typeof desc.formula === 'string') {
+    return evaluateFormula(desc.formula, row);
+  }
   const column = desc.column;
   if (isComplexAccessor(column)) {
     return resolveComplex(<string>column, row);
@@ -33,6 +39,37 @@ function rowGetter(row: any, index: number, id: string, desc: any) {
   return row[column];
 }
 
+/**
+ * whether the values of the column description are accessed using the default accessor, i.e. just using its column property
+ * @param desc
+ * @returns {boolean}
+ */
+export function hasDefaultAccessor(desc: any) {
+  return desc.accessor === rowGetter;
+}
+
+/**
+ * the precomputed ranks of a ranking
+ */
+interface IRanks {
+  /**
+   * the position of the data indices within the order
+   */
+  readonly positions: Map<number, number>;
+  /**
+   * by position whether the row has the same values as its predecessor
+   */
+  readonly ties: boolean[];
+  /**
+   * by position the rank in competition mode, e.g. 1, 2, 2, 4
+   */
+  readonly competition: number[];
+  /**
+   * by position the rank in dense mode, e.g. 1, 2, 2, 3
+   */
+  readonly dense: number[];
+}
+
 /**
  * common base implementation of a DataProvider with a fixed list of column descriptions
  */
@@ -41,9 +78,9 @@ abstract class ACommonDataProvider extends ADataProvider {
   private rankingIndex = 0;
 
   /**
-   * the local ranking orders
+   * the local ranks by ranking id
    */
-  private readonly ranks = new Map<string, number[]>();
+  private readonly ranks = new Map<string, IRanks>();
 
   constructor(private columns: IColumnDesc[] = [], options: IDataProviderOptions = {}) {
     super(options);
@@ -55,7 +92,40 @@ abstract class ACommonDataProvider extends ADataProvider {
   }
 
   protected rankAccessor(row: any, index: number, id: string, desc: IColumnDesc, ranking: Ranking) {
-    return (this.ranks[ranking.id].indexOf(index)) + 1;
+    const ranks = this.ranks.get(ranking.id);
+    if (!ranks || !ranks.positions.has(index)) {
+      return 0;
+    }
+    const position = ranks.positions.get(index);
+    const col = ranking.find(id);
+    switch (col instanceof RankColumn ? col.getTieMode() : 'ordinal') {
+      case 'competition':
+        return ranks.competition[position];
+      case 'dense':
+        return ranks.dense[position];
+      default:
+        return position + 1;
+    }
+  }
+
+  protected isTiedRank(index: number, ranking: Ranking) {
+    const ranks = this.ranks.get(ranking.id);
+    if (!ranks || !ranks.positions.has(index)) {
+      return false;
+    }
+    const position = ranks.positions.get(index);
+    return ranks.ties[position] || ranks.ties[position + 1] === true;
+  }
+
+  /**
+   * whether the rows of the given data indices have the same values within the ranking, i.e. share a rank, if the sorted groups don't provide it
+   * @param ranking
+   * @param a the data index of the preceding row
+   * @param b the data index of the row
+   * @returns {boolean}
+   */
+  protected isTie(ranking: Ranking, a: number, b: number) {
+    return false;
   }
 
   /**
@@ -72,7 +142,7 @@ abstract class ACommonDataProvider extends ADataProvider {
 
     if (existing) { //copy the ranking of the other one
       //copy the ranking
-      this.ranks[id] = this.ranks[existing.id];
+      this.ranks.set(id, this.ranks.get(existing.id));
       //TODO better cloning
       existing.children.forEach((child) => {
         this.push(clone, child.desc);
@@ -86,19 +156,41 @@ abstract class ACommonDataProvider extends ADataProvider {
 
   cleanUpRanking(ranking: Ranking) {
     //delete all stored information
-    delete this.ranks[ranking.id];
+    this.ranks.delete(ranking.id);
   }
 
-  sort(ranking: Ranking): Promise<number[]> {
+  sort(ranking: Ranking): Promise<IOrderedGroup[]> {
     //use the server side to sort
-    return this.sortImpl(ranking).then((argsort) => {
+    return this.sortImpl(ranking).then((groups) => {
       //store the result
-      this.ranks[ranking.id] = argsort;
-      return argsort;
+      this.storeRanks(ranking, groups);
+      return groups;
     });
   }
 
-  protected abstract sortImpl(ranking: Ranking): Promise<number[]>;
+  /**
+   * stores the order of the given groups for computing the ranks of the ranking
+   * @param ranking
+   * @param groups
+   */
+  protected storeRanks(ranking: Ranking, groups: IOrderedGroup[]) {
+    const positions = new Map<number, number>();
+    const ties: boolean[] = [], competition: number[] = [], dense: number[] = [];
+    groups.forEach((group) => {
+      group.order.forEach((index, i) => {
+        const position = positions.size;
+        //rows of different groups are never tied
+        const tie = i > 0 && (group.ties ? group.ties[i] : this.isTie(ranking, group.order[i - 1], index));
+        positions.set(index, position);
+        ties.push(tie);
+        competition.push(tie ? competition[position - 1] : position + 1);
+        dense.push(tie ? dense[position - 1] : (position > 0 ? dense[position - 1] + 1 : 1));
+      });
+    });
+    this.ranks.set(ranking.id, {positions, ties, competition, dense});
+  }
+
+  protected abstract sortImpl(ranking: Ranking): Promise<IOrderedGroup[]>;
 
   /**
    * adds another column description to this data provider
@@ -131,6 +223,12 @@ abstract class ACommonDataProvider extends ADataProvider {
    * @returns {string}
    */
   toDescRef(desc: any): any {
+    if (typeof desc.formula === 'string') {
+      //formula descriptions are created at runtime, so the whole description without the injected functions is needed to restore it
+      const r: any = {};
+      Object.keys(desc).filter((k) => typeof desc[k] !== 'function').forEach((k) => r[k] = desc[k]);
+      return r;
+    }
     return typeof desc.column !== 'undefined' ? desc.type + '@' + desc.column : desc;
   }
 
@@ -138,12 +236,41 @@ abstract class ACommonDataProvider extends ADataProvider {
     if (typeof(descRef) === 'string') {
       return this.columns.filter((d: any) => d.type + '@' + d.column === descRef) [0];
     }
+    if (descRef && typeof descRef.formula === 'string') {
+      //share the description among all columns of the same formula
+      return this.columns.find((d: any) => d.type === descRef.type && d.formula === descRef.formula) || descRef;
+    }
     return descRef;
   }
 
+  /**
+   * adds the formula descriptions of the dumped columns, which aren't known yet
+   * @param dump
+   */
+  private pushFormulaDescs(dump: any) {
+    const push = (column: any) => {
+      if (!column || typeof column !== 'object') {
+        return;
+      }
+      const desc = column.desc;
+      if (desc && typeof desc.formula === 'string' && this.fromDescRef(desc) === desc) {
+        this.pushDesc(Object.assign({}, desc));
+      }
+      if (Array.isArray(column.children)) {
+        column.children.forEach(push);
+      }
+    };
+    if (dump && Array.isArray(dump.rankings)) {
+      dump.rankings.filter((r) => r && Array.isArray(r.columns)).forEach((r) => r.columns.forEach(push));
+    }
+  }
+
   restore(dump: any) {
-    super.restore(dump);
-    this.rankingIndex = 1 + Math.max(...this.getRankings().map((r) => +r.id.substring(4)));
+    this.pushFormulaDescs(dump);
+    const problems = super.restore(dump);
+    //restored ids might not follow the rank<index> pattern
+    this.rankingIndex = 1 + Math.max(0, ...this.getRankings().map((r) => parseInt(r.id.substring(4), 10)).filter((d) => !isNaN(d)));
+    return problems;
   }
 
   nextRankingId() {
@@ -6,22 +6,28 @@ import {
   isSupportType,
   IColumnDesc,
   models,
-  createActionDesc,
   isNumberColumn,
-  createStackDesc,
-  createRankDesc,
-  createSelectionDesc
+  createRankDesc
 } from '../model';
 import Column from '../model/Column';
 import Ranking from '../model/Ranking';
 import {IStatistics, ICategoricalStatistics} from '../model/Column';
-import RankColumn from '../model/RankColumn';
-import StackColumn from '../model/StackColumn';
+import RankColumn, {IRankColumnDesc} from '../model/RankColumn';
+import CompositeColumn from '../model/CompositeColumn';
 import {ICategoricalColumn} from '../model/CategoricalColumn';
-import {INumberColumn} from '../model/NumberColumn';
+import NumberColumn, {INumberColumn, INumberColumnDesc, ScriptMappingFunction} from '../model/NumberColumn';
+import ScriptColumn from '../model/ScriptColumn';
+import {IScriptProblem} from '../model/ScriptExpression';
 import {merge, AEventDispatcher, delayedCall} from '../utils';
 import {IValueColumnDesc} from '../model/ValueColumn';
 import {ISelectionColumnDesc} from '../model/SelectionColumn';
+import RankDeltaColumn, {IRankDeltaColumnDesc} from '../model/RankDeltaColumn';
+import {IDateColumnDesc} from '../model/DateColumn';
+import {IFormulaDesc, formulaAccessor} from '../model/Formula';
+import {IOrderedGroup} from '../model/Group';
+import MultiValueColumn from '../model/MultiValueColumn';
+import {IBoxPlotData} from '../model/BoxPlotColumn';
+import {DUMP_VERSION, IDumpProblem, migrateDump, validateDump, validateRankingDump, validateColumnDump} from './dump';
 
 /**
  * a data row for rendering
@@ -68,11 +74,59 @@ export interface IExportOptions {
    * whether the description should be part of the column header
    */
   verboseColumnHeaders?: boolean;
+
+  /**
+   * rows to export in the order of the ranking: all rows of the dataset including the filtered out ones, just the rows passing the filters, or just the selected ones, default: 'filtered'
+   */
+  rows?: 'all' | 'filtered' | 'selected';
+  /**
+   * export the raw values instead of the formatted labels, e.g. unformatted numbers, default: false
+   */
+  raw?: boolean;
+  /**
+   * include the computed scores of composite number columns, such as StackColumn and ScriptColumn, besides their children, default: true
+   */
+  scores?: boolean;
+  /**
+   * prefix the labels of nested columns with the ones of their parents, default: false
+   */
+  hierarchicalHeaders?: boolean;
+}
+
+/**
+ * a column to export
+ */
+export interface IExportColumn {
+  readonly column: Column;
+  /**
+   * the composite columns containing this column, the outermost one first
+   */
+  readonly parents: Column[];
+  /**
+   * the header label of this column
+   */
+  readonly label: string;
+}
+
+/**
+ * the columns and values of an export, see ADataProvider.exportRows
+ */
+export interface IExportData {
+  readonly columns: IExportColumn[];
+  /**
+   * the values of the exported rows, one per column
+   */
+  readonly rows: any[][];
 }
 
 export interface IStatsBuilder {
   stats(col: INumberColumn): Promise<IStatistics>;
   hist(col: ICategoricalColumn): Promise<ICategoricalStatistics>;
+  /**
+   * aggregates the values of all rows of a multi value column
+   * @returns {Promise<IBoxPlotData>} null if there are no values
+   */
+  summary(col: MultiValueColumn): Promise<IBoxPlotData>;
 }
 
 export interface IDataProviderOptions {
@@ -101,6 +155,10 @@ abstract class ADataProvider extends AEventDispatcher {
   static readonly EVENT_ORDER_CHANGED = Ranking.EVENT_ORDER_CHANGED;
   static readonly EVENT_ADD_DESC = 'addDesc';
   static readonly EVENT_JUMP_TO_NEAREST = 'jumpToNearest';
+  static readonly EVENT_ROWS_ADDED = 'rowsAdded';
+  static readonly EVENT_ROWS_UPDATED = 'rowsUpdated';
+  static readonly EVENT_ROWS_REMOVED = 'rowsRemoved';
+  static readonly EVENT_SORT_FAILED = 'sortFailed';
 
   /**
    * all rankings
@@ -135,6 +193,7 @@ abstract class ADataProvider extends AEventDispatcher {
    *  * ranking changes: addRanking, removeRanking
    *  * dirty: dirty, dirtyHeder, dirtyValues
    *  * selectionChanged
+   *  * row changes: rowsAdded, rowsUpdated, rowsRemoved
    * @returns {string[]}
    */
   protected createEventList() {
@@ -143,7 +202,8 @@ abstract class ADataProvider extends AEventDispatcher {
       ADataProvider.EVENT_ADD_RANKING, ADataProvider.EVENT_REMOVE_RANKING,
       ADataProvider.EVENT_DIRTY, ADataProvider.EVENT_DIRTY_HEADER, ADataProvider.EVENT_DIRTY_VALUES,
       ADataProvider.EVENT_ORDER_CHANGED, ADataProvider.EVENT_SELECTION_CHANGED, ADataProvider.EVENT_ADD_DESC,
-      ADataProvider.EVENT_JUMP_TO_NEAREST]);
+      ADataProvider.EVENT_JUMP_TO_NEAREST, ADataProvider.EVENT_ROWS_ADDED, ADataProvider.EVENT_ROWS_UPDATED,
+      ADataProvider.EVENT_ROWS_REMOVED, ADataProvider.EVENT_SORT_FAILED]);
   }
 
   /**
@@ -182,12 +242,32 @@ abstract class ADataProvider extends AEventDispatcher {
     r.on(Ranking.EVENT_DIRTY_ORDER + '.provider', delayedCall(function () {
       that.triggerReorder(this.source);
     }, 100, null));
+    r.on(Ranking.EVENT_ORDER_CHANGED + '.rankDelta', (old: number[], order: number[]) => {
+      if (!old || old.length !== order.length || old.some((d, i) => d !== order[i])) {
+        this.dirtyRankDeltas(r);
+      }
+    });
     this.fire([ADataProvider.EVENT_ADD_RANKING, ADataProvider.EVENT_DIRTY_HEADER, ADataProvider.EVENT_DIRTY_VALUES, ADataProvider.EVENT_DIRTY], r, index);
     this.triggerReorder(r);
   }
 
+  /**
+   * notifies the rank delta columns comparing with the given ranking that its order changed
+   * @param reference
+   */
+  private dirtyRankDeltas(reference: Ranking) {
+    this.rankings.forEach((r) => r.flatColumns.forEach((c) => {
+      if (c instanceof RankDeltaColumn && c.isReference(reference)) {
+        c.dirtyReference();
+      }
+    }));
+  }
+
   protected triggerReorder(ranking: Ranking) {
-    this.sort(ranking).then((order) => ranking.setOrder(order));
+    this.sort(ranking)
+      .then((groups) => ranking.setGroups(groups))
+      //e.g. the server couldn't be reached, keep the current order and report the error
+      .catch((error) => this.fire(ADataProvider.EVENT_SORT_FAILED, ranking, error));
   }
 
   /**
@@ -205,7 +285,9 @@ abstract class ADataProvider extends AEventDispatcher {
       Ranking.EVENT_ORDER_CHANGED + '.provider', Ranking.EVENT_DIRTY_VALUES + '.provider');
     this.rankings.splice(i, 1);
     ranking.on(Ranking.EVENT_DIRTY_ORDER + '.provider', null);
+    ranking.on(Ranking.EVENT_ORDER_CHANGED + '.rankDelta', null);
     this.cleanUpRanking(ranking);
+    this.dirtyRankDeltas(ranking);
     this.fire([ADataProvider.EVENT_REMOVE_RANKING, ADataProvider.EVENT_DIRTY_HEADER, ADataProvider.EVENT_DIRTY_VALUES, ADataProvider.EVENT_DIRTY], ranking, i);
     return true;
   }
@@ -219,6 +301,7 @@ abstract class ADataProvider extends AEventDispatcher {
         Ranking.EVENT_DIRTY + '.provider', Ranking.EVENT_DIRTY_HEADER + '.provider',
         Ranking.EVENT_ORDER_CHANGED + '.provider', Ranking.EVENT_DIRTY_VALUES + '.provider');
       ranking.on(Ranking.EVENT_DIRTY_ORDER + '.provider', null);
+      ranking.on(Ranking.EVENT_ORDER_CHANGED + '.rankDelta', null);
       this.cleanUpRanking(ranking);
     });
     this.rankings = [];
@@ -297,13 +380,54 @@ abstract class ADataProvider extends AEventDispatcher {
 
   protected abstract rankAccessor(row: any, index: number, id: string, desc: IColumnDesc, ranking: Ranking);
 
+  /**
+   * whether the row of the given data index shares its rank with a neighbor within the given ranking
+   * @param index
+   * @param ranking
+   * @returns {boolean}
+   */
+  protected isTiedRank(index: number, ranking: Ranking) {
+    return false;
+  }
+
+  /**
+   * computes the value to impute for missing values of the given number column description
+   * @param desc the column description
+   * @param imputation the imputation strategy
+   * @returns {number} NaN if not available
+   */
+  protected imputeValue(desc: INumberColumnDesc, imputation: string) {
+    return NaN;
+  }
+
+  /**
+   * computes the timestamp range of the dates of the given date column description
+   * @param desc the column description
+   * @param value the parsed date of a row
+   * @returns {[number, number]} null if not available
+   */
+  protected dateDomain(desc: IDateColumnDesc, value: (row: any, index: number) => Date): [number, number] {
+    return null;
+  }
+
   private fixDesc(desc: IColumnDesc) {
     //hacks for provider dependent descriptors
     if (desc.type === 'rank') {
-      (<IValueColumnDesc<number>>desc).accessor = this.rankAccessor.bind(this);
+      (<IRankColumnDesc>desc).accessor = this.rankAccessor.bind(this);
+      (<IRankColumnDesc>desc).isTied = (index: number, ranking: Ranking) => this.isTiedRank(index, ranking);
     } else if (desc.type === 'selection') {
       (<ISelectionColumnDesc>desc).accessor = (row: any, index: number) => this.isSelected(index);
       (<ISelectionColumnDesc>desc).setter = (row: any, index: number, value: boolean) => value ? this.select(index) : this.deselect(index);
+    } else if (desc.type === 'number') {
+      (<INumberColumnDesc>desc).impute = (imputation: string) => this.imputeValue(<INumberColumnDesc>desc, imputation);
+    } else if (desc.type === 'date') {
+      (<IDateColumnDesc>desc).dataDomain = (value: (row: any, index: number) => Date) => this.dateDomain(<IDateColumnDesc>desc, value);
+    } else if (desc.type === 'rankdelta') {
+      (<IRankDeltaColumnDesc>desc).rankings = () => this.getRankings();
+    }
+    if (typeof (<IFormulaDesc>desc).formula === 'string' && typeof (<IValueColumnDesc<any>>desc).accessor !== 'function') {
+      //e.g. restored or additional descriptions which aren't part of the provider
+      (<IValueColumnDesc<any>>desc).accessor = formulaAccessor;
     }
   }
 
@@ -371,16 +495,56 @@ abstract class ADataProvider extends AEventDispatcher {
 
   /**
    * dumps this whole provider including selection and the rankings
-   * @returns {{uid: number, selection: number[], rankings: *[]}}
+   * @returns {{version: number, uid: number, selection: number[], rankings: *[]}}
    */
   dump(): any {
     return {
+      version: DUMP_VERSION,
       uid: this.uid,
       selection: this.getSelection(),
-      rankings: this.rankings.map((r) => r.dump(this.toDescRef))
+      rankings: this.rankings.map((r) => this.dumpRanking(r))
     };
   }
 
+  /**
+   * dumps a specific ranking, its pinned rows are referenced by their row ids if possible since the data indices change along with the data
+   */
+  dumpRanking(ranking: Ranking) {
+    const r = ranking.dump(this.toDescRef);
+    if (r.pinned) {
+      r.pinned = this.toRowIds(r.pinned) || r.pinned;
+    }
+    return r;
+  }
+
+  /**
+   * resolves the pinned rows of a ranking dump to their current data indices, data indices are taken as they are
+   */
+  private resolvePinned(dump: any) {
+    const pinned: (number|string)[] = Array.isArray(dump.pinned) ? dump.pinned : [];
+    const indices = <number[]>pinned.filter((d) => typeof d === 'number');
+    const ids = <string[]>pinned.filter((d) => typeof d === 'string');
+    return Object.assign({}, dump, {pinned: ids.length > 0 ? indices.concat(this.fromRowIds(ids)) : indices});
+  }
+
+  /**
+   * converts data indices to ids which identify the rows regardless of the data indices
+   * @param dataIndices
+   * @returns {string[]} the row ids or null if the rows can't be identified
+   */
+  protected toRowIds(dataIndices: number[]): string[] {
+    return null;
+  }
+
+  /**
+   * inverse operation of toRowIds, unknown rows are skipped
+   * @param ids
+   * @returns {number[]} the data indices of the known rows
+   */
+  protected fromRowIds(ids: string[]): number[] {
+    return [];
+  }
+
   /**
    * dumps a specific column
    */
@@ -417,7 +581,7 @@ abstract class ADataProvider extends AEventDispatcher {
 
   restoreRanking(dump: any) {
     const ranking = this.cloneRanking();
-    ranking.restore(dump, this.createHelper);
+    ranking.restore(this.resolvePinned(dump), this.createHelper);
     //if no rank column add one
     if (!ranking.children.some((d) => d instanceof RankColumn)) {
       ranking.insert(this.create(createRankDesc()), 0);
@@ -428,41 +592,172 @@ abstract class ADataProvider extends AEventDispatcher {
     return ranking;
   }
 
-  restore(dump: any) {
-
+  /**
+   * restores this provider from a dump, older versions of the dump format are migrated first.
+   * Invalid rankings and columns are skipped and reported instead of aborting the whole restore
+   * @param dump
+   * @returns {IDumpProblem[]} the problems of the dump, empty if it was restored completely
+   */
+  restore(dump: any): IDumpProblem[] {
+    dump = migrateDump(dump, this);
+    const problems = validateDump(dump);
+    //can't restore anything without the basic structure
+    if (!dump || typeof dump !== 'object' || !Array.isArray(dump.rankings)) {
+      return problems;
+    }
 
     //clean old
     this.clearRankings();
 
     //restore selection
-    this.uid = dump.uid || 0;
-    if (dump.selection) {
+    this.uid = typeof dump.uid === 'number' ? dump.uid : 0;
+    if (Array.isArray(dump.selection)) {
       dump.selection.forEach((s) => this.selection.add(s));
     }
 
-
     //restore rankings
-    if (dump.rankings) {
-      dump.rankings.forEach((r) => {
-        const ranking = this.cloneRanking();
-        ranking.restore(r, this.createHelper);
-        //if no rank column add one
-        if (!ranking.children.some((d) => d instanceof RankColumn)) {
-          ranking.insert(this.create(createRankDesc()), 0);
-        }
+    const reported = new Set<string>(problems.map((p) => p.path));
+    const report = (path: string, message: string) => {
+      if (!reported.has(path)) {
+        reported.add(path);
+        problems.push({path, message});
+      }
+    };
+    dump.rankings.forEach((r, i) => {
+      const ranking = this.restoreRankingDump(r, `rankings[${i}]`, report);
+      if (ranking) {
         this.insertRanking(ranking);
-      });
-    }
-    if (dump.layout) { //we have the old format try to create it
-      Object.keys(dump.layout).forEach((key) => {
-        this.deriveRanking(dump.layout[key]);
-      });
-    }
+      }
+    });
     //assign new ids
     const idGenerator = this.nextId.bind(this);
     this.rankings.forEach((r) => {
       r.children.forEach((c) => c.assignNewId(idGenerator));
     });
+    return problems;
+  }
+
+  /**
+   * restores a ranking of a provider dump like restoreRanking, but reports its problems instead of failing
+   * @param dump the ranking dump
+   * @param index the index of the ranking within the provider dump for locating the problems
+   * @returns {{ranking: Ranking, problems: IDumpProblem[]}} the restored ranking, null if it was skipped
+   */
+  restoreRankingWithProblems(dump: any, index: number) {
+    const problems: IDumpProblem[] = [];
+    const ranking = this.restoreRankingDump(dump, `rankings[${index}]`, (path, message) => problems.push({path, message}));
+    if (ranking) {
+      const idGenerator = this.nextId.bind(this);
+      ranking.children.forEach((c) => c.assignNewId(idGenerator));
+    }
+    return {ranking, problems};
+  }
+
+  /**
+   * restores a ranking dump, the ids of its columns are kept
+   * @param r the ranking dump
+   * @param path the path of the ranking dump
+   * @param report
+   * @returns {Ranking} the restored ranking or null if it was skipped
+   */
+  private restoreRankingDump(r: any, path: string, report: (path: string, message: string) => void) {
+    if (validateRankingDump(r, path).length > 0) {
+      report(path, 'invalid ranking skipped');
+      return null;
+    }
+    const ranking = this.cloneRanking();
+    //keep the id since other rankings might refer to it
+    if (typeof r.id === 'string' && !this.rankings.some((d) => d.id === r.id)) {
+      ranking.id = r.id;
+    }
+    try {
+      const invalid = ranking.restore(this.resolvePinned(r), this.createReportingHelper(r, path, report));
+      if (invalid.length > 0) {
+        report(`${path}.filterExpression`, `invalid filter expression dropped: ${invalid.map((p) => p.message).join(', ')}`);
+      }
+    } catch (error) {
+      report(path, `ranking skipped: ${error}`);
+      this.cleanUpRanking(ranking);
+      return null;
+    }
+    //if no rank column add one
+    if (!ranking.children.some((d) => d instanceof RankColumn)) {
+      ranking.insert(this.create(createRankDesc()), 0);
+    }
+    return ranking;
+  }
+
+  /**
+   * factory method for restoring the columns of a ranking dump, reporting the columns which couldn't be restored by their path
+   * @param ranking the ranking dump
+   * @param path the path of the ranking dump
+   * @param report
+   * @returns {(dump: any) => Column}
+   */
+  private createReportingHelper(ranking: any, path: string, report: (path: string, message: string) => void) {
+    //lookup of the path of each column dump
+    const paths = new Map<any, string>();
+    const collect = (dumps: any[], prefix: string) => {
+      dumps.forEach((d, i) => {
+        paths.set(d, `${prefix}[${i}]`);
+        if (d && Array.isArray(d.children)) {
+          collect(d.children, `${prefix}[${i}].children`);
+        }
+      });
+    };
+    collect(ranking.columns, `${path}.columns`);
+
+    const create = (d: any) => {
+      const columnPath = paths.get(d);
+      if (validateColumnDump(d, columnPath).length > 0) {
+        report(columnPath, 'invalid column skipped');
+        return null;
+      }
+      const desc = this.fromDescRef(d.desc);
+      if (!desc || !desc.type) {
+        report(columnPath, `unknown column description: ${JSON.stringify(d.desc)}`);
+        return null;
+      }
+      const type = this.columnTypes[desc.type];
+      if (!type) {
+        report(columnPath, `unknown column type: ${desc.type}`);
+        return null;
+      }
+      try {
+        this.fixDesc(desc);
+        //migrated dumps might not have an id
+        const c = new type(d.id !== undefined ? d.id : this.nextId(), desc);
+        c.restore(d, create);
+        ADataProvider.checkScripts(c, columnPath, report);
+        return c;
+      } catch (error) {
+        report(columnPath, `column skipped: ${error}`);
+        return null;
+      }
+    };
+    return create;
+  }
+
+  /**
+   * reports the scripts of the restored column which can't be compiled and thus evaluate to NaN, e.g. legacy JavaScript ones
+   * @param column
+   * @param path
+   * @param report
+   */
+  private static checkScripts(column: Column, path: string, report: (path: string, message: string) => void) {
+    const toMessage = (problems: IScriptProblem[]) => problems.map((p) => `${p.message} at ${p.position}`).join(', ');
+    if (column instanceof ScriptColumn) {
+      const problems = column.checkScript(column.getScript());
+      if (problems.length > 0) {
+        report(`${path}.script`, `invalid script evaluates to NaN: ${toMessage(problems)}`);
+      }
+    }
+    if (column instanceof NumberColumn) {
+      const mapping = column.getMapping();
+      if (mapping instanceof ScriptMappingFunction && mapping.problems.length > 0) {
+        report(`${path}.map`, `invalid mapping script evaluates to NaN: ${toMessage(mapping.problems)}`);
+      }
+    }
   }
 
   abstract findDesc(ref: string);
@@ -484,64 +779,18 @@ abstract class ADataProvider extends AEventDispatcher {
   }
 
   /**
-   * derives a ranking from an old layout bundle format
-   * @param bundle
+   * sorts the given ranking and eventually return the groups each with an ordering of its data items
+   * @param ranking
+   * @return {Promise<IOrderedGroup[]>}
    */
-  private deriveRanking(bundle: any[]) {
-    const ranking = this.cloneRanking();
-    ranking.clear();
-    const toCol = (column) => {
-      switch (column.type) {
-        case 'rank':
-          return this.create(createRankDesc());
-        case 'selection':
-          return this.create(createSelectionDesc());
-        case 'actions':
-          const actions = this.create(createActionDesc(column.label || 'actions'));
-          actions.restore(column, null);
-          return actions;
-        case 'stacked':
-          //create a stacked one
-          const stacked = <StackColumn>this.create(createStackDesc(column.label || 'Combined'));
-          (column.children || []).forEach((col) => {
-            const c = toCol(col);
-            if (c) {
-              stacked.push(c);
-            }
-          });
-          return stacked;
-        default: {
-          const desc = this.findDesc(column.column);
-          if (desc) {
-            const r = this.create(desc);
-            column.label = column.label || desc.label || desc.column;
-            r.restore(column, null);
-            return r;
-          }
-          return null;
-        }
-      }
-    };
-    bundle.forEach((column) => {
-      const col = toCol(column);
-      if (col) {
-        ranking.push(col);
-      }
-    });
-    //if no rank column add one
-    if (!ranking.children.some((d) => d instanceof RankColumn)) {
-      ranking.insert(this.create(createRankDesc()), 0);
-    }
-    this.insertRanking(ranking);
-    return ranking;
-  }
+  abstract sort(ranking: Ranking): Promise<IOrderedGroup[]>;
 
   /**
-   * sorts the given ranking and eventually return a ordering of the data items
+   * sorts all rows of the dataset according to the given ranking ignoring any filter
    * @param ranking
-   * @return {Promise<any>}
+   * @returns {Promise<number[]>} the data indices of all rows
    */
-  abstract sort(ranking: Ranking): Promise<number[]>;
+  protected abstract sortUnfiltered(ranking: Ranking): Promise<number[]>;
 
   /**
    * returns a view in the order of the given indices
@@ -550,8 +799,25 @@ abstract class ADataProvider extends AEventDispatcher {
    */
   abstract view(indices: number[]): Promise<any[]>;
 
+  /**
+   * returns a view of all rows regardless of the filters of the given ranking, e.g. for deriving the domain of a new column
+   * @param ranking
+   * @returns {Promise<any[]>}
+   */
+  viewUnfiltered(ranking: Ranking): Promise<any[]> {
+    return this.sortUnfiltered(ranking).then((order) => this.view(order));
+  }
+
   abstract fetch(orders: number[][]): Promise<IDataRow>[][];
 
+  /**
+   * hint that the rows of the given orders will likely be fetched soon, e.g. the ones just above and below the visible ones
+   * @param orders
+   */
+  prefetch(orders: number[][]) {
+    //dummy
+  }
+
   /**
    * returns a data sample used for the mapping editor
    * @param col
@@ -670,6 +936,25 @@ abstract class ADataProvider extends AEventDispatcher {
     this.fire(ADataProvider.EVENT_SELECTION_CHANGED, this.getSelection());
   }
 
+  /**
+   * remaps the selection after the data indices changed, e.g., due to removed rows
+   * @param mapping maps the old data index to the new one, negative if the row doesn't exist anymore
+   */
+  protected remapSelection(mapping: (index: number) => number) {
+    if (this.selection.size === 0) {
+      return;
+    }
+    const old = this.selection;
+    this.selection = new Set<number>();
+    old.forEach((index) => {
+      const next = mapping(index);
+      if (next >= 0) {
+        this.selection.add(next);
+      }
+    });
+    this.fire(ADataProvider.EVENT_SELECTION_CHANGED, this.getSelection());
+  }
+
   /**
    * returns a promise containing the selected rows
    * @return {Promise<any[]>}
@@ -703,6 +988,57 @@ abstract class ADataProvider extends AEventDispatcher {
     this.fire(ADataProvider.EVENT_SELECTION_CHANGED, [], false);
   }
 
+  /**
+   * collects the columns and values of the rows to export of the given ranking, the base of the different export formats
+   * @param ranking
+   * @param options
+   * @returns {Promise<IExportData>}
+   */
+  exportRows(ranking: Ranking, options: IExportOptions = {}): Promise<IExportData> {
+    options = merge({
+      filter: (c) => !isSupportType(c),
+      rows: 'filtered',
+      raw: false,
+      scores: true,
+      hierarchicalHeaders: false
+    }, options);
+
+    const columns: IExportColumn[] = [];
+    const toLabel = (col: Column, parents: Column[]) => options.hierarchicalHeaders ? parents.concat([col]).map((c) => c.label).join(' > ') : col.label;
+    const collect = (col: Column, parents: Column[]) => {
+      if (!options.filter(col.desc)) {
+        return;
+      }
+      if (!(col instanceof CompositeColumn)) {
+        columns.push({column: col, parents, label: toLabel(col, parents)});
+        return;
+      }
+      if (options.scores && isNumberColumn(col)) {
+        columns.push({column: col, parents, label: toLabel(col, parents)});
+      }
+      col.children.forEach((child) => collect(child, parents.concat([col])));
+    };
+    ranking.children.forEach((col) => collect(col, []));
+
+    const value = (col: Column, row: any, index: number) => {
+      if (!options.raw) {
+        return col.getLabel(row, index);
+      }
+      return isNumberColumn(col) ? (<INumberColumn><any>col).getRawNumber(row, index) : col.getValue(row, index);
+    };
+    //the selected rows might be filtered out, too
+    const order = options.rows === 'filtered' ? Promise.resolve(ranking.getOrder()) : this.sortUnfiltered(ranking);
+    return order.then((order) => {
+      if (options.rows === 'selected') {
+        order = order.filter((i) => this.isSelected(i));
+      }
+      return this.view(order).then((data) => ({
+        columns,
+        rows: data.map((row, i) => columns.map((c) => value(c.column, row, order[i])))
+      }));
+    });
+  }
+
   /**
    * utility to export a ranking to a table with the given separator
    * @param ranking
@@ -716,7 +1052,6 @@ abstract class ADataProvider extends AEventDispatcher {
       header: true,
       quote: false,
       quoteChar: '"',
-      filter: (c) => !isSupportType(c),
       verboseColumnHeaders: false
     }, options);
     //optionally quote not numbers
@@ -729,15 +1064,13 @@ abstract class ADataProvider extends AEventDispatcher {
       return l;
     }
 
-    const columns = ranking.flatColumns.filter((c) => options.filter(c.desc));
-    const order = ranking.getOrder();
-    return this.view(order).then((data) => {
+    return this.exportRows(ranking, options).then(({columns, rows}) => {
       const r = [];
       if (options.header) {
-        r.push(columns.map((d) => quote(`${d.label}${options.verboseColumnHeaders && d.description ? '\n' + d.description : ''}`)).join(options.separator));
+        r.push(columns.map(({column, label}) => quote(`${label}${options.verboseColumnHeaders && column.description ? '\n' + column.description : ''}`)).join(options.separator));
       }
-      data.forEach((row, i) => {
-        r.push(columns.map((c) => quote(c.getLabel(row, order[i]), c)).join(options.separator));
+      rows.forEach((row) => {
+        r.push(row.map((v, i) => quote(v == null ? '' : (v instanceof Date ? v.toISOString() : String(v)), columns[i].column)).join(options.separator));
       });
       return r.join(options.newline);
     });
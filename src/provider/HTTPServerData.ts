@@ -0,0 +1,100 @@
+import * as d3 from 'd3';
+import Column from '../model/Column';
+import CompositeColumn from '../model/CompositeColumn';
+import NumberColumn, {INumberColumn} from '../model/NumberColumn';
+import {ICategoricalColumn} from '../model/CategoricalColumn';
+import MultiValueColumn from '../model/MultiValueColumn';
+import {encodeRegExp} from '../model/StringColumn';
+import {IRankingQueryDesc} from '../model/Ranking';
+import {IStatsBuilder} from './ADataProvider';
+import {IServerData, IServerSortResult} from './RemoteDataProvider';
+
+/**
+ * the column descriptions are identified by their column attribute, same as in the RemoteDataProvider
+ * @param desc
+ */
+function toId(desc: any) {
+  return desc.column;
+}
+
+/**
+ * collects the mapping functions of all number columns within the given column
+ * @param col
+ * @returns {{id: any, map: any}[]}
+ */
+function toMappings(col: Column): {id: any, map: any}[] {
+  if (col instanceof NumberColumn) {
+    return [{id: toId(col.desc), map: col.getMapping().dump()}];
+  }
+  if (col instanceof CompositeColumn) {
+    return [].concat(...col.children.map(toMappings));
+  }
+  return [];
+}
+
+/**
+ * an IServerData implementation using a REST/JSON protocol, all requests are POST requests with a JSON body to <baseUrl>/<endpoint>:
+ *
+ *  * `sort`: body: IRankingQueryDesc, response: IServerSortResult or the sorted data indices
+ *  * `view`: body: `{indices: number[]}`, response: the rows of the given data indices in the same order
+ *  * `mappingSample`: body: `{column: string}`, response: sample values of the given column
+ *  * `search`: body: `{search: string, column: string}`, a regular expression is encoded as `REGEX:/<source>/<flags>`, response: the matching data indices
+ *  * `stats`: body: `{type: 'number'|'categorical'|'summary', indices: number[], column: any, mappings: {id, map}[]}`, where column is the sorting description of the column, response: IStatistics, ICategoricalStatistics, or IBoxPlotData
+ *
+ * a reference implementation of the server side is available in LocalServerData
+ */
+export default class HTTPServerData implements IServerData {
+  /**
+   * @param baseUrl the url prefix of the endpoints, e.g. /api
+   */
+  constructor(private readonly baseUrl: string) {
+
+  }
+
+  private post<T>(endpoint: string, body: any): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      d3.json(`${this.baseUrl}/${endpoint}`)
+        .header('Content-Type', 'application/json')
+        .post(JSON.stringify(body), (error, data) => {
+          if (error) {
+            reject(error);
+          } else {
+            resolve(<T>data);
+          }
+        });
+    });
+  }
+
+  sort(desc: IRankingQueryDesc) {
+    return this.post<number[]|IServerSortResult>('sort', desc);
+  }
+
+  view(indices: number[]) {
+    return this.post<any[]>('view', {indices});
+  }
+
+  mappingSample(column: any) {
+    return this.post<number[]>('mappingSample', {column});
+  }
+
+  search(search: string|RegExp, column: any) {
+    return this.post<number[]>('search', {
+      search: search instanceof RegExp ? encodeRegExp(search) : search,
+      column
+    });
+  }
+
+  stats(indices: number[]): IStatsBuilder {
+    const request = (type: string, col: Column) => this.post<any>('stats', {
+      type,
+      indices,
+      column: col.toSortingDesc(toId),
+      mappings: toMappings(col)
+    });
+    return {
+      stats: (col: INumberColumn) => request('number', <Column><any>col),
+      hist: (col: ICategoricalColumn) => request('categorical', <Column><any>col),
+      summary: (col: MultiValueColumn) => request('summary', col)
+    };
+  }
+}
@@ -0,0 +1,410 @@
+import ADataProvider from './ADataProvider';
+import {IDumpProblem} from './dump';
+import {AEventDispatcher} from '../utils';
+
+export interface IHistoryOptions {
+  /**
+   * time in ms in which consecutive changes are merged into a single entry, e.g. while dragging the width of a column
+   * @default 300
+   */
+  coalesce?: number;
+  /**
+   * maximal number of entries that can be undone
+   * @default 100
+   */
+  capacity?: number;
+}
+
+export interface IHistoryEntry {
+  /**
+   * human readable description of the change, e.g. Filter Age
+   */
+  readonly label: string;
+  /**
+   * time when the change was recorded
+   */
+  readonly timestamp: number;
+}
+
+interface IHistoryState extends IHistoryEntry {
+  /**
+   * provider dump without the selection
+   */
+  dump: any;
+  /**
+   * serialized dump for detecting changes
+   */
+  key: string;
+}
+
+/**
+ * resolves the description reference of a column dump, see ADataProvider.fromDescRef
+ */
+declare type DescResolver = (descRef: any) => any;
+
+function labelOf(column: any, fromDescRef: DescResolver) {
+  if (column.label) {
+    return column.label;
+  }
+  const desc = fromDescRef(column.desc);
+  return desc && desc.label ? desc.label : column.id;
+}
+
+function isEqual(a: any, b: any) {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * verbs describing the change of a property of a column dump
+ */
+const CHANGE_VERBS = {
+  label: 'Rename',
+  width: 'Resize',
+  filter: 'Filter',
+  map: 'Change Mapping of',
+  compressed: 'Compress',
+  rendererType: 'Change Visualization of',
+  color: 'Change Color of'
+};
+
+/**
+ * describes the change between two dumps of the same column
+ * @returns {string} the description or null if there is no change
+ */
+function describeColumnChange(prev: any, next: any, fromDescRef: DescResolver): string {
+  const keys = Object.keys(next).concat(Object.keys(prev).filter((k) => !next.hasOwnProperty(k)));
+  const changed = keys.filter((k) => !isEqual(prev[k], next[k]));
+  if (changed.length === 0) {
+    return null;
+  }
+  if (changed.length === 1 && changed[0] === 'children' && prev.children.length === next.children.length) {
+    //just the widths of the children changed, i.e. their weights within the combined column
+    const onlyWidths = prev.children.every((c, i) => {
+      const n = next.children[i];
+      return c.id === n.id && isEqual(Object.assign({}, c, {width: n.width}), n);
+    });
+    if (onlyWidths) {
+      return `Change Weights of ${labelOf(next, fromDescRef)}`;
+    }
+    return describeColumnsChange(prev.children, next.children, fromDescRef);
+  }
+  const verb = CHANGE_VERBS[changed.find((k) => CHANGE_VERBS.hasOwnProperty(k))];
+  return `${verb || 'Change'} ${labelOf(next, fromDescRef)}`;
+}
+
+/**
+ * describes the change between two lists of column dumps
+ * @returns {string} the description or null if there is no change
+ */
+function describeColumnsChange(prev: any[], next: any[], fromDescRef: DescResolver): string {
+  const prevIds = prev.map((c) => c.id);
+  const nextIds = next.map((c) => c.id);
+  if (prevIds.length < nextIds.length) {
+    return `Add ${labelOf(next.find((c) => prevIds.indexOf(c.id) < 0) || next[next.length - 1], fromDescRef)}`;
+  }
+  if (prevIds.length > nextIds.length) {
+    return `Remove ${labelOf(prev.find((c) => nextIds.indexOf(c.id) < 0) || prev[prev.length - 1], fromDescRef)}`;
+  }
+  const moved = next.findIndex((c, i) => c.id !== prevIds[i]);
+  if (moved >= 0) {
+    return `Move ${labelOf(next[moved], fromDescRef)}`;
+  }
+  for (let i = 0; i < next.length; ++i) {
+    const label = describeColumnChange(prev[i], next[i], fromDescRef);
+    if (label !== null) {
+      return label;
+    }
+  }
+  return null;
+}
+
+/**
+ * describes the change between two dumps of the same ranking
+ * @returns {string} the description or null if there is no change
+ */
+function describeRankingChange(prev: any, next: any, fromDescRef: DescResolver): string {
+  const label = describeColumnsChange(prev.columns, next.columns, fromDescRef);
+  if (label !== null) {
+    return label;
+  }
+  if (!isEqual(prev.sortCriterias, next.sortCriterias)) {
+    return 'Sort';
+  }
+  if (prev.groupCriteria !== next.groupCriteria || prev.groupSortMethod !== next.groupSortMethod) {
+    return 'Group';
+  }
+  if (!isEqual(prev.aggregated, next.aggregated)) {
+    return 'Aggregate Groups';
+  }
+  if (prev.filterExpression !== next.filterExpression) {
+    return 'Filter Expression';
+  }
+  if (!isEqual(prev.pinned, next.pinned) || prev.filterPinned !== next.filterPinned) {
+    return 'Pin Rows';
+  }
+  return null;
+}
+
+/**
+ * describes the change between two provider dumps
+ * @returns {string}
+ */
+function describeChange(prev: any, next: any, fromDescRef: DescResolver): string {
+  if (prev.rankings.length < next.rankings.length) {
+    return 'Add Ranking';
+  }
+  if (prev.rankings.length > next.rankings.length) {
+    return 'Remove Ranking';
+  }
+  for (let i = 0; i < next.rankings.length; ++i) {
+    const label = describeRankingChange(prev.rankings[i], next.rankings[i], fromDescRef);
+    if (label !== null) {
+      return label;
+    }
+  }
+  return 'Change';
+}
+
+/**
+ * undo/redo history of the rankings of a data provider.
+ * Every change signaled by the provider is recorded as snapshot of its dump, changes following each other within the coalesce time are merged
+ */
+export default class History extends AEventDispatcher {
+  /**
+   * triggered when an entry was added or the current entry changed
+   * @argument entries:IHistoryEntry[] all entries, the first one is the initial state
+   * @argument current:number the index of the current entry
+   */
+  static readonly EVENT_HISTORY_CHANGED = 'historyChanged';
+  /**
+   * triggered when the state of an entry couldn't be restored completely, e.g. since a column description is gone
+   * @argument problems:IDumpProblem[] the problems of the restored dump
+   */
+  static readonly EVENT_RESTORE_PROBLEMS = 'restoreProblems';
+
+  private readonly options: IHistoryOptions = {
+    coalesce: 300,
+    capacity: 100
+  };
+
+  private states: IHistoryState[] = [];
+  private current = 0;
+  /**
+   * timer of the pending change
+   */
+  private pending = -1;
+  /**
+   * whether a state is currently restored, i.e. changes are not recorded
+   */
+  private applying = false;
+
+  constructor(private data: ADataProvider, options: IHistoryOptions = {}) {
+    super();
+    Object.assign(this.options, options);
+    this.attach();
+    this.clear();
+  }
+
+  protected createEventList() {
+    return super.createEventList().concat([History.EVENT_HISTORY_CHANGED, History.EVENT_RESTORE_PROBLEMS]);
+  }
+
+  private attach() {
+    this.data.on(ADataProvider.EVENT_DIRTY + '.history', this.changed.bind(this));
+  }
+
+  private detach() {
+    this.data.on(ADataProvider.EVENT_DIRTY + '.history', null);
+    this.cancelPending();
+  }
+
+  /**
+   * changes the data provider whose history is recorded, the history starts from scratch
+   * @param data
+   */
+  changeDataStorage(data: ADataProvider) {
+    this.detach();
+    this.data = data;
+    this.attach();
+    this.clear();
+  }
+
+  private cancelPending() {
+    if (this.pending >= 0) {
+      clearTimeout(this.pending);
+      this.pending = -1;
+    }
+  }
+
+  private changed() {
+    if (this.applying) {
+      return;
+    }
+    this.cancelPending();
+    this.pending = setTimeout(() => {
+      this.pending = -1;
+      this.commit();
+    }, this.options.coalesce);
+  }
+
+  private snapshot(): {dump: any, key: string} {
+    const dump = this.data.dump();
+    //the selection isn't part of the history
+    delete dump.selection;
+    //ids are reassigned on restore
+    delete dump.uid;
+    return {dump, key: JSON.stringify(dump)};
+  }
+
+  private fireChanged() {
+    this.fire(History.EVENT_HISTORY_CHANGED, this.getEntries(), this.current);
+  }
+
+  /**
+   * records a pending change immediately instead of waiting for the coalesce time
+   */
+  commit() {
+    this.cancelPending();
+    const {dump, key} = this.snapshot();
+    const current = this.states[this.current];
+    if (current.key === key) {
+      return;
+    }
+    //a new change discards the undone entries
+    this.states.splice(this.current + 1, this.states.length, {
+      label: describeChange(current.dump, dump, (descRef) => this.data.fromDescRef(descRef)),
+      timestamp: Date.now(),
+      dump,
+      key
+    });
+    if (this.states.length > this.options.capacity + 1) {
+      this.states.splice(0, this.states.length - this.options.capacity - 1);
+    }
+    this.current = this.states.length - 1;
+    this.fireChanged();
+  }
+
+  /**
+   * removes all entries, the current state becomes the initial one
+   */
+  clear() {
+    this.cancelPending();
+    const {dump, key} = this.snapshot();
+    this.states = [{label: 'Initial', timestamp: Date.now(), dump, key}];
+    this.current = 0;
+    this.fireChanged();
+  }
+
+  /**
+   * @returns {IHistoryEntry[]} the entries of this history, the first one is the initial state
+   */
+  getEntries(): IHistoryEntry[] {
+    return this.states.map(({label, timestamp}) => ({label, timestamp}));
+  }
+
+  /**
+   * @returns {number} the index of the current entry
+   */
+  getCurrent() {
+    return this.current;
+  }
+
+  canUndo() {
+    return this.current > 0 || this.pending >= 0;
+  }
+
+  canRedo() {
+    return this.current < this.states.length - 1 && this.pending < 0;
+  }
+
+  /**
+   * reverts the last change
+   * @returns {boolean} whether there was something to undo
+   */
+  undo() {
+    this.commit();
+    return this.restoreState(this.current - 1);
+  }
+
+  /**
+   * reapplies the last undone change
+   * @returns {boolean} whether there was something to redo
+   */
+  redo() {
+    this.commit();
+    return this.restoreState(this.current + 1);
+  }
+
+  /**
+   * restores the state of the given entry
+   * @param index the index of the entry, see getEntries
+   * @returns {boolean} whether the state was restored
+   */
+  jumpTo(index: number) {
+    this.commit();
+    return this.restoreState(index);
+  }
+
+  private restoreState(index: number) {
+    if (index < 0 || index >= this.states.length || index === this.current) {
+      return false;
+    }
+    const state = this.states[index];
+    let problems: IDumpProblem[];
+    this.applying = true;
+    try {
+      problems = this.apply(state.dump);
+    } finally {
+      this.applying = false;
+    }
+    //the restored columns got new ids, so refresh the snapshot for detecting further changes
+    const {dump, key} = this.snapshot();
+    state.dump = dump;
+    state.key = key;
+    this.current = index;
+    this.fireChanged();
+    if (problems.length > 0) {
+      this.fire(History.EVENT_RESTORE_PROBLEMS, problems);
+    }
+    return true;
+  }
+
+  /**
+   * applies the given dump to the data provider, if it has the same rankings just the changed ones are replaced
+   * @param dump
+   * @returns {IDumpProblem[]} the problems while restoring
+   */
+  private apply(dump: any): IDumpProblem[] {
+    const rankings = this.data.getRankings();
+    const current = rankings.map((r) => this.data.dumpRanking(r));
+    const same = current.length === dump.rankings.length && current.every((r, i) => r.id === dump.rankings[i].id);
+    if (!same) {
+      //keep the selection and the id generator of the current state
+      const {uid, selection} = this.data.dump();
+      return this.data.restore(Object.assign({}, dump, {uid, selection}));
+    }
+    const problems: IDumpProblem[] = [];
+    dump.rankings.forEach((r, i) => {
+      if (isEqual(r, current[i])) {
+        return;
+      }
+      const restored = this.data.restoreRankingWithProblems(r, i);
+      problems.push(...restored.problems);
+      if (!restored.ranking) {
+        //keep the current ranking instead of leaving a gap
+        return;
+      }
+      this.data.removeRanking(rankings[i]);
+      restored.ranking.id = r.id;
+      this.data.insertRanking(restored.ranking, i);
+    });
+    return problems;
+  }
+
+  /**
+   * stops recording changes of the data provider
+   */
+  destroy() {
+    this.detach();
+  }
+}
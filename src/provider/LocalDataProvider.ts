@@ -3,13 +3,19 @@
  */
 
 import Column, {IStatistics, ICategoricalStatistics, IColumnDesc} from '../model/Column';
-import NumberColumn, {INumberColumn} from '../model/NumberColumn';
-import Ranking from '../model/Ranking';
+import NumberColumn, {INumberColumn, INumberColumnDesc, computeImputation} from '../model/NumberColumn';
+import Ranking, {isSupportType} from '../model/Ranking';
+import {IGroup, IOrderedGroup, IGroupData, GROUP_SORT_METHOD} from '../model/Group';
 import {ICategoricalColumn} from '../model/CategoricalColumn';
+import CompositeColumn from '../model/CompositeColumn';
+import AnnotateColumn from '../model/AnnotateColumn';
+import {IDateColumnDesc} from '../model/DateColumn';
+import MultiValueColumn from '../model/MultiValueColumn';
 import {merge} from '../utils';
 import * as d3 from 'd3';
-import {IStatsBuilder, IDataProviderOptions, IDataRow} from './ADataProvider';
-import ACommonDataProvider from './ACommonDataProvider';
+import ADataProvider, {IStatsBuilder, IDataProviderOptions, IDataRow} from './ADataProvider';
+import ACommonDataProvider, {hasDefaultAccessor} from './ACommonDataProvider';
+import WorkerClient from './WorkerClient';
 
 /**
  * computes the simple statistics of an array using d3 histogram
@@ -17,15 +23,17 @@ import ACommonDataProvider from './ACommonDataProvider';
  * @param indices array data indices
  * @param acc accessor function
  * @param range the total value range
- * @returns {{min: number, max: number, count: number, hist: histogram.Bin<number>[]}}
+ * @param isMissing optional function whether the value of a row is missing
+ * @returns {{min: number, max: number, count: number, missing: number, hist: histogram.Bin<number>[]}}
  */
-function computeStats(arr: any[], indices: number[], acc: (row: any, index: number) => number, range?: [number, number]): IStatistics {
+function computeStats(arr: any[], indices: number[], acc: (row: any, index: number) => number, range?: [number, number], isMissing?: (row: any, index: number) => boolean): IStatistics {
   if (arr.length === 0) {
     return {
       min: NaN,
       max: NaN,
       mean: NaN,
       count: 0,
+      missing: 0,
       maxBin: 0,
       hist: []
     };
@@ -42,6 +50,7 @@ function computeStats(arr: any[], indices: number[], acc: (row: any, index: numb
     max: ex[1],
     mean: d3.mean(arr, indexAccessor),
     count: arr.length,
+    missing: isMissing ? arr.filter((a, i) => isMissing(a, indices[i])).length : 0,
     maxBin: d3.max(histData, (d) => d.y),
     hist: histData
   };
@@ -76,6 +85,85 @@ function computeHist(arr: number[], indices: number[], acc: (row: any, index: nu
   };
 }
 
+/**
+ * filters, groups, and sorts the given data according to the given ranking
+ * @param data the data array
+ * @param ranking the ranking defining the sorting and grouping
+ * @param filters the rankings whose filters should be applied
+ * @returns {IOrderedGroup[]}
+ */
+export function sortGroups(data: any[], ranking: Ranking, filters: Ranking[]): IOrderedGroup[] {
+  //wrap in a helper and store the initial index
+  let helper = data.map((r, i) => ({row: r, i}));
+
+  //do the optional filtering step
+  if (filters.length > 0) {
+    helper = helper.filter((d) => filters.every((f) => f.filter(d.row, d.i)));
+  }
+
+  //split into groups
+  const groups = new Map<string, {group: IGroup, rows: {row: any, i: number}[]}>();
+  helper.forEach((r) => {
+    const group = ranking.grouper(r.row, r.i);
+    if (groups.has(group.name)) {
+      groups.get(group.name).rows.push(r);
+    } else {
+      groups.set(group.name, {group, rows: [r]});
+    }
+  });
+
+  const sorted: IGroupData[] = [];
+  groups.forEach(({group, rows}) => {
+    //sort by the ranking column
+    rows.sort((a, b) => ranking.comparator(a.row, b.row, a.i, b.i));
+    //store the ranking index and create an argsort version, i.e. rank 0 -> index i
+    sorted.push(Object.assign({order: rows.map((r) => r.i), rows: rows.map((r) => r.row)}, group));
+  });
+  //sort the groups among each other
+  if (sorted.length > 1) {
+    sorted.sort(ranking.toGroupComparator(sorted));
+  }
+  //rows are tied if they are equal according to all sort criteria
+  const hasCriterias = ranking.getSortCriterias().length > 0;
+  return sorted.map((g) => ({
+    name: g.name,
+    color: g.color,
+    order: g.order,
+    ties: g.order.map((index, i) => hasCriterias && i > 0 && ranking.comparator(g.rows[i - 1], g.rows[i], g.order[i - 1], index) === 0)
+  }));
+}
+
+/**
+ * whether the column can be restored within a web worker, i.e. doesn't depend on custom accessors or the state of the provider
+ * @param col
+ * @returns {boolean}
+ */
+function isWorkerAbleColumn(col: Column): boolean {
+  const desc: any = col.desc;
+  if (desc.type === 'rank' || desc.type === 'rankdelta' || desc.type === 'selection' || (typeof desc.accessor === 'function' && !hasDefaultAccessor(desc))) {
+    return false;
+  }
+  return !(col instanceof CompositeColumn) || col.children.every(isWorkerAbleColumn);
+}
+
+/**
+ * whether the ranking can be sorted within a web worker, i.e. all columns affecting its order can be restored there
+ * @param ranking
+ * @returns {boolean}
+ */
+function isWorkerAble(ranking: Ranking) {
+  const cols = ranking.getSortCriterias().map((s) => s.col).filter((c) => c != null);
+  if (ranking.getGroupCriteria()) {
+    cols.push(ranking.getGroupCriteria());
+  }
+  cols.push(...ranking.children.filter((c) => c.isFiltered()));
+  if (ranking.getFilterExpression() !== '') {
+    //the filter expression may reference any column
+    cols.push(...ranking.children.filter((c) => !isSupportType(c.desc)));
+  }
+  return cols.every(isWorkerAbleColumn);
+}
+
 export interface ILocalDataProviderOptions {
   /**
    * whether the filter should be applied to all rankings regardless where they are
@@ -92,6 +180,18 @@ export interface ILocalDataProviderOptions {
    * the maximum number of nested sorting criteria
    */
   maxNestedSortingCriteria?: number;
+
+  /**
+   * url of the LineUpJS_worker bundle, if set sorting, filtering, and statistics are computed within a web worker
+   * default: null, i.e. within the main thread
+   */
+  workerUrl?: string;
+
+  /**
+   * accessor of a stable id of a row, required for updating and removing individual rows
+   * default: null
+   */
+  rowId?: (row: any) => string;
 }
 /**
  * a data provider based on an local array
@@ -103,11 +203,35 @@ export default class LocalDataProvider extends ACommonDataProvider {
      */
     filterGlobally: false,
 
-    maxNestedSortingCriteria: 1
+    maxNestedSortingCriteria: 1,
+
+    workerUrl: null,
+
+    rowId: null
   };
 
   private readonly reorderAll;
 
+  /**
+   * the worker client in case the workerUrl option is set
+   */
+  private worker: WorkerClient = null;
+
+  /**
+   * lazy lookup of a row id to its data index
+   */
+  private rowLookup: Map<string, number> = null;
+
+  /**
+   * cache of the imputed values by column description and strategy, reset whenever the data changes
+   */
+  private readonly imputations = new Map<INumberColumnDesc, Map<string, number>>();
+
+  /**
+   * cache of the date ranges by column description, reset whenever the data changes
+   */
+  private readonly dateDomains = new Map<IDateColumnDesc, [number, number]>();
+
   constructor(private _data: any[], columns: IColumnDesc[] = [], options: ILocalDataProviderOptions & IDataProviderOptions = {}) {
     super(columns, options);
     merge(this.options, options);
@@ -123,12 +247,60 @@ export default class LocalDataProvider extends ACommonDataProvider {
         }
       });
     };
+
+    if (this.options.workerUrl && WorkerClient.isSupported()) {
+      this.worker = new WorkerClient(this.options.workerUrl);
+      this.initWorker();
+    }
+  }
+
+  /**
+   * transfers the data to the worker, in case it can't be transferred the worker is terminated and the main thread is used instead
+   */
+  private initWorker() {
+    if (!this.worker) {
+      return;
+    }
+    try {
+      this.worker.init(this._data, this.getColumns());
+    } catch (error) {
+      //e.g. the data contains functions which can't be cloned
+      this.worker.terminate();
+      this.worker = null;
+    }
+  }
+
+  pushDesc(column: IColumnDesc) {
+    super.pushDesc(column);
+    if (this.worker) {
+      this.worker.updateColumns(this.getColumns());
+    }
   }
 
   protected getMaxNestedSortingCriteria() {
     return this.options.maxNestedSortingCriteria;
   }
 
+  protected imputeValue(desc: INumberColumnDesc, imputation: string) {
+    if (!this.imputations.has(desc)) {
+      this.imputations.set(desc, new Map<string, number>());
+    }
+    const cache = this.imputations.get(desc);
+    if (!cache.has(imputation)) {
+      const values = this._data.map((row, i) => desc.accessor(row, i, null, desc, null));
+      cache.set(imputation, computeImputation(values, imputation));
+    }
+    return cache.get(imputation);
+  }
+
+  protected dateDomain(desc: IDateColumnDesc, value: (row: any, index: number) => Date) {
+    if (!this.dateDomains.has(desc)) {
+      const times = this._data.map((row, i) => value(row, i)).filter((d) => d !== null).map((d) => d.getTime());
+      this.dateDomains.set(desc, times.length > 0 ? <[number, number]>d3.extent(times) : null);
+    }
+    return this.dateDomains.get(desc);
+  }
+
   get data() {
     return this._data;
   }
@@ -138,7 +310,14 @@ export default class LocalDataProvider extends ACommonDataProvider {
    * @param data
    */
   setData(data: any[]) {
+    //the pinned data indices refer to the old rows, so keep just the rows which can be identified within the new ones
+    const pinned = this.getRankings().map((ranking) => this.toRowIds(ranking.getPinned()));
     this._data = data;
+    this.rowLookup = null;
+    this.imputations.clear();
+    this.dateDomains.clear();
+    this.getRankings().forEach((ranking, i) => ranking.setPinned(pinned[i] ? this.fromRowIds(pinned[i]) : []));
+    this.initWorker();
     this.reorderAll();
   }
 
@@ -151,8 +330,193 @@ export default class LocalDataProvider extends ACommonDataProvider {
    * @param data
    */
   appendData(data: any[]) {
+    const offset = this._data.length;
     this._data.push(...data);
+    this.rowLookup = null;
+    this.imputations.clear();
+    this.dateDomains.clear();
+    if (this.worker) {
+      try {
+        this.worker.append(data);
+      } catch (error) {
+        //resend everything to fall back in a consistent way
+        this.initWorker();
+      }
+    }
     this.reorderAll();
+    this.fire(ADataProvider.EVENT_ROWS_ADDED, data.map((d, i) => offset + i));
+  }
+
+  /**
+   * cancels the pending sorting of the given ranking within the worker, since it is based on outdated rows
+   * @param ranking
+   * @returns {boolean} whether there was a pending sorting
+   */
+  private cancelSorting(ranking: Ranking) {
+    return this.worker ? this.worker.cancel(ranking.id) : false;
+  }
+
+  private lookupRows() {
+    if (!this.options.rowId) {
+      throw new Error('the rowId option is required for updating or removing individual rows');
+    }
+    if (this.rowLookup === null) {
+      this.rowLookup = new Map<string, number>();
+      this._data.forEach((row, i) => this.rowLookup.set(this.options.rowId(row), i));
+    }
+    return this.rowLookup;
+  }
+
+  protected toRowIds(dataIndices: number[]) {
+    if (!this.options.rowId) {
+      return null;
+    }
+    return dataIndices.map((i) => this.options.rowId(this._data[i]));
+  }
+
+  protected fromRowIds(ids: string[]) {
+    if (!this.options.rowId) {
+      return [];
+    }
+    const lookup = this.lookupRows();
+    return ids.filter((id) => lookup.has(id)).map((id) => lookup.get(id));
+  }
+
+  /**
+   * replaces existing rows identified by their row id, rows are just resorted if their new values break the current order
+   * @param rows the new versions of the rows, unknown rows are ignored
+   * @returns {number[]} the data indices of the updated rows
+   */
+  updateRows(rows: any[]) {
+    const lookup = this.lookupRows();
+    const indices: number[] = [];
+    const updated: any[] = [];
+    rows.forEach((row) => {
+      const id = this.options.rowId(row);
+      if (lookup.has(id)) {
+        indices.push(lookup.get(id));
+        updated.push(row);
+      }
+    });
+    if (indices.length === 0) {
+      return indices;
+    }
+    indices.forEach((index, i) => this._data[index] = updated[i]);
+    this.imputations.clear();
+    this.dateDomains.clear();
+    if (this.worker) {
+      this.worker.update(indices, updated);
+    }
+    this.getRankings().forEach((ranking) => {
+      //a pending sorting might be based on the old versions of the rows
+      if (this.cancelSorting(ranking) || !this.isOrderValid(ranking, indices)) {
+        ranking.dirtyOrder();
+      }
+    });
+    this.fire(ADataProvider.EVENT_ROWS_UPDATED, indices);
+    return indices;
+  }
+
+  /**
+   * checks whether the current order of the ranking is still valid after the given rows changed by comparing them to their neighbors
+   * @param ranking
+   * @param indices the data indices of the changed rows
+   * @returns {boolean}
+   */
+  private isOrderValid(ranking: Ranking, indices: number[]) {
+    const groups = ranking.getGroups();
+    if (groups.length > 1 && ranking.getGroupSortMethod() === GROUP_SORT_METHOD.aggregate) {
+      //the order of the groups may change, too
+      return false;
+    }
+    const filters = this.filterRankings(ranking);
+    const data = this._data;
+    return indices.every((index) => {
+      const row = data[index];
+      const group = ranking.findGroup(index);
+      const visible = filters.every((f) => f.filter(row, index));
+      if (group === null) {
+        //wasn't part of the order
+        return !visible;
+      }
+      if (!visible || ranking.grouper(row, index).name !== group.name) {
+        return false;
+      }
+      const pos = group.order.indexOf(index);
+      const prev = pos > 0 ? group.order[pos - 1] : -1;
+      const next = pos < group.order.length - 1 ? group.order[pos + 1] : -1;
+      return (prev < 0 || ranking.comparator(data[prev], row, prev, index) <= 0) &&
+        (next < 0 || ranking.comparator(row, data[next], index, next) <= 0);
+    });
+  }
+
+  /**
+   * removes rows identified by their row id, the data indices of the remaining rows are shifted accordingly
+   * @param ids the row ids to remove
+   * @returns {number[]} the former data indices of the removed rows
+   */
+  removeRows(ids: string[]) {
+    const lookup = this.lookupRows();
+    const removed = new Set<number>();
+    ids.forEach((id) => {
+      if (lookup.has(id)) {
+        removed.add(lookup.get(id));
+      }
+    });
+    if (removed.size === 0) {
+      return [];
+    }
+    //old data index -> new data index
+    const mapping: number[] = [];
+    let next = 0;
+    this._data.forEach((d, i) => mapping.push(removed.has(i) ? -1 : next++));
+    const remap = (index: number) => index < mapping.length ? mapping[index] : -1;
+
+    //a pending sorting would return the outdated data indices, so resort these rankings afterwards
+    const outdated = this.getRankings().filter((ranking) => this.cancelSorting(ranking));
+
+    this._data = this._data.filter((d, i) => !removed.has(i));
+    this.rowLookup = null;
+    this.imputations.clear();
+    this.dateDomains.clear();
+    this.initWorker();
+
+    this.remapSelection(remap);
+    this.getRankings().forEach((ranking) => {
+      ranking.flatColumns.filter((c) => c instanceof AnnotateColumn).forEach((c: AnnotateColumn) => c.remapAnnotations(remap));
+      ranking.setPinned(ranking.getPinned().map(remap).filter((i) => i >= 0));
+      //removing rows doesn't change the relative order of the remaining ones
+      const groups = ranking.getGroups()
+        .map((g) => Object.assign({}, g, {order: g.order.map(remap).filter((i) => i >= 0)}))
+        .filter((g) => g.order.length > 0);
+      this.storeRanks(ranking, groups);
+      ranking.setGroups(groups);
+    });
+    outdated.forEach((ranking) => ranking.dirtyOrder());
+    const indices = Array.from(removed).sort((a, b) => a - b);
+    this.fire(ADataProvider.EVENT_ROWS_REMOVED, indices);
+    return indices;
+  }
+
+  /**
+   * updates existing rows and appends the new ones
+   * @param rows
+   * @returns {{updated: number[], added: number[]}} the data indices of the updated and added rows
+   */
+  upsertRows(rows: any[]) {
+    const lookup = this.lookupRows();
+    const existing = rows.filter((row) => lookup.has(this.options.rowId(row)));
+    const added = rows.filter((row) => !lookup.has(this.options.rowId(row)));
+    const updated = existing.length > 0 ? this.updateRows(existing) : [];
+    const offset = this._data.length;
+    const addedIndices = added.map((d, i) => offset + i);
+    if (added.length > 0) {
+      this.appendData(added);
+    }
+    return {
+      updated,
+      added: addedIndices
+    };
   }
 
   cloneRanking(existing?: Ranking) {
@@ -161,6 +525,12 @@ export default class LocalDataProvider extends ACommonDataProvider {
     if (this.options.filterGlobally) {
       clone.on(Column.EVENT_FILTER_CHANGED + '.reorderAll', this.reorderAll);
     }
+    //a newer order request makes the pending sorting outdated
+    clone.on(Ranking.EVENT_DIRTY_ORDER + '.worker', () => {
+      if (this.worker) {
+        this.worker.cancel(clone.id);
+      }
+    });
 
     return clone;
   }
@@ -169,31 +539,40 @@ export default class LocalDataProvider extends ACommonDataProvider {
     if (this.options.filterGlobally) {
       ranking.on(Column.EVENT_FILTER_CHANGED + '.reorderAll', null);
     }
+    ranking.on(Ranking.EVENT_DIRTY_ORDER + '.worker', null);
+    if (this.worker) {
+      this.worker.cancel(ranking.id);
+    }
     super.cleanUpRanking(ranking);
   }
 
-  sortImpl(ranking: Ranking): Promise<number[]> {
+  /**
+   * the rankings whose filters have to be applied when sorting the given ranking
+   * @param ranking
+   * @returns {Ranking[]}
+   */
+  private filterRankings(ranking: Ranking) {
+    if (this.options.filterGlobally) {
+      return this.getRankings().filter((d) => d.isFiltered());
+    }
+    return ranking.isFiltered() ? [ranking] : [];
+  }
+
+  sortImpl(ranking: Ranking): Promise<IOrderedGroup[]> {
     if (this._data.length === 0) {
       return Promise.resolve([]);
     }
-    //wrap in a helper and store the initial index
-    let helper = this._data.map((r, i) => ({row: r, i}));
-
-    //do the optional filtering step
-    if (this.options.filterGlobally) {
-      const filtered = this.getRankings().filter((d) => d.isFiltered());
-      if (filtered.length > 0) {
-        helper = helper.filter((d) => filtered.every((f) => f.filter(d.row, d.i)));
-      }
-    } else if (ranking.isFiltered()) {
-      helper = helper.filter((d) => ranking.filter(d.row, d.i));
+    const filters = this.filterRankings(ranking);
+    if (this.worker && isWorkerAble(ranking) && filters.every(isWorkerAble)) {
+      return this.worker.sort(ranking.id, ranking.dump(this.toDescRef), filters.map((f) => f.dump(this.toDescRef)))
+        //e.g. the worker couldn't restore the ranking, so sort within the main thread instead
+        .catch(() => sortGroups(this._data, ranking, filters));
     }
+    return Promise.resolve(sortGroups(this._data, ranking, filters));
+  }
 
-    //sort by the ranking column
-    helper.sort((a, b) => ranking.comparator(a.row, b.row, a.i, b.i));
-
-    //store the ranking index and create an argsort version, i.e. rank 0 -> index i
-    return Promise.resolve(helper.map((r) => r.i));
+  protected sortUnfiltered(ranking: Ranking) {
+    return Promise.resolve([].concat(...sortGroups(this._data, ranking, []).map((g) => g.order)));
   }
 
 
@@ -218,7 +597,7 @@ export default class LocalDataProvider extends ACommonDataProvider {
   /**
    * helper for computing statistics
    * @param indices
-   * @returns {{stats: (function(INumberColumn): *), hist: (function(ICategoricalColumn): *)}}
+   * @returns {{stats: (function(INumberColumn): *), hist: (function(ICategoricalColumn): *), summary: (function(MultiValueColumn): *)}}
    */
   stats(indices: number[]): IStatsBuilder {
     let d: any[] = null;
@@ -229,9 +608,23 @@ export default class LocalDataProvider extends ACommonDataProvider {
       return d;
     };
 
+    const inWorker = (col: Column) => this.worker !== null && indices.length > 0 && isWorkerAbleColumn(col);
+
     return {
-      stats: (col: INumberColumn) => Promise.resolve(computeStats(getD(), indices, col.getNumber.bind(col), [0, 1])),
-      hist: (col: ICategoricalColumn) => Promise.resolve(computeHist(getD(), indices, col.getCategories.bind(col), col.categories))
+      stats: (col: INumberColumn) => {
+        if (inWorker(<Column><any>col)) {
+          return this.worker.stats(indices, this.dumpColumn(<Column><any>col));
+        }
+        const isMissing = col instanceof NumberColumn ? col.isMissing.bind(col) : null;
+        return Promise.resolve(computeStats(getD(), indices, col.getNumber.bind(col), [0, 1], isMissing));
+      },
+      hist: (col: ICategoricalColumn) => {
+        if (inWorker(<Column><any>col)) {
+          return this.worker.hist(indices, this.dumpColumn(<Column><any>col));
+        }
+        return Promise.resolve(computeHist(getD(), indices, col.getCategories.bind(col), col.categories));
+      },
+      summary: (col: MultiValueColumn) => Promise.resolve(col.summarize(getD(), indices))
     };
   }
 
@@ -239,8 +632,10 @@ export default class LocalDataProvider extends ACommonDataProvider {
   mappingSample(col: NumberColumn): Promise<number[]> {
     const MAX_SAMPLE = 500; //at most 500 sample lines
     const l = this._data.length;
+    //just the actual values without the imputed ones
+    const sampleOf = (indices: number[]) => indices.filter((i) => !col.isMissing(this._data[i], i)).map((i) => col.getRawValue(this._data[i], i));
     if (l <= MAX_SAMPLE) {
-      return Promise.resolve(<number[]>this._data.map(col.getRawValue.bind(col)));
+      return Promise.resolve(sampleOf(this._data.map((d, i) => i)));
     }
     //randomly select 500 elements
     const indices: number[] = [];
@@ -251,7 +646,7 @@ export default class LocalDataProvider extends ACommonDataProvider {
       }
       indices.push(j);
     }
-    return Promise.resolve(indices.map((i) => col.getRawValue(this.data[i], i)));
+    return Promise.resolve(sampleOf(indices));
   }
 
   searchAndJump(search: string|RegExp, col: Column) {
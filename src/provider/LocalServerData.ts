@@ -0,0 +1,246 @@
+import Column, {IColumnDesc} from '../model/Column';
+import CompositeColumn from '../model/CompositeColumn';
+import NumberColumn, {INumberColumn, createMappingFunction} from '../model/NumberColumn';
+import {ICategoricalColumn} from '../model/CategoricalColumn';
+import StackColumn, {createDesc as createStackDesc} from '../model/StackColumn';
+import {createDesc as createNestedDesc} from '../model/NestedColumn';
+import ScriptColumn, {createDesc as createScriptDesc} from '../model/ScriptColumn';
+import SetColumn from '../model/SetColumn';
+import {decodeRegExp} from '../model/StringColumn';
+import MultiValueColumn from '../model/MultiValueColumn';
+import {createDesc as createMinDesc} from '../model/MinColumn';
+import {createDesc as createMaxDesc} from '../model/MaxColumn';
+import {createDesc as createMeanDesc} from '../model/MeanColumn';
+import {IRankingQueryDesc} from '../model/Ranking';
+import {mapFilterColumns, toFilterExpressionText} from '../model/FilterExpression';
+import * as d3 from 'd3';
+import {IStatsBuilder} from './ADataProvider';
+import LocalDataProvider, {sortGroups} from './LocalDataProvider';
+import {IServerData, IServerSortResult} from './RemoteDataProvider';
+
+/**
+ * an IServerData implementation executing the queries on an in-memory dataset using the LocalDataProvider logic.
+ * Besides being used directly, it serves as reference implementation of the protocol of the HTTPServerData, see handle
+ */
+export default class LocalServerData implements IServerData {
+  private readonly provider: LocalDataProvider;
+
+  /**
+   * @param data the rows of the dataset
+   * @param columns the column descriptions, the column attribute of a description is used as its id
+   */
+  constructor(data: any[], columns: IColumnDesc[]) {
+    this.provider = new LocalDataProvider(data, columns, {maxNestedSortingCriteria: Infinity});
+  }
+
+  get data() {
+    return this.provider.data;
+  }
+
+  /**
+   * creates a column out of its sorting description, see Column.toSortingDesc
+   * @param desc
+   * @param mappings the mapping functions to apply to the number columns
+   * @returns {Column} the column or null if it can't be created
+   */
+  private fromSortingDesc(desc: any, mappings: {id: any, map: any}[] = []): Column {
+    if (desc == null) {
+      return null;
+    }
+    if (typeof desc === 'string') {
+      const columnDesc = this.provider.findDesc(desc);
+      if (!columnDesc) {
+        return null;
+      }
+      const col = this.provider.create(columnDesc);
+      const mapping = mappings.find((m) => m.id === desc);
+      if (mapping && col instanceof NumberColumn) {
+        col.setMapping(createMappingFunction(mapping.map));
+      }
+      return col;
+    }
+    const createParent = (parentDesc: IColumnDesc, operands: any[]) => {
+      const parent = <CompositeColumn>this.provider.create(parentDesc);
+      operands.map((o) => this.fromSortingDesc(o, mappings)).filter((c) => c !== null).forEach((c) => parent.push(c));
+      return parent;
+    };
+    if (Array.isArray(desc)) {
+      if (desc.length > 0 && desc[0].weight !== undefined) { //weighted stack
+        const stack = <StackColumn>createParent(createStackDesc(), desc.map((d) => d.id));
+        stack.setWeights(desc.map((d) => d.weight));
+        return stack;
+      }
+      return createParent(createNestedDesc(), desc);
+    }
+    if (desc.reference !== undefined) { //set sorted by similarity
+      const set = this.fromSortingDesc(desc.id, mappings);
+      if (set instanceof SetColumn) {
+        set.setReferenceMembers(desc.reference);
+      }
+      return set;
+    }
+    if (desc.code !== undefined) {
+      const script = <ScriptColumn>createParent(createScriptDesc(), desc.operands);
+      script.setScript(desc.code);
+      return script;
+    }
+    switch (desc.operation) {
+      case 'min':
+        return createParent(createMinDesc(), desc.operands);
+      case 'max':
+        return createParent(createMaxDesc(), desc.operands);
+      case 'avg':
+        return createParent(createMeanDesc(), desc.operands);
+    }
+    return null;
+  }
+
+  sort(desc: IRankingQueryDesc): Promise<IServerSortResult> {
+    const mappings = desc.mappings || [];
+    const ranking = this.provider.cloneRanking();
+    //legacy description just containing the primary sorting criteria
+    const criterias = desc.sortCriterias || (desc.id != null ? [{id: desc.id, asc: desc.asc}] : []);
+    const sortCriterias = criterias.map((s) => ({col: this.fromSortingDesc(s.id, mappings), asc: s.asc})).filter((s) => s.col !== null);
+    sortCriterias.forEach((s) => ranking.push(s.col));
+    ranking.setSortCriterias(sortCriterias);
+
+    //the filters are applied using a separate ranking
+    const filter = this.provider.cloneRanking();
+    //the columns of the filter ranking by their serialized sorting description
+    const columns = new Map<string, Column>();
+    (desc.filters || []).forEach((f) => {
+      const col = this.fromSortingDesc(f.id, mappings);
+      if (!col) {
+        return;
+      }
+      filter.push(col);
+      const key = JSON.stringify(f.id);
+      if (!columns.has(key)) {
+        columns.set(key, col);
+      }
+      switch (f.type) {
+        case 'string':
+          (<any>col).setFilter(decodeRegExp(f.filter));
+          break;
+        case 'categorical':
+          (<any>col).setFilter({filter: decodeRegExp(f.filter), filterMissing: f.filterMissing});
+          break;
+        case 'boolean':
+          (<any>col).setFilter(f.filter);
+          break;
+        case 'set':
+          (<any>col).setFilter({mode: f.mode, elements: f.elements, filterMissing: f.filterMissing});
+          break;
+        case 'multiValue':
+          (<any>col).setFilter({mode: f.mode, min: f.min, max: f.max, filterMissing: f.filterMissing});
+          break;
+        case 'date': //timestamps whose null bounds are unbounded
+          (<any>col).setFilter({min: f.min, max: f.max, filterMissing: f.filterMissing});
+          break;
+        default: //number filter whose null bounds are converted by the column
+          (<any>col).setFilter({min: f.min, max: f.max, filterMissing: f.filterMissing});
+      }
+    });
+    //pinned rows which are kept regardless of the filters
+    filter.setPinned(desc.pinned || []);
+    filter.setFilterPinned(false);
+    if (desc.filterExpression) {
+      //reference the columns of the expression by the ids of their counterparts within the filter ranking, columns are reused since the expression just reads their values
+      const node = mapFilterColumns(desc.filterExpression, (ref) => {
+        const key = JSON.stringify(ref);
+        if (!columns.has(key)) {
+          const col = this.fromSortingDesc(ref, mappings);
+          if (!col) {
+            return String(ref);
+          }
+          columns.set(key, filter.push(col));
+        }
+        return columns.get(key).id;
+      });
+      const problems = filter.setFilterExpression(toFilterExpressionText(node));
+      if (problems.length > 0) {
+        return Promise.reject(`invalid filter expression: ${problems.map((p) => p.message).join(', ')}`);
+      }
+    }
+
+    const data = this.provider.data;
+    //the server side doesn't support grouping so far
+    const order = [].concat(...sortGroups(data, ranking, filter.isFiltered() ? [filter] : []).map((g) => g.order));
+    //competition ranking, i.e. rows being equal to their predecessor share its rank
+    const ranks: number[] = [];
+    order.forEach((dataIndex, i) => {
+      const prev = order[i - 1];
+      const tie = i > 0 && sortCriterias.length > 0 && ranking.comparator(data[prev], data[dataIndex], prev, dataIndex) === 0;
+      ranks.push(tie ? ranks[i - 1] : i + 1);
+    });
+    return Promise.resolve({order, ranks});
+  }
+
+  view(indices: number[]) {
+    return Promise.resolve(this.provider.viewRaw(indices));
+  }
+
+  mappingSample(column: any) {
+    const col = this.fromSortingDesc(column);
+    return col instanceof NumberColumn ? this.provider.mappingSample(col) : Promise.resolve([]);
+  }
+
+  search(search: string|RegExp, column: any) {
+    const col = this.fromSortingDesc(column);
+    if (!col) {
+      return Promise.resolve([]);
+    }
+    //case insensitive search
+    search = typeof search === 'string' ? search.toLowerCase() : search;
+    const f = typeof search === 'string' ? (v: string) => v.toLowerCase().indexOf((<string>search)) >= 0 : (<RegExp>search).test.bind(search);
+    const data = this.provider.data;
+    return Promise.resolve(d3.range(data.length).filter((i) => f(col.getLabel(data[i], i))));
+  }
+
+  stats(indices: number[]): IStatsBuilder {
+    return this.provider.stats(indices);
+  }
+
+  /**
+   * handles a request of the HTTPServerData protocol
+   * @param endpoint one of sort, view, mappingSample, search, and stats
+   * @param body the parsed JSON body of the request
+   * @returns {Promise<any>} the JSON compatible response, rejected if the request is malformed
+   */
+  handle(endpoint: string, body: any): Promise<any> {
+    try {
+      return this.handleImpl(endpoint, body || {});
+    } catch (error) {
+      //e.g. missing arguments
+      return Promise.reject(`invalid request: ${error}`);
+    }
+  }
+
+  private handleImpl(endpoint: string, body: any): Promise<any> {
+    switch (endpoint) {
+      case 'sort':
+        return this.sort(body);
+      case 'view':
+        return this.view(body.indices);
+      case 'mappingSample':
+        return this.mappingSample(body.column);
+      case 'search':
+        return this.search(decodeRegExp(body.search), body.column);
+      case 'stats': {
+        const col = this.fromSortingDesc(body.column, body.mappings);
+        if (!col) {
+          return Promise.reject(`invalid column: ${JSON.stringify(body.column)}`);
+        }
+        const builder = this.stats(body.indices);
+        switch (body.type) {
+          case 'categorical':
+            return builder.hist(<ICategoricalColumn><any>col);
+          case 'summary':
+            return col instanceof MultiValueColumn ? builder.summary(col) : Promise.reject(`no multi value column: ${JSON.stringify(body.column)}`);
+        }
+        return builder.stats(<INumberColumn><any>col);
+      }
+    }
+    return Promise.reject(`unknown endpoint: ${endpoint}`);
+  }
+}
@@ -4,19 +4,35 @@
 
 import {merge} from '../utils';
 import Column, {IColumnDesc} from '../model/Column';
-import Ranking from '../model/Ranking';
+import Ranking, {IRankingQueryDesc} from '../model/Ranking';
+import {IOrderedGroup, defaultGroup} from '../model/Group';
 import {IStatsBuilder, IDataRow, IDataProviderOptions} from './ADataProvider';
 import ACommonDataProvider from './ACommonDataProvider';
 
+/**
+ * result of a server side sorting
+ */
+export interface IServerSortResult {
+  /**
+   * the sorted data indices
+   */
+  order: number[];
+  /**
+   * optional one-based ranks of the sorted data indices, e.g., to represent ties
+   */
+  ranks?: number[];
+}
+
 /**
  * interface what the server side has to provide
  */
 export interface IServerData {
   /**
-   * sort the dataset by the given description
-   * @param desc
+   * sort and filter the dataset by the given description
+   * @param desc the query description of the ranking, its id and asc attribute describe the primary sorting criteria
+   * @returns either the sorted data indices or them along with their server computed ranks
    */
-  sort(desc: any): Promise<number[]>;
+  sort(desc: IRankingQueryDesc): Promise<number[]|IServerSortResult>;
   /**
    * returns a slice of the data array identified by a list of indices
    * @param indices
@@ -40,7 +56,7 @@ export interface IServerData {
 
 export interface IRemoteDataProviderOptions {
   /**
-   * maximal cache size (unused at the moment)
+   * maximal number of rows kept in the cache, the least recently used ones are evicted first
    */
   maxCacheSize?: number;
 }
@@ -53,19 +69,63 @@ export default class RemoteDataProvider extends ACommonDataProvider {
     maxCacheSize: 1000
   };
 
+  /**
+   * row cache, the insertion order of the map is used as least recently used order
+   * @type {Map<number, Promise<IDataRow>>}
+   */
   private readonly cache = new Map<number, Promise<IDataRow>>();
 
+  /**
+   * the rows to load within the current tick, such that they are loaded using a single view call
+   */
+  private batch: {indices: number[], loaded: Promise<IDataRow[]>} = null;
+
+  /**
+   * the ranks computed by the server by ranking id
+   * @type {Map<string, Map<number, number>>}
+   */
+  private readonly serverRanks = new Map<string, Map<number, number>>();
+
 
   constructor(private server: IServerData, columns: IColumnDesc[] = [], options: IRemoteDataProviderOptions & IDataProviderOptions = {}) {
     super(columns, options);
     merge(this.options, options);
   }
 
-  sortImpl(ranking: Ranking): Promise<number[]> {
-    //generate a description of what to sort
-    const desc = ranking.toSortingDesc((desc) => desc.column);
-    //use the server side to sort
-    return this.server.sort(desc);
+  sortImpl(ranking: Ranking): Promise<IOrderedGroup[]> {
+    //generate a description of what to sort and filter
+    const desc = ranking.toQueryDesc((desc) => desc.column);
+    //use the server side to sort, grouping is not supported by the server so far
+    return this.server.sort(desc).then((result) => {
+      const order = Array.isArray(result) ? result : result.order;
+      const ranks = Array.isArray(result) ? null : result.ranks;
+      if (ranks) {
+        const lookup = new Map<number, number>();
+        order.forEach((dataIndex, i) => lookup.set(dataIndex, ranks[i]));
+        this.serverRanks.set(ranking.id, lookup);
+      } else {
+        this.serverRanks.delete(ranking.id);
+      }
+      return [Object.assign({order}, defaultGroup)];
+    });
+  }
+
+  protected sortUnfiltered(ranking: Ranking) {
+    const desc = Object.assign(ranking.toQueryDesc((desc) => desc.column), {filters: [], filterExpression: null, pinned: []});
+    return this.server.sort(desc).then((result) => Array.isArray(result) ? result : result.order);
+  }
+
+  /**
+   * rows sharing the rank computed by the server are tied
+   */
+  protected isTie(ranking: Ranking, a: number, b: number) {
+    const lookup = this.serverRanks.get(ranking.id);
+    return lookup !== undefined && lookup.get(a) === lookup.get(b);
+  }
+
+  cleanUpRanking(ranking: Ranking) {
+    this.serverRanks.delete(ranking.id);
+    super.cleanUpRanking(ranking);
   }
 
   private loadFromServer(indices: number[]) {
@@ -86,7 +146,6 @@ export default class RemoteDataProvider extends ACommonDataProvider {
     return Promise.all(base).then((rows) => rows.map((d) => d.v));
   }
 
-
   private computeMissing(orders: number[][]): number[] {
     const union = new Set<number>();
     const unionAdd = union.add.bind(union);
@@ -95,35 +154,92 @@ export default class RemoteDataProvider extends ACommonDataProvider {
     // removed cached
     this.cache.forEach((v, k) => union.delete(k));
 
-    if ((this.cache.size + union.size) > this.options.maxCacheSize) {
-      // clean up cache
-    }
-    // const maxLength = Math.max(...orders.map((o) => o.length));
     const r = [];
     union.forEach(r.push.bind(r));
     return r;
   }
 
+  /**
+   * marks the given cached rows as recently used by moving them to the end of the insertion order
+   * @param orders
+   */
+  private touch(orders: number[][]) {
+    orders.forEach((order) => order.forEach((dataIndex) => {
+      const row = this.cache.get(dataIndex);
+      if (row) {
+        this.cache.delete(dataIndex);
+        this.cache.set(dataIndex, row);
+      }
+    }));
+  }
+
+  /**
+   * evicts the least recently used rows till the cache size is within the limits
+   * @param keep rows that should not be evicted
+   */
+  private evict(keep: Set<number>) {
+    let toRemove = this.cache.size - this.options.maxCacheSize;
+    if (toRemove <= 0) {
+      return;
+    }
+    const evicted: number[] = [];
+    //iterates in insertion order, i.e. least recently used first
+    this.cache.forEach((v, dataIndex) => {
+      if (toRemove > 0 && !keep.has(dataIndex)) {
+        evicted.push(dataIndex);
+        toRemove--;
+      }
+    });
+    evicted.forEach((dataIndex) => this.cache.delete(dataIndex));
+  }
+
   private loadInCache(missing: number[]) {
     if (missing.length === 0) {
       return;
     }
-    // load data and map to rows;
-    const v = this.loadFromServer(missing);
-    missing.forEach((m, i) => {
-      const dataIndex = missing[i];
-      this.cache.set(dataIndex, v.then((loaded) => ({v: loaded[i], dataIndex})));
+    if (this.batch === null) {
+      //collect all rows requested within this tick and load them at once
+      const batch = this.batch = {indices: <number[]>[], loaded: null};
+      batch.loaded = Promise.resolve().then(() => {
+        this.batch = null;
+        return this.loadFromServer(batch.indices);
+      });
+      batch.loaded.catch(() => {
+        //don't cache failed rows
+        batch.indices.forEach((dataIndex) => this.cache.delete(dataIndex));
+      });
+    }
+    const current = this.batch;
+    const offset = current.indices.length;
+    current.indices.push(...missing);
+    missing.forEach((dataIndex, i) => {
+      this.cache.set(dataIndex, current.loaded.then((loaded) => loaded[offset + i]));
     });
   }
 
+  private load(orders: number[][]) {
+    this.touch(orders);
+    this.loadInCache(this.computeMissing(orders));
+    const keep = new Set<number>();
+    orders.forEach((order) => order.forEach((dataIndex) => keep.add(dataIndex)));
+    this.evict(keep);
+  }
+
   fetch(orders: number[][]): Promise<IDataRow>[][] {
-    const toLoad = this.computeMissing(orders);
-    this.loadInCache(toLoad);
+    this.load(orders);
 
     return orders.map((order) =>
       order.map((dataIndex) => this.cache.get(dataIndex)));
   }
 
+  prefetch(orders: number[][]) {
+    //prefetched rows should not evict the rendered ones, so just load as much as fits
+    const free = Math.max(0, this.options.maxCacheSize - this.cache.size);
+    const missing = this.computeMissing(orders).slice(0, free);
+    this.loadInCache(missing);
+    //nobody waits for the prefetched rows, failed ones are evicted and loaded again on demand
+    missing.forEach((dataIndex) => this.cache.get(dataIndex).catch(() => undefined));
+  }
 
   mappingSample(col: Column): Promise<number[]> {
     return this.server.mappingSample((<any>col.desc).column);
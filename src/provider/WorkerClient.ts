@@ -0,0 +1,187 @@
+import {IColumnDesc, IStatistics, ICategoricalStatistics} from '../model/Column';
+import {IOrderedGroup} from '../model/Group';
+
+/**
+ * message sent to the worker
+ */
+export interface IWorkerRequest {
+  readonly type: 'init' | 'append' | 'update' | 'columns' | 'sort' | 'stats' | 'hist' | 'cancel';
+  /**
+   * request id, set for requests expecting a response
+   */
+  readonly id?: number;
+
+  readonly data?: any[];
+  readonly columns?: IColumnDesc[];
+
+  /**
+   * dump of the ranking to sort
+   */
+  readonly ranking?: any;
+  /**
+   * dumps of the rankings whose filters should be applied
+   */
+  readonly filters?: any[];
+
+  /**
+   * dump of the column to compute the statistics of
+   */
+  readonly column?: any;
+  /**
+   * the data indices of the statistics or of the updated rows
+   */
+  readonly indices?: number[];
+}
+
+/**
+ * message sent back by the worker
+ */
+export interface IWorkerResponse {
+  readonly id: number;
+  readonly result?: any;
+  readonly error?: string;
+}
+
+/**
+ * converts a dump to its plain JSON version, i.e. removing all functions such as accessors
+ * @param dump
+ */
+function toPlain(dump: any) {
+  return JSON.parse(JSON.stringify(dump));
+}
+
+/**
+ * main thread side of the worker computing the sorting, filtering, and statistics of a LocalDataProvider
+ */
+export default class WorkerClient {
+  private readonly worker: Worker;
+  private nextId = 0;
+  private readonly pending = new Map<number, {resolve: (result: any) => void, reject: (error: any) => void}>();
+  /**
+   * the current sort request by ranking id
+   * @type {Map<string, number>}
+   */
+  private readonly sorting = new Map<string, number>();
+
+  constructor(url: string) {
+    this.worker = new Worker(url);
+    this.worker.onmessage = (evt: MessageEvent) => this.onMessage(<IWorkerResponse>evt.data);
+  }
+
+  /**
+   * whether web workers are supported in this environment
+   * @returns {boolean}
+   */
+  static isSupported() {
+    return typeof Worker !== 'undefined';
+  }
+
+  private onMessage(msg: IWorkerResponse) {
+    const p = this.pending.get(msg.id);
+    if (!p) { //cancelled in the meanwhile
+      return;
+    }
+    this.pending.delete(msg.id);
+    if (msg.error !== undefined) {
+      p.reject(msg.error);
+    } else {
+      p.resolve(msg.result);
+    }
+  }
+
+  private send(msg: IWorkerRequest) {
+    this.worker.postMessage(msg);
+  }
+
+  private request<T>(msg: IWorkerRequest): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(msg.id, {resolve, reject});
+      this.send(msg);
+    });
+  }
+
+  /**
+   * transfers the data and column descriptions to the worker, replacing the existing ones
+   * @param data
+   * @param columns
+   * @throws DataCloneError if the data can't be transferred
+   */
+  init(data: any[], columns: IColumnDesc[]) {
+    this.send({type: 'init', data, columns: toPlain(columns)});
+  }
+
+  /**
+   * transfers additional rows to the worker
+   * @param data
+   */
+  append(data: any[]) {
+    this.send({type: 'append', data});
+  }
+
+  /**
+   * replaces the rows at the given data indices
+   * @param indices
+   * @param data
+   */
+  update(indices: number[], data: any[]) {
+    this.send({type: 'update', indices, data});
+  }
+
+  /**
+   * updates the column descriptions known by the worker
+   * @param columns
+   */
+  updateColumns(columns: IColumnDesc[]) {
+    this.send({type: 'columns', columns: toPlain(columns)});
+  }
+
+  /**
+   * sorts the ranking within the worker, a pending sort request of the same ranking is cancelled, i.e. its promise will never be resolved
+   * @param rankingId
+   * @param ranking dump of the ranking
+   * @param filters dumps of the rankings whose filters should be applied
+   * @returns {Promise<IOrderedGroup[]>}
+   */
+  sort(rankingId: string, ranking: any, filters: any[]): Promise<IOrderedGroup[]> {
+    this.cancel(rankingId);
+    const id = this.nextId++;
+    this.sorting.set(rankingId, id);
+    return this.request<IOrderedGroup[]>({type: 'sort', id, ranking: toPlain(ranking), filters: filters.map(toPlain)}).then((groups) => {
+      this.sorting.delete(rankingId);
+      return groups;
+    });
+  }
+
+  /**
+   * cancels the pending sort request of the given ranking if any
+   * @param rankingId
+   * @returns {boolean} whether there was a pending sort request
+   */
+  cancel(rankingId: string) {
+    if (!this.sorting.has(rankingId)) {
+      return false;
+    }
+    const id = this.sorting.get(rankingId);
+    this.sorting.delete(rankingId);
+    this.pending.delete(id);
+    this.send({type: 'cancel', id});
+    return true;
+  }
+
+  stats(indices: number[], column: any): Promise<IStatistics> {
+    return this.request<IStatistics>({type: 'stats', id: this.nextId++, indices, column: toPlain(column)});
+  }
+
+  hist(indices: number[], column: any): Promise<ICategoricalStatistics> {
+    return this.request<ICategoricalStatistics>({type: 'hist', id: this.nextId++, indices, column: toPlain(column)});
+  }
+
+  /**
+   * stops the worker, all pending requests will never be resolved
+   */
+  terminate() {
+    this.worker.terminate();
+    this.pending.clear();
+    this.sorting.clear();
+  }
+}
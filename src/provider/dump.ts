@@ -0,0 +1,325 @@
+import {createActionDesc, createRankDesc, createSelectionDesc, createStackDesc} from '../model';
+import {compileScript} from '../model/ScriptExpression';
+
+/**
+ * the current version of the dump format, see ADataProvider.dump
+ *
+ * versions:
+ *  * 0: old layout format with a list of column bundles per ranking
+ *  * 1: unversioned dump of the rankings, which could use the legacy sortColumn attribute
+ *  * 2: versioned dump of the rankings
+ *  * 3: scripts of script columns and script mappings use the safe expression language instead of JavaScript,
+ *       e.g. a division by zero or a missing raw value results in NaN instead of Infinity or being treated as 0
+ */
+export const DUMP_VERSION = 3;
+
+/**
+ * a problem detected while validating or restoring a dump
+ */
+export interface IDumpProblem {
+  /**
+   * the path to the part of the dump causing the problem, e.g. rankings[0].columns[2]
+   */
+  readonly path: string;
+  readonly message: string;
+}
+
+/**
+ * JSON schema of the dump format of the current version
+ */
+export const DUMP_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-04/schema#',
+  title: 'LineUp dump',
+  type: 'object',
+  required: ['version', 'rankings'],
+  properties: {
+    version: {type: 'integer', minimum: DUMP_VERSION, maximum: DUMP_VERSION},
+    uid: {type: 'integer'},
+    selection: {type: 'array', items: {type: 'integer'}},
+    rankings: {type: 'array', items: {$ref: '#/definitions/ranking'}}
+  },
+  definitions: {
+    ranking: {
+      type: 'object',
+      required: ['columns'],
+      properties: {
+        id: {type: 'string'},
+        columns: {type: 'array', items: {$ref: '#/definitions/column'}},
+        sortCriterias: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['sortBy'],
+            properties: {
+              sortBy: {type: 'string'},
+              asc: {type: 'boolean'}
+            }
+          }
+        },
+        groupCriteria: {type: 'string'},
+        groupSortMethod: {type: 'string'},
+        aggregated: {type: 'array', items: {type: 'string'}},
+        filterExpression: {type: 'string'},
+        pinned: {type: 'array', items: {type: ['string', 'integer']}},
+        filterPinned: {type: 'boolean'}
+      }
+    },
+    column: {
+      type: 'object',
+      required: ['desc'],
+      properties: {
+        id: {type: 'string'},
+        desc: {type: ['string', 'object']},
+        width: {type: 'number'},
+        compressed: {type: 'boolean'},
+        label: {type: 'string'},
+        color: {type: 'string'},
+        rendererType: {type: 'string'},
+        children: {type: 'array', items: {$ref: '#/definitions/column'}}
+      }
+    }
+  }
+};
+
+/**
+ * the helpers needed for migrating a dump, provided by the data provider
+ */
+export interface IDumpMigrationContext {
+  findDesc(column: string): any;
+  toDescRef(desc: any): any;
+}
+
+/**
+ * converts a column of the layout format to a column dump
+ * @param column
+ * @param context
+ * @returns {any} the column dump or null if it can't be converted
+ */
+function fromLayoutColumn(column: any, context: IDumpMigrationContext): any {
+  switch (column.type) {
+    case 'rank':
+      return Object.assign({}, column, {desc: context.toDescRef(createRankDesc())});
+    case 'selection':
+      return Object.assign({}, column, {desc: context.toDescRef(createSelectionDesc())});
+    case 'actions':
+      return Object.assign({}, column, {desc: context.toDescRef(createActionDesc(column.label || 'actions'))});
+    case 'stacked':
+      return Object.assign({}, column, {
+        desc: context.toDescRef(createStackDesc(column.label || 'Combined')),
+        children: (column.children || []).map((c) => fromLayoutColumn(c, context)).filter((c) => c !== null)
+      });
+    default: {
+      const desc = context.findDesc(column.column);
+      if (!desc) {
+        return null;
+      }
+      return Object.assign({}, column, {desc: context.toDescRef(desc), label: column.label || desc.label || desc.column});
+    }
+  }
+}
+
+const LEGACY_FUNCTIONS = ['abs', 'sqrt', 'pow', 'log', 'exp', 'floor', 'ceil', 'round', 'max', 'min'];
+
+/**
+ * rewrites the common JavaScript idioms of a legacy script to the expression language, e.g. Math.max.apply(Math, values) to max(values)
+ * @param code
+ * @returns {string} the rewritten script or the given one if it is already valid
+ */
+function fromLegacyScript(code: string) {
+  if (typeof code !== 'string' || compileScript(code, null).problems.length === 0) {
+    return code;
+  }
+  return code
+    .replace(/Math\.(max|min)\.apply\(\s*Math\s*,\s*/g, '$1(')
+    .replace(new RegExp(`Math\\.(${LEGACY_FUNCTIONS.join('|')})\\b`, 'g'), '$1')
+    .replace(/([!=])==/g, '$1=');
+}
+
+function fromLegacyScriptColumn(column: any): any {
+  if (!column || typeof column !== 'object') {
+    return column;
+  }
+  const r = Object.assign({}, column);
+  if (typeof r.script === 'string') {
+    r.script = fromLegacyScript(r.script);
+  }
+  if (r.map && r.map.type === 'script') {
+    r.map = Object.assign({}, r.map, {code: fromLegacyScript(r.map.code)});
+  }
+  if (Array.isArray(r.children)) {
+    r.children = r.children.map(fromLegacyScriptColumn);
+  }
+  return r;
+}
+
+/**
+ * migrations of a dump to the next version by the version to migrate from
+ */
+const migrations: {[version: number]: (dump: any, context: IDumpMigrationContext) => any} = {
+  0: (dump, context) => {
+    const layout = dump.layout || {};
+    const rankings = Object.keys(layout).map((key) => ({
+      columns: layout[key].map((c) => fromLayoutColumn(c, context)).filter((c) => c !== null)
+    }));
+    const r = Object.assign({}, dump, {rankings: (dump.rankings || []).concat(rankings)});
+    delete r.layout;
+    return r;
+  },
+  1: (dump) => {
+    const rankings = (dump.rankings || []).map((ranking) => {
+      if (!ranking || !ranking.sortColumn) {
+        return ranking;
+      }
+      const r = Object.assign({}, ranking);
+      if (!r.sortCriterias) {
+        r.sortCriterias = r.sortColumn.sortBy ? [{sortBy: r.sortColumn.sortBy, asc: r.sortColumn.asc === true}] : [];
+      }
+      delete r.sortColumn;
+      return r;
+    });
+    return Object.assign({}, dump, {rankings});
+  },
+  //scripts which are still invalid are reported while restoring
+  2: (dump) => {
+    const rankings = (dump.rankings || []).map((ranking) => {
+      if (!ranking || !Array.isArray(ranking.columns)) {
+        return ranking;
+      }
+      return Object.assign({}, ranking, {columns: ranking.columns.map(fromLegacyScriptColumn)});
+    });
+    return Object.assign({}, dump, {rankings});
+  }
+};
+
+/**
+ * guesses the version of the given dump
+ * @param dump
+ * @returns {number}
+ */
+function versionOf(dump: any) {
+  if (typeof dump.version === 'number') {
+    return dump.version;
+  }
+  return dump.layout ? 0 : 1;
+}
+
+/**
+ * migrates the given dump to the current version, the given dump itself is not modified
+ * @param dump
+ * @param context
+ * @returns {any} the migrated dump
+ */
+export function migrateDump(dump: any, context: IDumpMigrationContext): any {
+  if (!dump || typeof dump !== 'object') {
+    return dump;
+  }
+  for (let version = versionOf(dump); version < DUMP_VERSION && migrations[version]; ++version) {
+    dump = Object.assign(migrations[version](dump, context), {version: version + 1});
+  }
+  return dump;
+}
+
+function typeOf(value: any) {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && Math.floor(value) === value) {
+    return 'integer';
+  }
+  return typeof value;
+}
+
+/**
+ * validates the value against the supported subset of the JSON schema (type, required, properties, items, minimum, maximum, $ref)
+ * @param value
+ * @param schema
+ * @param path json path of the value
+ * @param deep whether to follow $refs, otherwise they are considered to be valid
+ * @returns {IDumpProblem[]}
+ */
+function validate(value: any, schema: any, path: string, deep: boolean): IDumpProblem[] {
+  if (schema.$ref) {
+    return deep ? validate(value, DUMP_SCHEMA.definitions[schema.$ref.split('/').pop()], path, deep) : [];
+  }
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const type = typeOf(value);
+    if (types.indexOf(type) < 0 && !(type === 'integer' && types.indexOf('number') >= 0)) {
+      return [{path, message: `expected ${types.join(' or ')} but got ${type}`}];
+    }
+  }
+  const problems: IDumpProblem[] = [];
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    problems.push({path, message: `expected at least ${schema.minimum} but got ${value}`});
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    problems.push({path, message: `expected at most ${schema.maximum} but got ${value}`});
+  }
+  (schema.required || []).forEach((key) => {
+    if (value[key] === undefined) {
+      problems.push({path, message: `missing required attribute: ${key}`});
+    }
+  });
+  Object.keys(schema.properties || {}).forEach((key) => {
+    if (value[key] !== undefined) {
+      problems.push(...validate(value[key], schema.properties[key], path ? `${path}.${key}` : key, deep));
+    }
+  });
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((item, i) => problems.push(...validate(item, schema.items, `${path}[${i}]`, deep)));
+  }
+  return problems;
+}
+
+/**
+ * validates a ranking dump, without the dumps of its columns
+ * @param ranking
+ * @param path
+ * @returns {IDumpProblem[]}
+ */
+export function validateRankingDump(ranking: any, path: string) {
+  return validate(ranking, DUMP_SCHEMA.definitions.ranking, path, false);
+}
+
+/**
+ * validates a column dump, without the dumps of its children
+ * @param column
+ * @param path
+ * @returns {IDumpProblem[]}
+ */
+export function validateColumnDump(column: any, path: string) {
+  return validate(column, DUMP_SCHEMA.definitions.column, path, false);
+}
+
+/**
+ * validates the given dump of the current version against the DUMP_SCHEMA and checks the references to columns within the rankings
+ * @param dump
+ * @returns {IDumpProblem[]} the detected problems, empty if valid
+ */
+export function validateDump(dump: any): IDumpProblem[] {
+  const problems = validate(dump, DUMP_SCHEMA, '', true);
+  if (problems.length > 0) {
+    return problems;
+  }
+  dump.rankings.forEach((ranking, i) => {
+    const ids = new Set<string>();
+    const collect = (column: any) => {
+      ids.add(column.id);
+      (column.children || []).forEach(collect);
+    };
+    ranking.columns.forEach(collect);
+    const topLevel = ranking.columns.map((c) => c.id);
+    (ranking.sortCriterias || []).forEach((s, j) => {
+      if (topLevel.indexOf(s.sortBy) < 0) {
+        problems.push({path: `rankings[${i}].sortCriterias[${j}]`, message: `unknown sort column: ${s.sortBy}`});
+      }
+    });
+    if (ranking.groupCriteria !== undefined && !ids.has(ranking.groupCriteria)) {
+      problems.push({path: `rankings[${i}].groupCriteria`, message: `unknown group column: ${ranking.groupCriteria}`});
+    }
+  });
+  return problems;
+}
@@ -0,0 +1,272 @@
+import {isNumberColumn} from '../model/NumberColumn';
+import {IExportData, IExportColumn} from './ADataProvider';
+
+/**
+ * mime type of the XLSX export
+ */
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+function toText(v: any) {
+  if (v instanceof Date) {
+    return v.toISOString();
+  }
+  return v == null ? '' : String(v);
+}
+
+/**
+ * makes the column labels unique by numbering the duplicates, e.g. A, A (2)
+ * @param columns
+ * @returns {string[]}
+ */
+function uniqueLabels(columns: IExportColumn[]) {
+  const used = new Set<string>();
+  return columns.map(({label}) => {
+    let unique = label;
+    for (let i = 2; used.has(unique); ++i) {
+      unique = `${label} (${i})`;
+    }
+    used.add(unique);
+    return unique;
+  });
+}
+
+/**
+ * converts the exported rows to a JSON array of objects using the column labels as keys
+ * @param data
+ * @param space indentation, see JSON.stringify
+ * @returns {string}
+ */
+export function toJSON(data: IExportData, space: string | number = 2) {
+  const keys = uniqueLabels(data.columns);
+  const rows = data.rows.map((row) => {
+    const r: any = {};
+    keys.forEach((key, i) => r[key] = row[i]);
+    return r;
+  });
+  return JSON.stringify(rows, null, space);
+}
+
+function escapeHTML(v: any) {
+  return toText(v).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * generates the header rows of a HTML table, nested columns get an additional header row per level spanning their children
+ * @param columns
+ * @returns {string[]}
+ */
+function toHTMLHeader(columns: IExportColumn[]) {
+  const depth = Math.max(1, ...columns.map((c) => c.parents.length + 1));
+  const rows: string[] = [];
+  for (let level = 0; level < depth; ++level) {
+    const cells: string[] = [];
+    columns.forEach((c, i) => {
+      if (c.parents.length === level) {
+        cells.push(`<th rowspan="${depth - level}">${escapeHTML(c.column.label)}</th>`);
+      } else if (c.parents.length > level) {
+        const parent = c.parents[level];
+        const prev = columns[i - 1];
+        if (prev && prev.parents[level] === parent) {
+          return; //already covered by the colspan
+        }
+        let span = 1;
+        while (i + span < columns.length && columns[i + span].parents[level] === parent) {
+          span++;
+        }
+        cells.push(`<th colspan="${span}">${escapeHTML(parent.label)}</th>`);
+      }
+    });
+    rows.push(`<tr>${cells.join('')}</tr>`);
+  }
+  return rows;
+}
+
+/**
+ * converts the exported rows to a HTML table
+ * @param data
+ * @returns {string}
+ */
+export function toHTML(data: IExportData) {
+  const align = data.columns.map((c) => isNumberColumn(c.column) ? ' class="number"' : '');
+  const body = data.rows.map((row) => `<tr>${row.map((v, i) => `<td${align[i]}>${escapeHTML(v)}</td>`).join('')}</tr>`);
+  return `<table>
+<thead>
+${toHTMLHeader(data.columns).join('\n')}
+</thead>
+<tbody>
+${body.join('\n')}
+</tbody>
+</table>`;
+}
+
+function escapeMarkdown(v: any) {
+  return toText(v).replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * converts the exported rows to a Markdown table, number columns are right aligned
+ * @param data
+ * @returns {string}
+ */
+export function toMarkdown(data: IExportData) {
+  const r = [
+    `| ${data.columns.map((c) => escapeMarkdown(c.label)).join(' | ')} |`,
+    `|${data.columns.map((c) => isNumberColumn(c.column) ? ' ---: ' : ' --- ').join('|')}|`
+  ];
+  data.rows.forEach((row) => r.push(`| ${row.map(escapeMarkdown).join(' | ')} |`));
+  return r.join('\n');
+}
+
+function escapeXML(v: any) {
+  return escapeHTML(v).replace(/'/g, '&apos;');
+}
+
+/**
+ * converts a zero based column index to its spreadsheet name, i.e. A, B, ..., Z, AA, ...
+ * @param index
+ * @returns {string}
+ */
+function toColumnName(index: number) {
+  let r = '';
+  for (let i = index + 1; i > 0; i = Math.floor((i - 1) / 26)) {
+    r = String.fromCharCode(65 + (i - 1) % 26) + r;
+  }
+  return r;
+}
+
+function toSheet(data: IExportData) {
+  const toCell = (v: any, ref: string) => {
+    if (typeof v === 'number') {
+      return isFinite(v) ? `<c r="${ref}"><v>${v}</v></c>` : '';
+    }
+    return `<c r="${ref}" t="inlineStr"><is><t>${escapeXML(v)}</t></is></c>`;
+  };
+  const rows = [data.columns.map((c) => c.label)].concat(data.rows).map((row, i) => {
+    return `<row r="${i + 1}">${row.map((v, j) => toCell(v, toColumnName(j) + (i + 1))).join('')}</row>`;
+  });
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+}
+
+const XLSX_FILES = {
+  '[Content_Types].xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+  '_rels/.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+  'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="LineUp" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+  'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`
+};
+
+function toUTF8(text: string) {
+  const binary = encodeURIComponent(text).replace(/%([0-9A-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+  const r = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; ++i) {
+    r[i] = binary.charCodeAt(i);
+  }
+  return r;
+}
+
+let crcTable: number[] = null;
+
+/* tslint:disable:no-bitwise prefer-for-of */
+function crc32(bytes: Uint8Array) {
+  if (crcTable === null) {
+    crcTable = [];
+    for (let n = 0; n < 256; ++n) {
+      let c = n;
+      for (let k = 0; k < 8; ++k) {
+        c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; ++i) {
+    crc = crcTable[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+}
+/* tslint:enable:no-bitwise prefer-for-of */
+
+/**
+ * creates an uncompressed zip archive
+ * @param files file name to content
+ * @returns {Uint8Array}
+ */
+function zip(files: {[name: string]: string}) {
+  const entries = Object.keys(files).map((name) => {
+    const content = toUTF8(files[name]);
+    return {name: toUTF8(name), content, crc: crc32(content), offset: 0};
+  });
+  const size = entries.reduce((acc, e) => acc + 30 + e.name.length + e.content.length + 46 + e.name.length, 22);
+  const r = new Uint8Array(size);
+  const view = new DataView(r.buffer);
+  let pos = 0;
+  const u16 = (v: number) => {
+    view.setUint16(pos, v, true);
+    pos += 2;
+  };
+  const u32 = (v: number) => {
+    view.setUint32(pos, v, true);
+    pos += 4;
+  };
+  const bytes = (v: Uint8Array) => {
+    r.set(v, pos);
+    pos += v.length;
+  };
+  //version, flags, method (stored), time, date (1980-01-01)
+  const common = (e: {name: Uint8Array, content: Uint8Array, crc: number}) => {
+    u16(20);
+    u16(0);
+    u16(0);
+    u16(0);
+    u16(0x21);
+    u32(e.crc);
+    u32(e.content.length);
+    u32(e.content.length);
+    u16(e.name.length);
+    u16(0);
+  };
+
+  entries.forEach((e) => {
+    e.offset = pos;
+    u32(0x04034b50); //local file header
+    common(e);
+    bytes(e.name);
+    bytes(e.content);
+  });
+  const directory = pos;
+  entries.forEach((e) => {
+    u32(0x02014b50); //central directory header
+    u16(20); //version made by
+    common(e);
+    u16(0); //comment length
+    u16(0); //disk number
+    u16(0); //internal attributes
+    u32(0); //external attributes
+    u32(e.offset);
+    bytes(e.name);
+  });
+  const directorySize = pos - directory;
+  u32(0x06054b50); //end of central directory
+  u16(0);
+  u16(0);
+  u16(entries.length);
+  u16(entries.length);
+  u32(directorySize);
+  u32(directory);
+  u16(0);
+  return r;
+}
+
+/**
+ * converts the exported rows to an Excel compatible XLSX file, e.g., to be downloaded as Blob of the XLSX_MIME_TYPE
+ * @param data
+ * @returns {Uint8Array} the content of the file
+ */
+export function toXLSX(data: IExportData) {
+  const files = Object.assign({}, XLSX_FILES, {'xl/worksheets/sheet1.xml': toSheet(data)});
+  return zip(files);
+}
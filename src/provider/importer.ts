@@ -0,0 +1,215 @@
+import * as d3 from 'd3';
+import {IColumnDesc} from '../model/Column';
+import {merge} from '../utils';
+
+export interface IImportOptions {
+  /**
+   * import separator, default: '\t'
+   */
+  separator?: string;
+  /**
+   * new line character, a trailing '\r' of a line is ignored, default: '\n'
+   */
+  newline?: string;
+  /**
+   * is the first line a header, default: true
+   */
+  header?: boolean;
+  /**
+   * quote string to use, default: '"'
+   */
+  quoteChar?: string;
+  /**
+   * whether the header contains the description after the label separated by a new line, default: false
+   */
+  verboseColumnHeaders?: boolean;
+
+  /**
+   * maximal number of distinct values of a column to be inferred as categorical, default: 20
+   */
+  maxCategories?: number;
+}
+
+export interface IImportResult {
+  /**
+   * the parsed rows, the values are converted according to the inferred column type
+   */
+  data: any[];
+  /**
+   * the inferred column descriptions, their column attribute is the key of the value within a row
+   */
+  columns: IColumnDesc[];
+}
+
+/**
+ * splits the given delimited text in its rows and cells respecting quoted cells
+ * @param text
+ * @param options
+ * @returns {string[][]}
+ */
+export function parseTable(text: string, options: IImportOptions = {}): string[][] {
+  options = merge({
+    separator: '\t',
+    newline: '\n',
+    quoteChar: '"'
+  }, options);
+  const {separator, newline, quoteChar} = options;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let i = 0;
+
+  const startsWith = (s: string) => text.substr(i, s.length) === s;
+  const endCell = () => {
+    row.push(cell);
+    cell = '';
+  };
+  const endRow = () => {
+    endCell();
+    //ignore the trailing \r of windows line endings
+    if (newline === '\n' && /\r$/.test(row[row.length - 1])) {
+      row[row.length - 1] = row[row.length - 1].slice(0, -1);
+    }
+    rows.push(row);
+    row = [];
+  };
+
+  while (i < text.length) {
+    if (quoted) {
+      if (startsWith(quoteChar + quoteChar)) { //escaped quote
+        cell += quoteChar;
+        i += 2 * quoteChar.length;
+      } else if (startsWith(quoteChar)) {
+        quoted = false;
+        i += quoteChar.length;
+      } else {
+        cell += text[i++];
+      }
+    } else if (cell.length === 0 && startsWith(quoteChar)) {
+      quoted = true;
+      i += quoteChar.length;
+    } else if (startsWith(separator)) {
+      endCell();
+      i += separator.length;
+    } else if (startsWith(newline)) {
+      endRow();
+      i += newline.length;
+    } else {
+      cell += text[i++];
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    endRow();
+  }
+  return rows;
+}
+
+function isMissing(v: string) {
+  return v === '' || v === 'NaN';
+}
+
+const NUMBER = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+const LINK = /^(https?|ftp):\/\/\S+$/;
+const MULTI_VALUE = /^\[(.*)\]$/;
+
+const BOOLEAN_MARKERS = [['true', 'false'], ['yes', 'no'], ['x', '']];
+
+function parseMultiValue(v: string) {
+  const inner = v.match(MULTI_VALUE)[1].trim();
+  return inner.length === 0 ? [] : inner.split(',').map((d) => d.trim());
+}
+
+/**
+ * infers the column description of the given values and converts them accordingly
+ * @param column the key of the column
+ * @param label
+ * @param values the raw values of the column
+ * @param maxCategories
+ * @returns {{desc: IColumnDesc, values: any[]}}
+ */
+function inferColumn(column: string, label: string, values: string[], maxCategories: number): {desc: any, values: any[]} {
+  const given = values.filter((v) => !isMissing(v));
+  const base = {label, column};
+
+  if (given.length === 0) {
+    return {desc: Object.assign({type: 'string'}, base), values};
+  }
+
+  const lower = values.map((v) => v.toLowerCase());
+  const markers = BOOLEAN_MARKERS.find(([t, f]) => lower.every((v) => v === t || v === f || v === ''));
+  if (markers) {
+    return {desc: Object.assign({type: 'boolean'}, base), values: lower.map((v) => v === markers[0])};
+  }
+
+  if (given.every((v) => NUMBER.test(v))) {
+    const numbers = values.map((v) => isMissing(v) ? NaN : parseFloat(v));
+    const domain = d3.extent(numbers.filter((v) => !isNaN(v)));
+    return {desc: Object.assign({type: 'number', domain}, base), values: numbers};
+  }
+
+  if (given.every((v) => MULTI_VALUE.test(v) && parseMultiValue(v).every((d) => NUMBER.test(d)))) {
+    const arrays = values.map((v) => isMissing(v) ? null : parseMultiValue(v).map(parseFloat));
+    const valid = arrays.filter((v) => v !== null);
+    const domain = d3.extent([].concat(...valid));
+    const dataLength = d3.max(valid, (v) => v.length);
+    return {desc: Object.assign({type: 'multiValue', domain, dataLength}, base), values: arrays};
+  }
+
+  if (given.every((v) => LINK.test(v))) {
+    return {desc: Object.assign({type: 'link'}, base), values};
+  }
+
+  const categories = d3.set(given).values().sort();
+  if (categories.length <= maxCategories && categories.length < given.length) {
+    return {desc: Object.assign({type: 'categorical', categories}, base), values};
+  }
+  return {desc: Object.assign({type: 'string'}, base), values};
+}
+
+/**
+ * parses the given delimited text, e.g. created by ADataProvider.exportTable, and infers the column descriptions out of its values
+ * @param text
+ * @param options
+ * @returns {IImportResult}
+ */
+export function importTable(text: string, options: IImportOptions = {}): IImportResult {
+  options = merge({
+    separator: '\t',
+    newline: '\n',
+    header: true,
+    quoteChar: '"',
+    verboseColumnHeaders: false,
+    maxCategories: 20
+  }, options);
+
+  const rows = parseTable(text, options);
+  const header = options.header && rows.length > 0 ? rows.shift() : [];
+  const numColumns = d3.max([header].concat(rows), (r) => r.length) || 0;
+
+  //unique keys out of the header labels
+  const used = new Set<string>();
+  const columns = d3.range(numColumns).map((i) => {
+    const cell = header[i] === undefined ? `Column ${i + 1}` : header[i];
+    const split = options.verboseColumnHeaders ? cell.indexOf('\n') : -1;
+    const label = split >= 0 ? cell.slice(0, split) : cell;
+    let key = label;
+    for (let j = 2; used.has(key); ++j) {
+      key = `${label} (${j})`;
+    }
+    used.add(key);
+    return {key, label, description: split >= 0 ? cell.slice(split + 1) : undefined};
+  });
+
+  const data = rows.map(() => ({}));
+  const descs = columns.map((c, i) => {
+    const {desc, values} = inferColumn(c.key, c.label, rows.map((r) => r[i] === undefined ? '' : r[i]), options.maxCategories);
+    values.forEach((v, j) => data[j][c.key] = v);
+    if (c.description !== undefined) {
+      desc.description = c.description;
+    }
+    return <IColumnDesc>desc;
+  });
+  return {data, columns: descs};
+}
@@ -2,6 +2,12 @@
  * Created by Samuel Gratzl on 14.08.2015.
  */
 
-export {default as DataProvider, IDataProviderOptions, IExportOptions} from './ADataProvider';
+export {default as DataProvider, IDataProviderOptions, IExportOptions, IExportColumn, IExportData} from './ADataProvider';
 export {default as LocalDataProvider, ILocalDataProviderOptions} from './LocalDataProvider';
-export {default as RemoteDataProvider, IServerData} from './RemoteDataProvider';
+export {default as RemoteDataProvider, IServerData, IServerSortResult} from './RemoteDataProvider';
+export {default as HTTPServerData} from './HTTPServerData';
+export {default as LocalServerData} from './LocalServerData';
+export {importTable, parseTable, IImportOptions, IImportResult} from './importer';
+export {toJSON, toHTML, toMarkdown, toXLSX, XLSX_MIME_TYPE} from './exporter';
+export {default as History, IHistoryOptions, IHistoryEntry} from './History';
+export {DUMP_VERSION, DUMP_SCHEMA, IDumpProblem, migrateDump, validateDump} from './dump';
@@ -0,0 +1,86 @@
+import {INumberColumn} from '../model/NumberColumn';
+import {ICategoricalColumn} from '../model/CategoricalColumn';
+import LocalDataProvider, {sortGroups} from './LocalDataProvider';
+import {IWorkerRequest, IWorkerResponse} from './WorkerClient';
+
+/**
+ * the worker side of the WorkerClient, requests are processed one after the other in separate tasks such that cancel requests can be handled in between
+ * @param scope the worker global scope
+ */
+export function initWorker(scope: {onmessage: (evt: MessageEvent) => any, postMessage(msg: IWorkerResponse): void}) {
+  let provider = new LocalDataProvider([]);
+  const queue: IWorkerRequest[] = [];
+  let scheduled = false;
+
+  const handle = (msg: IWorkerRequest): Promise<any> => {
+    switch (msg.type) {
+      case 'init':
+        provider = new LocalDataProvider(msg.data, msg.columns);
+        return null;
+      case 'append':
+        provider.appendData(msg.data);
+        return null;
+      case 'update':
+        msg.indices.forEach((index, i) => provider.data[index] = msg.data[i]);
+        return null;
+      case 'columns':
+        provider = new LocalDataProvider(provider.data, msg.columns);
+        return null;
+      case 'sort': {
+        const ranking = provider.restoreRanking(msg.ranking);
+        const filters = msg.filters.map((f) => provider.restoreRanking(f));
+        return Promise.resolve(sortGroups(provider.data, ranking, filters));
+      }
+      case 'stats':
+        return provider.stats(msg.indices).stats(<INumberColumn><any>provider.restoreColumn(msg.column));
+      case 'hist':
+        return provider.stats(msg.indices).hist(<ICategoricalColumn><any>provider.restoreColumn(msg.column));
+    }
+    return null;
+  };
+
+  const next = () => {
+    if (scheduled || queue.length === 0) {
+      return;
+    }
+    scheduled = true;
+    //in a new task to receive messages in the meanwhile
+    setTimeout(() => {
+      const msg = queue.shift();
+      const done = () => {
+        scheduled = false;
+        next();
+      };
+      let r: Promise<any>;
+      try {
+        r = handle(msg);
+      } catch (error) {
+        r = Promise.reject(error);
+      }
+      if (msg.id === undefined) {
+        done();
+        return;
+      }
+      Promise.resolve(r).then((result) => {
+        scope.postMessage({id: msg.id, result});
+        done();
+      }, (error) => {
+        scope.postMessage({id: msg.id, error: String(error)});
+        done();
+      });
+    }, 0);
+  };
+
+  scope.onmessage = (evt: MessageEvent) => {
+    const msg = <IWorkerRequest>evt.data;
+    if (msg.type === 'cancel') {
+      const index = queue.findIndex((d) => d.id === msg.id);
+      if (index >= 0) {
+        queue.splice(index, 1);
+      }
+      return;
+    }
+    queue.push(msg);
+    next();
+  };
+}
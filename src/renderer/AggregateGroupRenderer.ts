@@ -0,0 +1,112 @@
+import AggregateGroupColumn from '../model/AggregateGroupColumn';
+import {ISVGCellRenderer, IHTMLCellRenderer, ISVGGroupRenderer, IHTMLGroupRenderer} from './IDOMCellRenderers';
+import {IDataRow} from '../provider/ADataProvider';
+import {ICanvasRenderContext} from './RendererContexts';
+import ICanvasCellRenderer, {ICanvasGroupRenderer} from './ICanvasCellRenderer';
+import {clipText} from '../utils';
+import ICellRendererFactory from './ICellRendererFactory';
+import {IGroup, IOrderedGroup} from '../model/Group';
+
+const COLLAPSE_ICON = '\uf0dd'; //fa-caret-down
+const EXPAND_ICON = '\uf0da'; //fa-caret-right
+
+/**
+ * returns the group in case the given row is the first row of its group
+ * @param col
+ * @param d
+ * @returns {IOrderedGroup}
+ */
+function firstOfGroup(col: AggregateGroupColumn, d: IDataRow): IOrderedGroup {
+  const ranking = col.findMyRanker();
+  if (!ranking || ranking.getGroupCriteria() === null) {
+    return null;
+  }
+  const group = ranking.findGroup(d.dataIndex);
+  return group && group.order[0] === d.dataIndex ? group : null;
+}
+
+/**
+ * renders a toggle for (un)aggregating the group of the row
+ */
+export default class AggregateGroupRenderer implements ICellRendererFactory {
+  createSVG(col: AggregateGroupColumn): ISVGCellRenderer {
+    return {
+      template: `<text class='aggregate fa'></text>`,
+      update: (n: SVGTextElement, d: IDataRow) => {
+        const group = firstOfGroup(col, d);
+        n.textContent = group ? COLLAPSE_ICON : '';
+        n.onclick = function (event) {
+          event.preventDefault();
+          event.stopPropagation();
+          if (group) {
+            col.setAggregated(group, true);
+          }
+        };
+      }
+    };
+  }
+
+  createHTML(col: AggregateGroupColumn): IHTMLCellRenderer {
+    return {
+      template: `<div class='aggregate fa' title='Collapse group'></div>`,
+      update: (n: HTMLElement, d: IDataRow) => {
+        const group = firstOfGroup(col, d);
+        n.textContent = group ? COLLAPSE_ICON : '';
+        n.onclick = function (event) {
+          event.preventDefault();
+          event.stopPropagation();
+          if (group) {
+            col.setAggregated(group, true);
+          }
+        };
+      }
+    };
+  }
+
+  createCanvas(col: AggregateGroupColumn, context: ICanvasRenderContext): ICanvasCellRenderer {
+    return (ctx: CanvasRenderingContext2D, d: IDataRow) => {
+      if (!firstOfGroup(col, d)) {
+        return;
+      }
+      const bak = ctx.font;
+      ctx.font = '10pt FontAwesome';
+      clipText(ctx, COLLAPSE_ICON, 0, 0, col.getWidth(), context.textHints);
+      ctx.font = bak;
+    };
+  }
+
+  createGroupSVG(col: AggregateGroupColumn): ISVGGroupRenderer {
+    return {
+      template: `<text class='aggregate fa'>${EXPAND_ICON}</text>`,
+      update: (n: SVGTextElement, group: IGroup) => {
+        n.onclick = function (event) {
+          event.preventDefault();
+          event.stopPropagation();
+          col.setAggregated(group, false);
+        };
+      }
+    };
+  }
+
+  createGroupHTML(col: AggregateGroupColumn): IHTMLGroupRenderer {
+    return {
+      template: `<div class='aggregate fa' title='Expand group'>${EXPAND_ICON}</div>`,
+      update: (n: HTMLElement, group: IGroup) => {
+        n.onclick = function (event) {
+          event.preventDefault();
+          event.stopPropagation();
+          col.setAggregated(group, false);
+        };
+      }
+    };
+  }
+
+  createGroupCanvas(col: AggregateGroupColumn, context: ICanvasRenderContext): ICanvasGroupRenderer {
+    return (ctx: CanvasRenderingContext2D) => {
+      const bak = ctx.font;
+      ctx.font = '10pt FontAwesome';
+      clipText(ctx, EXPAND_ICON, 0, 0, col.getWidth(), context.textHints);
+      ctx.font = bak;
+    };
+  }
+}
@@ -1,13 +1,83 @@
 import ICellRendererFactory from './ICellRendererFactory';
 import Column from '../model/Column';
-import {INumberColumn} from '../model/NumberColumn';
+import NumberColumn, {INumberColumn} from '../model/NumberColumn';
 import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
-import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
+import {ISVGCellRenderer, IHTMLCellRenderer, ISVGGroupRenderer, IHTMLGroupRenderer} from './IDOMCellRenderers';
 import {IDataRow} from '../provider/ADataProvider';
 import {attr, clipText} from '../utils';
-import ICanvasCellRenderer from './ICanvasCellRenderer';
+import ICanvasCellRenderer, {ICanvasGroupRenderer} from './ICanvasCellRenderer';
+import {IGroup} from '../model/Group';
+import {IBoxPlotData} from '../model/BoxPlotColumn';
+import {computeLabel, toBoxPlotPath, renderBoxPlot} from './BoxplotCellRenderer';
+import {ascending, quantile} from 'd3';
+
+/**
+ * computes the box plot of the normalized values of the given rows scaled to the given width
+ * @param col
+ * @param rows
+ * @param width
+ * @returns {{raw: IBoxPlotData, scaled: IBoxPlotData}} or null if there are no valid values
+ */
+function computeBoxPlot(col: INumberColumn, rows: IDataRow[], width: number) {
+  const values = rows.map((d) => col.getNumber(d.v, d.dataIndex)).filter((v) => !isNaN(v)).sort(ascending);
+  if (values.length === 0) {
+    return null;
+  }
+  const raw: IBoxPlotData = {
+    min: values[0],
+    max: values[values.length - 1],
+    median: quantile(values, 0.5),
+    q1: quantile(values, 0.25),
+    q3: quantile(values, 0.75)
+  };
+  const scaled: IBoxPlotData = {
+    min: raw.min * width,
+    max: raw.max * width,
+    median: raw.median * width,
+    q1: raw.q1 * width,
+    q3: raw.q3 * width
+  };
+  return {raw, scaled};
+}
 
 
+/**
+ * whether the value of the row is missing and thus imputed or excluded
+ */
+function isMissing(col: INumberColumn & Column, d: IDataRow) {
+  return col instanceof NumberColumn && col.isMissing(d.v, d.dataIndex);
+}
+
+/**
+ * the bar width, excluded missing values are shown as full hatched bar
+ */
+function barWidth(col: INumberColumn & Column, d: IDataRow, missing: boolean) {
+  const width = col.getWidth() * col.getNumber(d.v, d.dataIndex);
+  if (isNaN(width)) {
+    return missing ? col.getWidth() : 0;
+  }
+  return width;
+}
+
+let hatch: HTMLCanvasElement = null;
+
+/**
+ * lazily creates the canvas pattern of the diagonal white lines of missing values
+ */
+function hatchPattern(ctx: CanvasRenderingContext2D) {
+  if (!hatch) {
+    hatch = document.createElement('canvas');
+    hatch.width = hatch.height = 4;
+    const c = hatch.getContext('2d');
+    c.strokeStyle = 'rgba(255, 255, 255, 0.7)';
+    c.beginPath();
+    c.moveTo(0, 4);
+    c.lineTo(4, 0);
+    c.stroke();
+  }
+  return ctx.createPattern(hatch, 'repeat');
+}
+
 /**
  * a renderer rendering a bar for numerical columns
  */
@@ -27,19 +97,28 @@ export default class BarCellRenderer implements ICellRendererFactory {
           <rect class='${col.cssClass}' y='${paddingTop}' style='fill: ${col.color}'>
             <title></title>
           </rect>
+          <rect class='hatch' y='${paddingTop}' style='fill: url(#${context.idPrefix}MissingHatch)'></rect>
           <text class='number ${this.renderValue ? '' : 'hoverOnly'}' clip-path='url(#cp${context.idPrefix}clipCol${col.id})'></text>
         </g>`,
       update: (n: SVGGElement, d: IDataRow, i: number) => {
         n.querySelector('rect title').textContent = col.getLabel(d.v, d.dataIndex);
-        const width = col.getWidth() * col.getValue(d.v, d.dataIndex);
+        const missing = isMissing(col, d);
 
+        const width = barWidth(col, d, missing);
+        const height = context.rowHeight(i) - (paddingTop + paddingBottom);
         attr(<SVGRectElement>n.querySelector('rect'), {
           y: paddingTop,
-          width: isNaN(width) ? 0 : width,
-          height: context.rowHeight(i) - (paddingTop + paddingBottom)
+          width,
+          height
         }, {
           fill: this.colorOf(d.v, i, col)
         });
+        //the diagonal lines of missing values, see the pattern of the SVGBodyRenderer
+        attr(<SVGRectElement>n.querySelector('rect.hatch'), {
+          y: paddingTop,
+          width: missing ? width : 0,
+          height
+        });
         attr(<SVGTextElement>n.querySelector('text'), {}).textContent = col.getLabel(d.v, d.dataIndex);
       }
     };
@@ -53,11 +132,12 @@ export default class BarCellRenderer implements ICellRendererFactory {
           <span class='number ${this.renderValue ? '' : 'hoverOnly'}'></span>
         </div>`,
       update: (n: HTMLDivElement, d: IDataRow, i: number) => {
-        const width = col.getWidth() * col.getValue(d.v, d.dataIndex);
+        const missing = isMissing(col, d);
         attr(n, {
+          'class': `bar ${missing ? 'missing' : ''}`,
           title: col.getLabel(d.v, d.dataIndex)
         }, {
-          width: `${isNaN(width) ? 0 : width}px`,
+          width: `${barWidth(col, d, missing)}px`,
           height: `${context.rowHeight(i) - (paddingTop + paddingBottom)}px`,
           top: `${paddingTop}px`,
           'background-color': this.colorOf(d.v, i, col)
@@ -72,12 +152,95 @@ export default class BarCellRenderer implements ICellRendererFactory {
     const paddingBottom = context.option('rowBarBottomPadding', context.option('rowBarPadding', 1));
     return (ctx: CanvasRenderingContext2D, d: IDataRow, i: number) => {
       ctx.fillStyle = this.colorOf(d.v, i, col);
-      const width = col.getWidth() * col.getValue(d.v, d.dataIndex);
-      ctx.fillRect(0, paddingTop, isNaN(width) ? 0 : width, context.rowHeight(i) - (paddingTop + paddingBottom));
+      const missing = isMissing(col, d);
+      const width = barWidth(col, d, missing);
+      const height = context.rowHeight(i) - (paddingTop + paddingBottom);
+      ctx.fillRect(0, paddingTop, width, height);
+      if (missing) {
+        ctx.fillStyle = hatchPattern(ctx);
+        ctx.fillRect(0, paddingTop, width, height);
+      }
       if (this.renderValue || context.hovered(d.dataIndex) || context.selected(d.dataIndex)) {
         ctx.fillStyle = context.option('style.text', 'black');
         clipText(ctx, col.getLabel(d.v, d.dataIndex), 1, 0, col.getWidth() - 1, context.textHints);
       }
     };
   }
+
+  /**
+   * an aggregated group is rendered as a box plot of the normalized values
+   */
+  createGroupSVG(col: INumberColumn & Column, context: IDOMRenderContext): ISVGGroupRenderer {
+    const topPadding = 2.5 * (context.option('rowBarPadding', 1));
+    return {
+      template: `<g class='boxplotcell'>
+            <title></title>
+            <rect class='boxplotrect' y='${topPadding}'></rect>
+            <path class='boxplotallpath'></path>
+        </g>`,
+      update: (n: SVGGElement, group: IGroup, rows: IDataRow[]) => {
+        const rowHeight = context.rowHeight(0);
+        const box = computeBoxPlot(col, rows, col.getWidth());
+        n.querySelector('title').textContent = box ? computeLabel(box.raw) : '';
+        attr(<SVGElement>n.querySelector('rect.boxplotrect'), {
+          x: box ? box.scaled.q1 : 0,
+          width: box ? box.scaled.q3 - box.scaled.q1 : 0,
+          height: rowHeight - (topPadding * 2)
+        });
+        attr(<SVGPathElement>n.querySelector('path.boxplotallpath'), {
+          d: box ? toBoxPlotPath(box.scaled, topPadding, rowHeight) : ''
+        });
+      }
+    };
+  }
+
+  createGroupHTML(col: INumberColumn & Column, context: IDOMRenderContext): IHTMLGroupRenderer {
+    const topPadding = 2.5 * (context.option('rowBarPadding', 1));
+    return {
+      template: `<div class='boxplotcell'>
+          <div class='boxplotwhisker'></div>
+          <div class='boxplotrect' style='top:${topPadding}px'></div>
+          <div class='boxplotmedian' style='top:${topPadding}px'></div>
+        </div>`,
+      update: (n: HTMLDivElement, group: IGroup, rows: IDataRow[]) => {
+        const rowHeight = context.rowHeight(0);
+        const box = computeBoxPlot(col, rows, col.getWidth());
+        attr(n, {
+          title: box ? computeLabel(box.raw) : ''
+        }, {
+          width: `${col.getWidth()}px`,
+          height: `${rowHeight}px`,
+          display: box ? null : 'none'
+        });
+        if (!box) {
+          return;
+        }
+        const scaled = box.scaled;
+        attr(<HTMLElement>n.querySelector('div.boxplotwhisker'), {}, {
+          left: `${scaled.min}px`,
+          width: `${scaled.max - scaled.min}px`,
+          top: `${Math.round((rowHeight - topPadding) / 2)}px`
+        });
+        attr(<HTMLElement>n.querySelector('div.boxplotrect'), {}, {
+          left: `${scaled.q1}px`,
+          width: `${scaled.q3 - scaled.q1}px`,
+          height: `${rowHeight - topPadding * 2}px`
+        });
+        attr(<HTMLElement>n.querySelector('div.boxplotmedian'), {}, {
+          left: `${scaled.median}px`,
+          height: `${rowHeight - topPadding * 2}px`
+        });
+      }
+    };
+  }
+
+  createGroupCanvas(col: INumberColumn & Column, context: ICanvasRenderContext): ICanvasGroupRenderer {
+    const topPadding = 2.5 * (context.option('rowBarPadding', 1));
+    return (ctx: CanvasRenderingContext2D, group: IGroup, rows: IDataRow[]) => {
+      const box = computeBoxPlot(col, rows, col.getWidth());
+      if (box) {
+        renderBoxPlot(ctx, box.scaled, topPadding, context.rowHeight(0));
+      }
+    };
+  }
 }
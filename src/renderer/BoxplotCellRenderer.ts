@@ -4,18 +4,136 @@ import Column from '../model/Column';
 import {IDOMRenderContext} from './RendererContexts';
 import {ISVGCellRenderer} from './IDOMCellRenderers';
 import {IDataRow} from '../provider/ADataProvider';
-import {attr} from '../utils';
+import {attr, forEach} from '../utils';
 import {ICanvasRenderContext} from './RendererContexts';
 import ICanvasCellRenderer  from './ICanvasCellRenderer';
 import {scale as d3scale, min as d3min, max as d3max} from 'd3';
 
 
-function computeLabel(v: IBoxPlotData) {
+/**
+ * radius of the circles of the outliers
+ * @type {number}
+ */
+const OUTLIER_RADIUS = 2;
+
+export function computeLabel(v: IBoxPlotData) {
   if (v === null) {
     return '';
   }
   const f = BoxPlotColumn.DEFAULT_FORMATTER;
-  return `min = ${f(v.min)}\nq1 = ${f(v.q1)}\nmedian = ${f(v.median)}\nq3 = ${f(v.q3)}\nmax = ${f(v.max)}`;
+  const mean = v.mean !== undefined ? `\nmean = ${f(v.mean)}` : '';
+  const outliers = v.outliers && v.outliers.length > 0 ? `\noutliers = ${v.outliers.map(f).join(', ')}` : '';
+  return `min = ${f(v.min)}\nq1 = ${f(v.q1)}\nmedian = ${f(v.median)}\nq3 = ${f(v.q3)}\nmax = ${f(v.max)}${mean}${outliers}`;
+}
+
+/**
+ * computes the svg path of the whiskers and median line of an already scaled box plot
+ * @param scaled the box plot data in pixel space
+ * @param topPadding
+ * @param rowHeight
+ * @returns {string}
+ */
+export function toBoxPlotPath(scaled: IBoxPlotData, topPadding: number, rowHeight: number) {
+  const bottomPos = (rowHeight - topPadding);
+  const middlePos = (rowHeight - topPadding) / 2;
+  return `M${scaled.min},${middlePos}L${scaled.q1},${middlePos}M${scaled.min},${topPadding}L${scaled.min},${bottomPos}` +   //minimum line
+    `M${scaled.median},${topPadding}L${scaled.median},${bottomPos}` +   //median line
+    `M${scaled.q3},${middlePos}L${scaled.max},${middlePos}` +
+    `M${scaled.max},${topPadding}L${scaled.max},${bottomPos}`;   // maximum line
+}
+
+/**
+ * computes the svg path of the outliers as small circles
+ * @param outliers the scaled outliers
+ * @param rowHeight
+ * @returns {string}
+ */
+export function toOutlierPath(outliers: number[], rowHeight: number) {
+  const middlePos = rowHeight / 2;
+  const r = Math.max(1, Math.min(OUTLIER_RADIUS, rowHeight / 4));
+  return outliers.map((x) => `M${x - r},${middlePos}a${r},${r} 0 1,0 ${2 * r},0a${r},${r} 0 1,0 ${-2 * r},0`).join('');
+}
+
+/**
+ * renders the already scaled outliers and mean of a box plot on a canvas
+ * @param ctx
+ * @param scaled the box plot data in pixel space
+ * @param topPadding
+ * @param rowHeight
+ */
+export function renderOutliers(ctx: CanvasRenderingContext2D, scaled: IBoxPlotData, topPadding: number, rowHeight: number) {
+  const middlePos = rowHeight / 2;
+  const r = Math.max(1, Math.min(OUTLIER_RADIUS, rowHeight / 4));
+  ctx.strokeStyle = 'black';
+  (scaled.outliers || []).forEach((x) => {
+    ctx.beginPath();
+    ctx.arc(x, middlePos, r, 0, 2 * Math.PI);
+    ctx.stroke();
+  });
+  if (scaled.mean !== undefined && !isNaN(scaled.mean)) {
+    ctx.save();
+    ctx.setLineDash([2, 2]);
+    ctx.beginPath();
+    ctx.moveTo(scaled.mean, topPadding);
+    ctx.lineTo(scaled.mean, rowHeight - topPadding);
+    ctx.stroke();
+    ctx.restore();
+  }
+}
+
+/**
+ * scales the given box plot data including its outliers and mean
+ * @param box
+ * @param scale
+ * @returns {IBoxPlotData}
+ */
+function scaleBoxPlot(box: IBoxPlotData, scale: (v: number) => number): IBoxPlotData {
+  return {
+    min: scale(box.min),
+    median: scale(box.median),
+    q1: scale(box.q1),
+    q3: scale(box.q3),
+    max: scale(box.max),
+    mean: box.mean === undefined ? undefined : scale(box.mean),
+    outliers: (box.outliers || []).map(scale)
+  };
+}
+
+/**
+ * renders an already scaled box plot on a canvas
+ * @param ctx
+ * @param scaled the box plot data in pixel space
+ * @param topPadding
+ * @param rowHeight
+ */
+export function renderBoxPlot(ctx: CanvasRenderingContext2D, scaled: IBoxPlotData, topPadding: number, rowHeight: number) {
+  const minPos = scaled.min, maxPos = scaled.max, medianPos = scaled.median, q3Pos = scaled.q3, q1Pos = scaled.q1;
+  ctx.fillStyle = '#e0e0e0';
+  ctx.strokeStyle = 'black';
+  ctx.beginPath();
+  ctx.rect((q1Pos), topPadding, ((q3Pos) - (q1Pos)), (rowHeight - (topPadding * 2)));
+  ctx.fill();
+  ctx.stroke();
+
+  //Line
+  const bottomPos = (rowHeight - topPadding);
+  const middlePos = (rowHeight - topPadding) / 2;
+
+  ctx.strokeStyle = 'black';
+  ctx.fillStyle = '#e0e0e0';
+  ctx.beginPath();
+  ctx.moveTo(minPos, middlePos);
+  ctx.lineTo((q1Pos), middlePos);
+  ctx.moveTo(minPos, topPadding);
+  ctx.lineTo(minPos, bottomPos);
+  ctx.moveTo(medianPos, topPadding);
+  ctx.lineTo(medianPos, bottomPos);
+  ctx.moveTo((q3Pos), middlePos);
+  ctx.lineTo(maxPos, middlePos);
+  ctx.moveTo(maxPos, topPadding);
+  ctx.lineTo(maxPos, bottomPos);
+  ctx.stroke();
+  ctx.fill();
 }
 
 export default class BoxplotCellRenderer implements ICellRendererFactory {
@@ -33,22 +151,24 @@ export default class BoxplotCellRenderer implements ICellRendererFactory {
             <rect class='cellbg'></rect>
             <rect class='boxplotrect' y='${topPadding}'></rect>
             <path class='boxplotallpath'></path>
+            <path class='boxplotmeanpath'></path>
+            <path class='boxplotoutliers'></path>
             <path class='boxplotsortpath' style='display: none'></path>
         </g>`,
       update: (n: SVGGElement, d: IDataRow, i: number) => {
         const rawBoxdata = col.getBoxPlotData(d.v, d.dataIndex);
         const rowHeight = context.rowHeight(i);
-        const scaled = {
-          min: scale(rawBoxdata.min),
-          median: scale(rawBoxdata.median),
-          q1: scale(rawBoxdata.q1),
-          q3: scale(rawBoxdata.q3),
-          max: scale(rawBoxdata.max)
-        };
         attr(<SVGElement>n.querySelector('rect.cellbg'),{
           width: col.getWidth(),
           height: rowHeight
         });
+        //missing values are shown as empty cell
+        forEach(n, '.boxplotrect, path', (p) => attr(<SVGElement>p, {}, {visibility: rawBoxdata === null ? 'hidden' : null}));
+        if (rawBoxdata === null) {
+          n.querySelector('title').textContent = '';
+          return;
+        }
+        const scaled = scaleBoxPlot(rawBoxdata, scale);
         n.querySelector('title').textContent = computeLabel(rawBoxdata);
         attr(<SVGElement>n.querySelector('rect.boxplotrect'), {
           x: scaled.q1,
@@ -56,14 +176,14 @@ export default class BoxplotCellRenderer implements ICellRendererFactory {
           height: (rowHeight - (topPadding * 2))
         });
         const bottomPos = (rowHeight - topPadding);
-        const middlePos = (rowHeight - topPadding) / 2;
-        const path = `M${scaled.min},${middlePos}L${scaled.q1},${middlePos}M${scaled.min},${topPadding}L${scaled.min},${bottomPos}` +   //minimum line
-          `M${scaled.median},${topPadding}L${scaled.median},${bottomPos}` +   //median line
-          `M${scaled.q3},${middlePos}L${scaled.max},${middlePos}` +
-          `M${scaled.max},${topPadding}L${scaled.max},${bottomPos}`;   // maximum line
-
         attr(<SVGPathElement>n.querySelector('path.boxplotallpath'), {
-          d: path
+          d: toBoxPlotPath(scaled, topPadding, rowHeight)
+        });
+        attr(<SVGPathElement>n.querySelector('path.boxplotmeanpath'), {
+          d: scaled.mean === undefined || isNaN(scaled.mean) ? '' : `M${scaled.mean},${topPadding}L${scaled.mean},${bottomPos}`
+        });
+        attr(<SVGPathElement>n.querySelector('path.boxplotoutliers'), {
+          d: toOutlierPath(scaled.outliers, rowHeight)
         });
         attr(<SVGPathElement>n.querySelector('path.boxplotsortpath'), {
           d: `M${scaled[sortMethod]},${topPadding}L${scaled[sortMethod]},${bottomPos}`
@@ -87,42 +207,14 @@ export default class BoxplotCellRenderer implements ICellRendererFactory {
 
       // Rectangle
       const rawBoxdata = col.getBoxPlotData(d.v, d.dataIndex);
-      const scaled = {
-        min: scale(rawBoxdata.min),
-        median: scale(rawBoxdata.median),
-        q1: scale(rawBoxdata.q1),
-        q3: scale(rawBoxdata.q3),
-        max: scale(rawBoxdata.max)
-      };
-      const minPos = scaled.min, maxPos = scaled.max, medianPos = scaled.median, q3Pos = scaled.q3, q1Pos = scaled.q1;
-      ctx.fillStyle = '#e0e0e0';
-      ctx.strokeStyle = 'black';
-      ctx.beginPath();
-      ctx.rect((q1Pos), topPadding, ((q3Pos) - (q1Pos)), (rowHeight - (topPadding * 2)));
-      ctx.fill();
-      ctx.stroke();
-
-      //Line
-      const bottomPos = (rowHeight - topPadding);
-      const middlePos = (rowHeight - topPadding) / 2;
-
-      ctx.strokeStyle = 'black';
-      ctx.fillStyle = '#e0e0e0';
-      ctx.beginPath();
-      ctx.moveTo(minPos, middlePos);
-      ctx.lineTo((q1Pos), middlePos);
-      ctx.moveTo(minPos, topPadding);
-      ctx.lineTo(minPos, bottomPos);
-      ctx.moveTo(medianPos, topPadding);
-      ctx.lineTo(medianPos, bottomPos);
-      ctx.moveTo((q3Pos), middlePos);
-      ctx.lineTo(maxPos, middlePos);
-      ctx.moveTo(maxPos, topPadding);
-      ctx.lineTo(maxPos, bottomPos);
-      ctx.stroke();
-      ctx.fill();
-
+      if (rawBoxdata === null) {
+        return;
+      }
+      const scaled = scaleBoxPlot(rawBoxdata, scale);
+      renderBoxPlot(ctx, scaled, topPadding, rowHeight);
+      renderOutliers(ctx, scaled, topPadding, rowHeight);
 
+      const bottomPos = (rowHeight - topPadding);
       if (sortedByMe) {
         ctx.strokeStyle = 'red';
         ctx.fillStyle = '#ff0700';
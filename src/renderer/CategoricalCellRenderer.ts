@@ -2,10 +2,36 @@ import ICellRendererFactory from './ICellRendererFactory';
 import CategoricalColumn from '../model/CategoricalColumn';
 import Column from '../model/Column';
 import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
-import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
+import {ISVGCellRenderer, IHTMLCellRenderer, ISVGGroupRenderer, IHTMLGroupRenderer} from './IDOMCellRenderers';
 import {IDataRow} from '../provider/ADataProvider';
 import {attr, clipText} from '../utils';
-import ICanvasCellRenderer from './ICanvasCellRenderer';
+import ICanvasCellRenderer, {ICanvasGroupRenderer} from './ICanvasCellRenderer';
+import {IGroup} from '../model/Group';
+import {select} from 'd3';
+
+/**
+ * computes the number of items per category of the given rows
+ * @param col
+ * @param rows
+ * @returns {{maxBin: number, hist: {cat: string, label: string, y: number}[]}}
+ */
+function computeHist(col: CategoricalColumn, rows: IDataRow[]) {
+  const labels = col.categoryLabels;
+  const hist = col.categories.map((cat, i) => ({cat, label: labels[i], y: 0}));
+  const lookup = new Map<string, {cat: string, label: string, y: number}>();
+  hist.forEach((d) => lookup.set(d.cat, d));
+  rows.forEach((d) => {
+    col.getCategories(d.v, d.dataIndex).forEach((cat) => {
+      if (lookup.has(cat)) {
+        lookup.get(cat).y++;
+      }
+    });
+  });
+  return {
+    maxBin: hist.reduce((acc, d) => Math.max(acc, d.y), 0),
+    hist
+  };
+}
 
 /**
  * renders categorical columns as a colored rect with label
@@ -14,9 +40,10 @@ export default class CategoricalCellRenderer implements ICellRendererFactory {
   /**
    * class to append to the text elements
    * @type {string}
+   * @param labelOf accessor of the label to render, e.g. the whole path of a hierarchical category
    */
 
-  constructor(private readonly textClass: string = 'cat') {
+  constructor(private readonly textClass: string = 'cat', private readonly labelOf: (d: any, i: number, col: Column) => string = (d, i, col) => col.getLabel(d, i)) {
     this.textClass = textClass;
   }
 
@@ -42,7 +69,7 @@ export default class CategoricalCellRenderer implements ICellRendererFactory {
         });
         attr(<SVGTextElement>n.querySelector('text'), {
           x: cell + padding * 2
-        }).textContent = col.getCompressed() ? '' : col.getLabel(d.v, d.dataIndex);
+        }).textContent = col.getCompressed() ? '' : this.labelOf(d.v, d.dataIndex, col);
       }
     };
   }
@@ -69,7 +96,7 @@ export default class CategoricalCellRenderer implements ICellRendererFactory {
           height: cell + 'px',
           'background-color': col.getColor(d.v, d.dataIndex)
         });
-        attr(<HTMLSpanElement>n.querySelector('span'), {}).textContent = col.getCompressed() ? '' : col.getLabel(d.v, d.dataIndex);
+        attr(<HTMLSpanElement>n.querySelector('span'), {}).textContent = col.getCompressed() ? '' : this.labelOf(d.v, d.dataIndex, col);
       }
     };
   }
@@ -85,8 +112,76 @@ export default class CategoricalCellRenderer implements ICellRendererFactory {
         const cell = Math.min(col.getWidth() * 0.3, Math.max(context.rowHeight(i) - padding * 2, 0));
         ctx.fillRect(0, 0, cell, cell);
         ctx.fillStyle = context.option('style.text', 'black');
-        clipText(ctx, col.getLabel(d.v, d.dataIndex), cell + 2, 0, col.getWidth() - cell - 2, context.textHints);
+        clipText(ctx, this.labelOf(d.v, d.dataIndex, col), cell + 2, 0, col.getWidth() - cell - 2, context.textHints);
+      }
+    };
+  }
+
+  /**
+   * an aggregated group is rendered as a histogram of the categories
+   */
+  createGroupSVG(col: CategoricalColumn, context: IDOMRenderContext): ISVGGroupRenderer {
+    const padding = context.option('rowBarPadding', 1);
+    return {
+      template: `<g class='histogram'></g>`,
+      update: (n: SVGGElement, group: IGroup, rows: IDataRow[]) => {
+        const {maxBin, hist} = computeHist(col, rows);
+        const height = context.rowHeight(0) - padding;
+        const binWidth = col.getWidth() / Math.max(hist.length, 1);
+        const $bins = select(n).selectAll('rect').data(hist);
+        $bins.enter().append('rect').append('title');
+        $bins.attr({
+          x: (d, i) => i * binWidth,
+          y: (d) => height - (maxBin === 0 ? 0 : height * d.y / maxBin),
+          width: Math.max(binWidth - 1, 1),
+          height: (d) => maxBin === 0 ? 0 : height * d.y / maxBin
+        }).style('fill', (d) => col.colorOf(d.cat));
+        $bins.select('title').text((d) => `${d.label}: ${d.y}`);
+        $bins.exit().remove();
+      }
+    };
+  }
+
+  createGroupHTML(col: CategoricalColumn, context: IDOMRenderContext): IHTMLGroupRenderer {
+    const padding = context.option('rowBarPadding', 1);
+    return {
+      template: `<div class='histogram'></div>`,
+      update: (n: HTMLDivElement, group: IGroup, rows: IDataRow[]) => {
+        const {maxBin, hist} = computeHist(col, rows);
+        const height = context.rowHeight(0) - padding;
+        const binWidth = col.getWidth() / Math.max(hist.length, 1);
+        attr(n, {}, {
+          width: `${col.getWidth()}px`,
+          height: `${height}px`
+        });
+        const $bins = select(n).selectAll('div.bin').data(hist);
+        $bins.enter().append('div').classed('bin', true);
+        $bins.style({
+          left: (d, i) => `${i * binWidth}px`,
+          top: (d) => `${height - (maxBin === 0 ? 0 : height * d.y / maxBin)}px`,
+          width: `${Math.max(binWidth - 1, 1)}px`,
+          height: (d) => `${maxBin === 0 ? 0 : height * d.y / maxBin}px`,
+          'background-color': (d) => col.colorOf(d.cat)
+        }).attr('title', (d) => `${d.label}: ${d.y}`);
+        $bins.exit().remove();
+      }
+    };
+  }
+
+  createGroupCanvas(col: CategoricalColumn, context: ICanvasRenderContext): ICanvasGroupRenderer {
+    const padding = context.option('rowBarPadding', 1);
+    return (ctx: CanvasRenderingContext2D, group: IGroup, rows: IDataRow[]) => {
+      const {maxBin, hist} = computeHist(col, rows);
+      if (maxBin === 0) {
+        return;
       }
+      const height = context.rowHeight(0) - padding;
+      const binWidth = col.getWidth() / hist.length;
+      hist.forEach((d, i) => {
+        const h = height * d.y / maxBin;
+        ctx.fillStyle = col.colorOf(d.cat);
+        ctx.fillRect(i * binWidth, height - h, Math.max(binWidth - 1, 1), h);
+      });
     };
   }
 }
@@ -1,9 +1,10 @@
 import Column from '../model/Column';
 import ICellRendererFactory from './ICellRendererFactory';
 import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
-import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
-import ICanvasCellRenderer from './ICanvasCellRenderer';
+import {ISVGCellRenderer, IHTMLCellRenderer, ISVGGroupRenderer, IHTMLGroupRenderer} from './IDOMCellRenderers';
+import ICanvasCellRenderer, {ICanvasGroupRenderer} from './ICanvasCellRenderer';
 import {IDataRow} from '../provider/ADataProvider';
+import {IGroup} from '../model/Group';
 import {attr, clipText} from '../utils';
 
 /**
@@ -20,18 +21,21 @@ export class DefaultCellRenderer implements ICellRendererFactory {
     this.align = align;
   }
 
+  private alignmentShift(col: Column) {
+    if (this.align === 'right') {
+      return col.getWidth() - 5;
+    } else if (this.align === 'center') {
+      return col.getWidth() * 0.5;
+    }
+    return 2;
+  }
+
   createSVG(col: Column, context: IDOMRenderContext): ISVGCellRenderer {
     return {
       template: `<text class="${this.textClass}" clip-path="url(#cp${context.idPrefix}clipCol${col.id})"></text>`,
       update: (n: SVGTextElement, d: IDataRow) => {
-        let alignmentShift = 2;
-        if (this.align === 'right') {
-          alignmentShift = col.getWidth() - 5;
-        } else if (this.align === 'center') {
-          alignmentShift = col.getWidth() * 0.5;
-        }
         attr(n, {
-          x: alignmentShift
+          x: this.alignmentShift(col)
         });
         n.textContent = col.getLabel(d.v, d.dataIndex);
       }
@@ -65,4 +69,47 @@ export class DefaultCellRenderer implements ICellRendererFactory {
       ctx.textAlign = bak;
     };
   }
+
+  /**
+   * by default an aggregated group shows the number of its items
+   */
+  createGroupSVG(col: Column, context: IDOMRenderContext): ISVGGroupRenderer {
+    return {
+      template: `<text class="${this.textClass} group" clip-path="url(#cp${context.idPrefix}clipCol${col.id})"></text>`,
+      update: (n: SVGTextElement, group: IGroup, rows: IDataRow[]) => {
+        attr(n, {
+          x: this.alignmentShift(col)
+        });
+        n.textContent = `${rows.length} items`;
+      }
+    };
+  }
+
+  createGroupHTML(col: Column, context: IDOMRenderContext): IHTMLGroupRenderer {
+    return {
+      template: `<div class="${this.textClass} ${this.align} group"></div>`,
+      update: (n: HTMLDivElement, group: IGroup, rows: IDataRow[]) => {
+        attr(n, {}, {
+          width: `${col.getWidth()}px`
+        });
+        n.textContent = `${rows.length} items`;
+      }
+    };
+  }
+
+  createGroupCanvas(col: Column, context: ICanvasRenderContext): ICanvasGroupRenderer {
+    return (ctx: CanvasRenderingContext2D, group: IGroup, rows: IDataRow[]) => {
+      const bak = ctx.textAlign;
+      ctx.textAlign = this.align;
+      const w = col.getWidth();
+      let shift = 0;
+      if (this.align === 'center') {
+        shift = w / 2;
+      } else if (this.align === 'right') {
+        shift = w;
+      }
+      clipText(ctx, `${rows.length} items`, shift, 0, w, context.textHints);
+      ctx.textAlign = bak;
+    };
+  }
 }
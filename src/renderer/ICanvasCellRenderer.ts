@@ -1,4 +1,5 @@
 import {IDataRow} from '../provider/ADataProvider';
+import {IGroup} from '../model/Group';
 
 interface ICanvasCellRenderer {
   /**
@@ -11,3 +12,13 @@ interface ICanvasCellRenderer {
 }
 
 export default ICanvasCellRenderer;
+
+export interface ICanvasGroupRenderer {
+  /**
+   * renders the aggregated group
+   * @param ctx
+   * @param group
+   * @param rows
+   */
+  (ctx: CanvasRenderingContext2D, group: IGroup, rows: IDataRow[], dx: number, dy: number): void;
+}
@@ -1,4 +1,5 @@
 import {IDataRow} from '../provider/ADataProvider';
+import {IGroup} from '../model/Group';
 
 /**
  * a cell renderer for rendering a cell of specific column
@@ -19,3 +20,23 @@ export interface IDOMCellRenderer<T> {
 
 export declare type ISVGCellRenderer = IDOMCellRenderer<SVGElement>;
 export declare type IHTMLCellRenderer = IDOMCellRenderer<HTMLElement>;
+
+/**
+ * a renderer for rendering an aggregated group of rows of a specific column
+ */
+export interface IDOMGroupRenderer<T> {
+  /**
+   * template as a basis for the update
+   */
+  readonly template: string;
+  /**
+   * update a given node (create using the template) with the given group
+   * @param node the node to update
+   * @param group the group to render
+   * @param rows the data items of this group
+   */
+  update(node: T, group: IGroup, rows: IDataRow[]): void;
+}
+
+export declare type ISVGGroupRenderer = IDOMGroupRenderer<SVGElement>;
+export declare type IHTMLGroupRenderer = IDOMGroupRenderer<HTMLElement>;
@@ -0,0 +1,44 @@
+import RankColumn from '../model/RankColumn';
+import {DefaultCellRenderer} from './DefaultCellRenderer';
+import {IDOMRenderContext} from './RendererContexts';
+import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
+import {IDataRow} from '../provider/ADataProvider';
+
+function markTie(n: Element, col: RankColumn, d: IDataRow) {
+  if (col.isTied(d.v, d.dataIndex)) {
+    n.classList.add('tied');
+  } else {
+    n.classList.remove('tied');
+  }
+}
+
+/**
+ * renders the rank as right aligned text and marks tied ranks with the class tied
+ */
+export default class RankCellRenderer extends DefaultCellRenderer {
+  constructor() {
+    super('rank', 'right');
+  }
+
+  createSVG(col: RankColumn, context: IDOMRenderContext): ISVGCellRenderer {
+    const r = super.createSVG(col, context);
+    return {
+      template: r.template,
+      update: (n: SVGTextElement, d: IDataRow, i: number) => {
+        r.update(n, d, i);
+        markTie(n, col, d);
+      }
+    };
+  }
+
+  createHTML(col: RankColumn, context: IDOMRenderContext): IHTMLCellRenderer {
+    const r = super.createHTML(col, context);
+    return {
+      template: r.template,
+      update: (n: HTMLDivElement, d: IDataRow, i: number) => {
+        r.update(n, d, i);
+        markTie(n, col, d);
+      }
+    };
+  }
+}
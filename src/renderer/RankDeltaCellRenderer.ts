@@ -0,0 +1,74 @@
+import ICellRendererFactory from './ICellRendererFactory';
+import RankDeltaColumn from '../model/RankDeltaColumn';
+import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
+import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
+import {IDataRow} from '../provider/ADataProvider';
+import {attr, clipText} from '../utils';
+import ICanvasCellRenderer from './ICanvasCellRenderer';
+
+function direction(delta: number) {
+  if (isNaN(delta) || delta === 0) {
+    return '';
+  }
+  return delta > 0 ? 'up' : 'down';
+}
+
+function arrowLabel(col: RankDeltaColumn, d: IDataRow) {
+  const delta = col.getValue(d.v, d.dataIndex);
+  const arrow = isNaN(delta) || delta === 0 ? '' : (delta > 0 ? '▲ ' : '▼ ');
+  return arrow + col.getLabel(d.v, d.dataIndex);
+}
+
+/**
+ * renders the rank delta as signed number with an up or down arrow
+ */
+export default class RankDeltaCellRenderer implements ICellRendererFactory {
+
+  constructor(private readonly upColor = 'green', private readonly downColor = 'red') {
+
+  }
+
+  createSVG(col: RankDeltaColumn, context: IDOMRenderContext): ISVGCellRenderer {
+    return {
+      template: `<text class="rankdelta" clip-path="url(#cp${context.idPrefix}clipCol${col.id})"></text>`,
+      update: (n: SVGTextElement, d: IDataRow) => {
+        const dir = direction(col.getValue(d.v, d.dataIndex));
+        attr(n, {
+          x: col.getWidth() - 5,
+          'class': `rankdelta ${dir}`
+        });
+        n.textContent = arrowLabel(col, d);
+      }
+    };
+  }
+
+  createHTML(col: RankDeltaColumn, context: IDOMRenderContext): IHTMLCellRenderer {
+    return {
+      template: `<div class="rankdelta"></div>`,
+      update: (n: HTMLDivElement, d: IDataRow) => {
+        const dir = direction(col.getValue(d.v, d.dataIndex));
+        attr(n, {
+          'class': `rankdelta ${dir}`
+        }, {
+          width: `${col.getWidth()}px`
+        });
+        n.textContent = arrowLabel(col, d);
+      }
+    };
+  }
+
+  createCanvas(col: RankDeltaColumn, context: ICanvasRenderContext): ICanvasCellRenderer {
+    return (ctx: CanvasRenderingContext2D, d: IDataRow) => {
+      const dir = direction(col.getValue(d.v, d.dataIndex));
+      const bak = ctx.textAlign;
+      const bakColor = ctx.fillStyle;
+      ctx.textAlign = 'right';
+      if (dir !== '') {
+        ctx.fillStyle = dir === 'up' ? this.upColor : this.downColor;
+      }
+      clipText(ctx, arrowLabel(col, d), col.getWidth(), 0, col.getWidth(), context.textHints);
+      ctx.textAlign = bak;
+      ctx.fillStyle = bakColor;
+    };
+  }
+}
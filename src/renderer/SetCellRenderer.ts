@@ -24,11 +24,13 @@ export default class SetCellRenderer implements ICellRendererFactory {
   createSVG(col: SetColumn, context: IDOMRenderContext): ISVGCellRenderer {
     const cellDimension = col.cellDimension();
     return {
-      template: `<g class='upsetcell'><path class='upsetpath'></path></g>`,
+      template: `<g class='upsetcell'><title></title><path class='upsetpath'></path></g>`,
       update: (n: SVGGElement, d: IDataRow, i: number) => {
         const rowHeight = context.rowHeight(i);
-        const value = col.getBinaryValue(d.v, d.dataIndex);
+        const value = col.getBinaryValue(d.v, d.dataIndex) || [];
         const hasTrueValues = value.some((d) => d); //some values are true?
+        //list the members as tooltip
+        n.querySelector('title').textContent = col.getLabel(d.v, d.dataIndex);
 
         const circle = d3select(n).selectAll('circle').data(value);
         circle.enter().append('circle');
@@ -58,7 +60,7 @@ export default class SetCellRenderer implements ICellRendererFactory {
     const cellDimension = col.cellDimension();
     return (ctx: CanvasRenderingContext2D, d: IDataRow, i: number) => {
       // Circle
-      const data = col.getBinaryValue(d.v, d.dataIndex);
+      const data = col.getBinaryValue(d.v, d.dataIndex) || [];
       const hasTrueValues = data.some((d) => d); //some values are true?
       const rowHeight = context.rowHeight(i);
       const radius = (rowHeight / 3);
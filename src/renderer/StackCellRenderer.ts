@@ -1,5 +1,7 @@
 import ICellRendererFactory from './ICellRendererFactory';
+import Column from '../model/Column';
 import StackColumn from '../model/StackColumn';
+import {INumberColumn} from '../model/NumberColumn';
 import IRenderContext from './IRenderContext';
 import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
 import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
@@ -7,6 +9,14 @@ import {IDataRow} from '../provider/ADataProvider';
 import ICanvasCellRenderer from './ICanvasCellRenderer';
 import {matchColumns} from '../utils';
 
+/**
+ * the space not used by the bar of the given column, excluded missing values keep their full width
+ */
+function stackShiftOf(col: Column, d: IDataRow) {
+  const v = (<INumberColumn><any>col).getNumber(d.v, d.dataIndex);
+  return isNaN(v) ? 0 : col.getWidth() * (1 - v);
+}
+
 /**
  * renders a stacked column using composite pattern
  */
@@ -43,7 +53,7 @@ export default class StackCellRenderer implements ICellRendererFactory {
           cnode.setAttribute('transform', `translate(${col.shift - stackShift},0)`);
           col.renderer.update(cnode, d, i);
           if (col.stacked) {
-            stackShift += col.column.getWidth() * (1 - col.column.getValue(d.v, d.dataIndex));
+            stackShift += stackShiftOf(col.column, d);
           }
         });
       }
@@ -62,7 +72,7 @@ export default class StackCellRenderer implements ICellRendererFactory {
           cnode.style.transform = `translate(${col.shift - stackShift}px,0)`;
           col.renderer.update(cnode, d, i);
           if (col.stacked) {
-            stackShift += col.column.getWidth() * (1 - col.column.getValue(d.v, d.dataIndex));
+            stackShift += stackShiftOf(col.column, d);
           }
         });
       }
@@ -79,7 +89,7 @@ export default class StackCellRenderer implements ICellRendererFactory {
         col.renderer(ctx, d, i, dx + shift, dy);
         ctx.translate(-shift, 0);
         if (col.stacked) {
-          stackShift += col.column.getWidth() * (1 - col.column.getValue(d.v, d.dataIndex));
+          stackShift += stackShiftOf(col.column, d);
         }
       });
     };
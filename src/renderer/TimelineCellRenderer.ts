@@ -0,0 +1,81 @@
+import ICellRendererFactory from './ICellRendererFactory';
+import DateColumn from '../model/DateColumn';
+import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
+import {ISVGCellRenderer, IHTMLCellRenderer} from './IDOMCellRenderers';
+import {IDataRow} from '../provider/ADataProvider';
+import {attr} from '../utils';
+import ICanvasCellRenderer from './ICanvasCellRenderer';
+
+/**
+ * renders a date as marker on a timeline spanning the domain of the column
+ */
+export default class TimelineCellRenderer implements ICellRendererFactory {
+
+  constructor(private readonly markerWidth = 3) {
+
+  }
+
+  createSVG(col: DateColumn, context: IDOMRenderContext): ISVGCellRenderer {
+    return {
+      template: `<g class='timeline'>
+          <line style='stroke: lightgray'></line>
+          <rect class='${col.cssClass}' style='fill: ${col.color}'>
+            <title></title>
+          </rect>
+        </g>`,
+      update: (n: SVGGElement, d: IDataRow, i: number) => {
+        const height = context.rowHeight(i);
+        const pos = col.getRelativePosition(d.v, d.dataIndex);
+        attr(<SVGLineElement>n.querySelector('line'), {
+          x1: 0,
+          x2: col.getWidth(),
+          y1: height / 2,
+          y2: height / 2
+        });
+        attr(<SVGRectElement>n.querySelector('rect'), {
+          x: isNaN(pos) ? 0 : pos * (col.getWidth() - this.markerWidth),
+          y: 0,
+          width: isNaN(pos) ? 0 : this.markerWidth,
+          height
+        });
+        n.querySelector('title').textContent = col.getLabel(d.v, d.dataIndex);
+      }
+    };
+  }
+
+  createHTML(col: DateColumn, context: IDOMRenderContext): IHTMLCellRenderer {
+    return {
+      template: `<div class='timeline' style='position: relative; width: 100%; height: 100%'>
+          <div style='position: absolute; left: 0; right: 0; top: 50%; border-top: 1px solid lightgray'></div>
+          <div class='${col.cssClass}' style='position: absolute; top: 0; bottom: 0; width: ${this.markerWidth}px; background-color: ${col.color}'></div>
+        </div>`,
+      update: (n: HTMLDivElement, d: IDataRow) => {
+        const pos = col.getRelativePosition(d.v, d.dataIndex);
+        attr(n, {
+          title: col.getLabel(d.v, d.dataIndex)
+        });
+        attr(<HTMLDivElement>n.lastElementChild, {}, {
+          left: `${isNaN(pos) ? 0 : pos * (col.getWidth() - this.markerWidth)}px`,
+          display: isNaN(pos) ? 'none' : ''
+        });
+      }
+    };
+  }
+
+  createCanvas(col: DateColumn, context: ICanvasRenderContext): ICanvasCellRenderer {
+    return (ctx: CanvasRenderingContext2D, d: IDataRow, i: number) => {
+      const height = context.rowHeight(i);
+      ctx.strokeStyle = 'lightgray';
+      ctx.beginPath();
+      ctx.moveTo(0, height / 2);
+      ctx.lineTo(col.getWidth(), height / 2);
+      ctx.stroke();
+      const pos = col.getRelativePosition(d.v, d.dataIndex);
+      if (isNaN(pos)) {
+        return;
+      }
+      ctx.fillStyle = col.color;
+      ctx.fillRect(pos * (col.getWidth() - this.markerWidth), 0, this.markerWidth, height);
+    };
+  }
+}
@@ -25,6 +25,11 @@ import BoxplotCellRenderer from './BoxplotCellRenderer';
 import LoadingCellRenderer from './LoadingCellRenderer';
 import ThresholdCellRenderer from './ThresholdCellRenderer';
 import Heatmap from './Heatmap';
+import AggregateGroupRenderer from './AggregateGroupRenderer';
+import TimelineCellRenderer from './TimelineCellRenderer';
+import RankDeltaCellRenderer from './RankDeltaCellRenderer';
+import RankCellRenderer from './RankCellRenderer';
+import HierarchyColumn from '../model/HierarchyColumn';
 import {IDOMRenderContext, ICanvasRenderContext} from './RendererContexts';
 
 
@@ -35,7 +40,7 @@ const combineCellRenderer = new BarCellRenderer(false, (d, i, col: CompositeNumb
  * default render factories
  */
 export const renderers: {[key: string]: ICellRendererFactory} = {
-  rank: new DefaultCellRenderer('rank', 'right'),
+  rank: new RankCellRenderer(),
   boolean: new DefaultCellRenderer('boolean', 'center'),
   number: new BarCellRenderer(),
   ordinal: new BarCellRenderer(true, (d, i, col: CategoricalNumberColumn) => col.getColor(d, i)),
@@ -48,6 +53,7 @@ export const renderers: {[key: string]: ICellRendererFactory} = {
   stack: new StackCellRenderer(),
   nested: new StackCellRenderer(false),
   categorical: new CategoricalCellRenderer(),
+  hierarchy: new CategoricalCellRenderer('cat', (d, i, col: HierarchyColumn) => col.getPathLabel(d, i)),
   max: combineCellRenderer,
   min: combineCellRenderer,
   mean: combineCellRenderer,
@@ -59,7 +65,11 @@ export const renderers: {[key: string]: ICellRendererFactory} = {
   set: new SetCellRenderer(),
   circle: new CircleCellRenderer(),
   boxplot: new BoxplotCellRenderer(),
-  loading: new LoadingCellRenderer()
+  loading: new LoadingCellRenderer(),
+  aggregate: new AggregateGroupRenderer(),
+  date: new DefaultCellRenderer('date', 'right'),
+  timeline: new TimelineCellRenderer(),
+  rankdelta: new RankDeltaCellRenderer()
 };
 
 function chooseRenderer(col: Column, renderers: {[key: string]: ICellRendererFactory}): ICellRendererFactory {
@@ -79,3 +89,16 @@ export function createCanvas(col: Column, renderers: {[key: string]: ICellRender
   const r = chooseRenderer(col, renderers);
   return (r.createCanvas ? r.createCanvas.bind(r) : defaultCellRenderer.createCanvas.bind(r))(col, context);
 }
+
+export function createGroupSVG(col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IDOMRenderContext) {
+  const r = chooseRenderer(col, renderers);
+  return (r.createGroupSVG ? r.createGroupSVG.bind(r) : defaultCellRenderer.createGroupSVG.bind(defaultCellRenderer))(col, context);
+}
+export function createGroupHTML(col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IDOMRenderContext) {
+  const r = chooseRenderer(col, renderers);
+  return (r.createGroupHTML ? r.createGroupHTML.bind(r) : defaultCellRenderer.createGroupHTML.bind(defaultCellRenderer))(col, context);
+}
+export function createGroupCanvas(col: Column, renderers: {[key: string]: ICellRendererFactory}, context: ICanvasRenderContext) {
+  const r = chooseRenderer(col, renderers);
+  return (r.createGroupCanvas ? r.createGroupCanvas.bind(r) : defaultCellRenderer.createGroupCanvas.bind(defaultCellRenderer))(col, context);
+}
@@ -0,0 +1,4 @@
+/**
+ * entry point of the node reference server implementing the protocol of the HTTPServerData, see demo/server.js
+ */
+export {default as LocalServerData} from './provider/LocalServerData';
@@ -11,9 +11,13 @@ import DataProvider, {IDataRow} from '../provider/ADataProvider';
 import IRenderContext from '../renderer/IRenderContext';
 import ICellRendererFactory from '../renderer/ICellRendererFactory';
 import {renderers as defaultRenderers} from '../renderer/index';
+import {IOrderedGroup} from '../model/Group';
 
 export interface ISlicer {
-  (start: number, length: number, row2y: (i: number) => number): {from: number; to: number};
+  /**
+   * @returns the range to render and optionally a larger range whose rows should be prefetched
+   */
+  (start: number, length: number, row2y: (i: number) => number): {from: number; to: number; prefetch?: {from: number; to: number}};
 }
 
 export interface IBodyRenderer extends AEventDispatcher {
@@ -29,34 +33,117 @@ export interface IBodyRenderer extends AEventDispatcher {
 
   updateFreeze(left: number);
 
+  /**
+   * moves the pinned rows to the top of the visible area
+   * @param top the y position of the visible area within the body
+   */
+  updatePinned(top: number);
+
   scrolled();
 
   update();
 
+  updateRows(dataIndices: number[]);
+
   fakeHover(dataIndex: number);
 }
 
 export interface IBodyRenderContext extends IRenderContext<any> {
   cellY(index: number): number;
   cellPrevY(index: number): number;
+
+  /**
+   * render an aggregated group of a column
+   * @param col
+   */
+  groupRenderer(col: Column): any;
 }
 
 export interface IRankingColumnData {
   readonly column: Column;
   readonly renderer: any;
+  readonly groupRenderer: any;
   readonly shift: number;
 }
 
+/**
+ * an aggregated group rendered as a single row
+ */
+export interface IAggregateRow {
+  readonly group: IOrderedGroup;
+  readonly rows: Promise<IDataRow[]>;
+}
+
+/**
+ * the order to render of a ranking in which aggregated groups are represented by their first item
+ */
+export interface IRenderedOrder {
+  /**
+   * the order without the pinned rows
+   */
+  readonly order: number[];
+  /**
+   * the aggregated groups by their position within the order
+   */
+  readonly aggregated: Map<number, IOrderedGroup>;
+  /**
+   * the pinned rows of the order in their rank order, rendered on top of the other ones
+   */
+  readonly pinned: number[];
+}
+
+/**
+ * flattens the groups of the given ranking to the order to render
+ * @param ranking
+ * @returns {IRenderedOrder}
+ */
+function toRenderedOrder(ranking: Ranking): IRenderedOrder {
+  const groups = ranking.getGroups();
+  const aggregated = new Map<number, IOrderedGroup>();
+  const hasPinned = ranking.getPinned().length > 0;
+  const notPinned = (dataIndex: number) => !ranking.isPinned(dataIndex);
+  //filtered pinned rows aren't part of the order
+  const pinned = hasPinned ? ranking.getOrder().filter((d) => ranking.isPinned(d)) : [];
+  if (!groups.some((g) => ranking.isAggregated(g))) {
+    return {order: hasPinned ? ranking.getOrder().filter(notPinned) : ranking.getOrder(), aggregated, pinned};
+  }
+  const order: number[] = [];
+  groups.forEach((group) => {
+    const groupOrder = hasPinned ? group.order.filter(notPinned) : group.order;
+    if (groupOrder.length === 0) {
+      return;
+    }
+    if (ranking.isAggregated(group)) {
+      aggregated.set(order.length, group);
+      order.push(groupOrder[0]);
+    } else {
+      groupOrder.forEach((dataIndex) => order.push(dataIndex));
+    }
+  });
+  return {order, aggregated, pinned};
+}
+
 export interface IRankingData {
   readonly id: string;
   readonly ranking: Ranking;
+  /**
+   * the rows to render starting with the pinned ones
+   */
   readonly order: number[];
+  /**
+   * the number of pinned rows at the beginning of the order
+   */
+  readonly pinned: number;
   readonly shift: number;
   readonly width: number;
   readonly frozen: IRankingColumnData[];
   readonly frozenWidth: number;
   readonly columns: IRankingColumnData[];
   readonly data: Promise<IDataRow>[];
+  /**
+   * aggregated groups by their order relative index
+   */
+  readonly aggregates: Map<number, IAggregateRow>;
 }
 
 export interface IBodyRendererOptions {
@@ -114,6 +201,23 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
 
   histCache = new Map<string, Promise<IStatistics|ICategoricalStatistics>>();
 
+  /**
+   * the rendered orders of the last update by ranking id
+   * @type {Map<string, IRenderedOrder>}
+   */
+  protected readonly renderedOrders = new Map<string, IRenderedOrder>();
+
+  /**
+   * the y position of the pinned rows, i.e. the top of the visible area
+   * @type {number}
+   */
+  protected pinnedTop = 0;
+  /**
+   * the number of rows reserved for the pinned rows of the last update, i.e. the maximal number of pinned rows of a ranking
+   * @type {number}
+   */
+  protected pinnedRows = 0;
+
   constructor(protected data: DataProvider, parent: Element, private slicer: ISlicer, root: string, options: IBodyRendererOptions = {}) {
     super();
     //merge options
@@ -138,9 +242,10 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
 
   changeDataStorage(data: DataProvider) {
     if (this.data) {
-      this.data.on([DataProvider.EVENT_DIRTY_VALUES + '.bodyRenderer', DataProvider.EVENT_SELECTION_CHANGED + '.bodyRenderer'], null);
+      this.data.on([DataProvider.EVENT_DIRTY_VALUES + '.bodyRenderer', DataProvider.EVENT_SELECTION_CHANGED + '.bodyRenderer', DataProvider.EVENT_ROWS_UPDATED + '.bodyRenderer'], null);
     }
     this.data = data;
+    data.on(DataProvider.EVENT_ROWS_UPDATED + '.bodyRenderer', this.updateRows.bind(this));
     data.on(DataProvider.EVENT_DIRTY_VALUES + '.bodyRenderer', delayedCall(this.update.bind(this), 1));
     data.on(DataProvider.EVENT_SELECTION_CHANGED + '.bodyRenderer', delayedCall(this.drawSelection.bind(this), 1));
   }
@@ -154,7 +259,8 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
     this.fire(ABodyRenderer.EVENT_RENDER_FINISHED, this);
   }
 
-  protected createContext(indexShift: number, creator: (col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IRenderContext<any>) => any): IBodyRenderContext {
+  protected createContext(indexShift: number, creator: (col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IRenderContext<any>) => any,
+                          groupCreator: (col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IRenderContext<any>) => any): IBodyRenderContext {
     const options = this.options;
 
     function findOption(key: string, defaultValue: any) {
@@ -183,6 +289,10 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
 
       renderer(col: Column) {
         return creator(col, options.renderers, this);
+      },
+
+      groupRenderer(col: Column) {
+        return groupCreator(col, options.renderers, this);
       }
     };
   }
@@ -204,28 +314,76 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
 
   abstract updateFreeze(left: number);
 
+  updatePinned(top: number) {
+    this.pinnedTop = Math.max(0, top);
+  }
+
+  /**
+   * computes the y position of a row, the pinned rows stick to the top of the visible area
+   * @param context
+   * @param ranking
+   * @param i the index of the row within the order of the ranking
+   * @returns {number}
+   */
+  protected rowY(context: IBodyRenderContext, ranking: IRankingData, i: number) {
+    if (i < ranking.pinned) {
+      return this.pinnedTop + i * this.options.rowHeight;
+    }
+    return context.cellY(i - ranking.pinned);
+  }
+
   scrolled() {
     return this.update(ERenderReason.SCROLLED);
   }
 
+  /**
+   * rerenders the given rows whose values changed, by default the whole body is rendered again
+   * @param dataIndices
+   */
+  updateRows(dataIndices: number[]): Promise<any> {
+    return this.update();
+  }
+
   /**
    * render the body
    */
   update(reason = ERenderReason.DIRTY) {
     const rankings = this.data.getRankings();
-    const maxElems = d3.max(rankings, (d) => d.getOrder().length) || 0;
+    const rendered = rankings.map(toRenderedOrder);
+    this.renderedOrders.clear();
+    rankings.forEach((r, i) => this.renderedOrders.set(r.id, rendered[i]));
+    //the pinned rows are always rendered and reserve the same space in all rankings
+    const pinnedRows = this.pinnedRows = d3.max(rendered, (d) => d.pinned.length) || 0;
+    const maxElems = pinnedRows + (d3.max(rendered, (d) => d.order.length) || 0);
     const height = this.options.rowHeight * maxElems;
-    const visibleRange = this.slicer(0, maxElems, (i) => i * this.options.rowHeight);
+    const range = this.slicer(0, maxElems, (i) => i * this.options.rowHeight);
+    //the range within the orders without the pinned rows
+    const shift = (i: number) => Math.max(0, i - pinnedRows);
+    const visibleRange = {from: shift(range.from), to: shift(range.to)};
     const orderSlicer = (order: number[]) => {
       if (visibleRange.from === 0 && order.length <= visibleRange.to) {
         return order;
       }
       return order.slice(visibleRange.from, Math.min(order.length, visibleRange.to));
     };
+    const aggregateSlicer = (aggregated: Map<number, IOrderedGroup>, pinned: number) => {
+      const r = new Map<number, IAggregateRow>();
+      aggregated.forEach((group, pos) => {
+        if (pos >= visibleRange.from && pos < visibleRange.to) {
+          r.set(pos - visibleRange.from + pinned, {group, rows: Promise.all(this.data.fetch([group.order])[0])});
+        }
+      });
+      return r;
+    };
 
-    const context = this.createContextImpl(visibleRange.from);
-    const orders = rankings.map((r) => orderSlicer(r.getOrder()));
+    const context = this.createContextImpl(visibleRange.from + pinnedRows);
+    const orders = rendered.map((r) => r.pinned.concat(orderSlicer(r.order)));
     const data = this.data.fetch(orders);
+    if (range.prefetch) {
+      const prefetch = {from: shift(range.prefetch.from), to: shift(range.prefetch.to)};
+      //the rows just below and above the rendered ones
+      this.data.prefetch([].concat(...rendered.map((r) => [r.order.slice(visibleRange.to, prefetch.to), r.order.slice(prefetch.from, visibleRange.from).reverse()])));
+    }
 
     const padding = this.options.columnPadding;
     let totalWidth = 0;
@@ -244,6 +402,7 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
         return {
           column: o,
           renderer: context.renderer(o),
+          groupRenderer: context.groupRenderer(o),
           shift: colShift
         };
       });
@@ -256,13 +415,15 @@ abstract class ABodyRenderer extends AEventDispatcher implements IBodyRenderer {
         id: r.id,
         ranking: r,
         order: orders[i],
+        pinned: rendered[i].pinned.length,
         shift: rankingShift,
         width,
         //compute frozen columns just for the first one
         frozen,
         frozenWidth: Math.max(...(frozen.map((d) => d.shift + d.column.getWidth()))),
         columns: colData.slice(this.options.freezeCols),
-        data: data[i]
+        data: data[i],
+        aggregates: aggregateSlicer(rendered[i].aggregated, rendered[i].pinned.length)
       };
     });
     //one to often
@@ -5,7 +5,7 @@
 import * as d3 from 'd3';
 import {forEach, matchColumns} from '../utils';
 import Column, {IStatistics} from '../model/Column';
-import DataProvider from '../provider/ADataProvider';
+import DataProvider, {IDataRow} from '../provider/ADataProvider';
 import {IDOMRenderContext} from '../renderer/RendererContexts';
 import ABodyRenderer, {
   ISlicer,
@@ -14,7 +14,7 @@ import ABodyRenderer, {
   IBodyRenderContext,
   ERenderReason} from './ABodyRenderer';
 import ICellRendererFactory from '../renderer/ICellRendererFactory';
-import {IDOMCellRenderer} from '../renderer/IDOMCellRenderers';
+import {IDOMCellRenderer, IDOMGroupRenderer} from '../renderer/IDOMCellRenderers';
 
 export interface IDOMMapping {
   root: string;
@@ -23,8 +23,9 @@ export interface IDOMMapping {
   setSize(n: HTMLElement, width: number, height: number);
 
   translate(n: SVGElement | HTMLElement, x: number, y: number);
-  transform<T>(sel: d3.Selection<T>, callback: (d: T, i: number) => [number, number]);
+  transform<T>(sel: d3.Selection<T>, callback: (d: T, i: number, j?: number) => [number, number]);
   creator(col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IDOMRenderContext): IDOMCellRenderer<SVGElement | HTMLElement>;
+  groupCreator(col: Column, renderers: {[key: string]: ICellRendererFactory}, context: IDOMRenderContext): IDOMGroupRenderer<SVGElement | HTMLElement>;
 
   bg: string;
   updateBG(sel: d3.Selection<any>, callback: (d: any, i: number, j: number) => [number, number]);
@@ -71,7 +72,7 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
     {
       const $rows = $rankings.select(g + '.rows').selectAll(g + '.row').data((d) => d.order, String);
       const $rowsEnter = $rows.enter().append(g).attr('class', 'row');
-      $rowsEnter.call(domMapping.transform, (d, i) => [0, context.cellPrevY(i)]);
+      $rowsEnter.call(domMapping.transform, (d, i, j) => [0, this.rowY(context, data[j], i)]);
 
       $rowsEnter.append(domMapping.bg).attr('class', 'bg');
       $rowsEnter
@@ -81,6 +82,7 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
 
       //create templates
       const createTemplates = (node: HTMLElement|SVGGElement, columns: IRankingColumnData[]) => {
+        node.setAttribute('data-mode', 'row');
         matchColumns(node, columns);
         //set transform
         columns.forEach((col, ci) => {
@@ -98,21 +100,51 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
       });
 
       $rows
-        .attr('class', (d, i) => 'row ' + (i % 2 === 0 ? 'even' : ''))
+        .attr('class', (d, i, j) => 'row ' + ((i < data[j].pinned ? i : i - data[j].pinned) % 2 === 0 ? 'even' : ''))
         .attr('data-data-index', (d) => d)
-        .classed('selected', (d) => this.data.isSelected(d));
+        .attr('data-pinned', (d, i, j) => i < data[j].pinned ? i : null)
+        .classed('pinned', (d, i, j) => i < data[j].pinned)
+        .classed('selected', (d) => this.data.isSelected(d))
+        .classed('aggregate', (d, i, j) => data[j].aggregates.has(i));
       //.classed('highlighted', (d) => this.data.isHighlighted(d.d));
 
       //animated reordering
-      this.animated($rows).call(domMapping.transform, (d, i) => [0, context.cellY(i)]);
+      this.animated($rows).call(domMapping.transform, (d, i, j) => [0, this.rowY(context, data[j], i)]);
+      //the pinned rows cover the scrolled ones
+      $rows.filter('.pinned').each(function () {
+        this.parentNode.appendChild(this);
+      });
 
       //update background helper
       $rows.select(domMapping.bg).attr('class', 'bg')
         .call(domMapping.updateBG, (d, i, j) => [data[j].width, context.rowHeight(i)]);
 
+      //switches between the templates of rows and aggregated groups
+      const switchMode = (node: SVGGElement | HTMLElement, mode: string) => {
+        if (node.getAttribute('data-mode') === mode) {
+          return;
+        }
+        node.innerHTML = '';
+        node.setAttribute('data-mode', mode);
+      };
+
       const updateColumns = (node: SVGGElement | HTMLElement, r: IRankingData, i: number, columns: IRankingColumnData[]) => {
+        const aggregate = r.aggregates.get(i);
+        if (aggregate) {
+          return aggregate.rows.then((rows) => {
+            const groupColumns = columns.map((col) => ({column: col.column, renderer: col.groupRenderer, shift: col.shift}));
+            switchMode(node, 'group');
+            matchColumns(node, groupColumns);
+            groupColumns.forEach((col, ci) => {
+              const cnode: any = node.childNodes[ci];
+              domMapping.translate(cnode, col.shift, 0);
+              col.renderer.update(cnode, aggregate.group, rows);
+            });
+          });
+        }
         //update nodes and create templates
         return r.data[i].then((row) => {
+          switchMode(node, 'row');
           matchColumns(node, columns);
           columns.forEach((col, ci) => {
             const cnode: any = node.childNodes[ci];
@@ -157,6 +189,44 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
     return Promise.all(toWait);
   }
 
+  updateRows(dataIndices: number[]): Promise<any> {
+    const g = this.domMapping.g;
+    const todo: {node: Element, r: IRankingData, i: number, dataIndex: number}[] = [];
+    let partial = true;
+    this.$node.selectAll(g + '.ranking').each(function (r: IRankingData) {
+      dataIndices.forEach((dataIndex) => {
+        const i = r.order.indexOf(dataIndex);
+        if (i < 0) { //not visible
+          return;
+        }
+        if (r.aggregates.has(i) || Array.from(r.aggregates.values()).some((a) => a.group.order.indexOf(dataIndex) >= 0)) {
+          //part of an aggregated group
+          partial = false;
+          return;
+        }
+        const node = (<Element>this).querySelector(`${g}.row[data-data-index="${dataIndex}"]`);
+        if (node) {
+          todo.push({node, r, i, dataIndex});
+        }
+      });
+    });
+    if (!partial) {
+      return super.updateRows(dataIndices);
+    }
+    const update = (node: Element, columns: IRankingColumnData[], row: IDataRow, i: number) => {
+      columns.forEach((col, ci) => {
+        const cnode: any = node.childNodes[ci];
+        if (cnode) {
+          col.renderer.update(cnode, row, i);
+        }
+      });
+    };
+    return Promise.all(todo.map(({node, r, i, dataIndex}) => this.data.fetch([[dataIndex]])[0][0].then((row) => {
+      update(node.querySelector(`${g}.cols`), r.columns, row, i);
+      update(node.querySelector(`${g}.frozen`), r.frozen, row, i);
+    })));
+  }
+
   select(dataIndex: number, additional = false) {
     const selected = super.select(dataIndex, additional);
     this.$node.selectAll(`[data-data-index="${dataIndex}"]`).classed('selected', selected);
@@ -189,7 +259,8 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
   }
 
   renderSlopeGraphs($parent: d3.Selection<any>, data: IRankingData[], context: IBodyRenderContext&IDOMRenderContext, height: number) {
-    const slopes = data.slice(1).map((d, i) => ({left: data[i].order, left_i: i, right: d.order, right_i: i + 1}));
+    //the pinned rows stick to the top and have no slopes
+    const slopes = data.slice(1).map((d, i) => ({left: data[i].order.slice(data[i].pinned), left_i: i, right: d.order.slice(d.pinned), right_i: i + 1}));
 
     const $slopes = $parent.selectAll(this.domMapping.slopes + '.slopegraph').data(slopes);
     $slopes.enter().append(this.domMapping.slopes).attr('class', 'slopegraph');
@@ -220,6 +291,13 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
     $slopes.exit().remove();
   }
 
+  updatePinned(top: number) {
+    super.updatePinned(top);
+    forEach(this.node, this.domMapping.g + '.row.pinned', (row: SVGElement | HTMLElement) => {
+      this.domMapping.translate(row, 0, this.pinnedTop + parseInt(row.getAttribute('data-pinned'), 10) * this.options.rowHeight);
+    });
+  }
+
   updateFreeze(left: number) {
     forEach(this.node, this.domMapping.g + '.row .frozen', (row: SVGElement | HTMLElement) => {
       this.domMapping.translate(row, left, 0);
@@ -234,7 +312,7 @@ abstract class ABodyDOMRenderer extends ABodyRenderer {
   protected abstract updateClipPaths(data: IRankingData[], context: IBodyRenderContext&IDOMRenderContext, height: number);
 
   protected createContextImpl(indexShift: number): IBodyRenderContext {
-    return this.createContext(indexShift, this.domMapping.creator);
+    return this.createContext(indexShift, this.domMapping.creator, this.domMapping.groupCreator);
   }
 
   protected updateImpl(data: IRankingData[], context: IBodyRenderContext, width: number, height: number, reason: ERenderReason) {
@@ -6,9 +6,11 @@ import {event as d3event, mouse as d3mouse} from 'd3';
 import {merge, createTextHints, hideOverlays} from '../utils';
 import Column, {IStatistics} from '../model/Column';
 import SelectionColumn from '../model/SelectionColumn';
-import {createCanvas} from '../renderer/index';
+import AggregateGroupColumn from '../model/AggregateGroupColumn';
+import {IOrderedGroup} from '../model/Group';
+import {createCanvas, createGroupCanvas} from '../renderer/index';
 import DataProvider, {IDataRow}  from '../provider/ADataProvider';
-import ABodyRenderer, {ISlicer, IRankingData, IBodyRenderContext, ERenderReason} from './ABodyRenderer';
+import ABodyRenderer, {ISlicer, IRankingData, IBodyRenderContext, ERenderReason, IRankingColumnData} from './ABodyRenderer';
 import {ICanvasRenderContext} from '../renderer/RendererContexts';
 
 export interface IStyleOptions {
@@ -20,6 +22,7 @@ export interface IStyleOptions {
   hover?: string;
   bg?: string;
   meanLine?: string;
+  pinned?: string;
 }
 
 export interface ICanvasBodyRendererOptions {
@@ -36,7 +39,8 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
       selection: '#ffa500',
       hover: '#e5e5e5',
       bg: '#f7f7f7',
-      meanLine: 'darkgray'
+      meanLine: 'darkgray',
+      pinned: '#eef3f8'
     }
   };
 
@@ -67,18 +71,32 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
   }
 
   private itemUnderMouse(xy: [number, number]) {
-    const row = this.rowUnderMouse(xy[1]);
-    if (row < 0) {
-      return null;
-    }
     const col = this.columnUnderMouse(xy[0]);
     if (col === null) {
       return null;
     }
-    const order = col.findMyRanker().getOrder();
+    const rendered = this.renderedOrders.get(col.findMyRanker().id);
+    if (!rendered) {
+      return null;
+    }
+    //the pinned rows cover the other ones
+    const pinned = this.rowUnderMouse(xy[1] - this.pinnedTop);
+    if (xy[1] >= this.pinnedTop && pinned < rendered.pinned.length) {
+      return {
+        dataIndex: rendered.pinned[pinned],
+        column: col,
+        group: <IOrderedGroup>undefined
+      };
+    }
+    const row = this.rowUnderMouse(xy[1]) - this.pinnedRows;
+    if (row < 0 || row >= rendered.order.length) {
+      return null;
+    }
     return {
-      dataIndex: order[row],
-      column: col
+      dataIndex: rendered.order[row],
+      column: col,
+      //aggregated group rendered in this row if any
+      group: rendered.aggregated.get(row)
     };
   }
 
@@ -88,7 +106,7 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
     this.$node.on('mousemove', () => {
       const mouse = d3mouse(this.node);
       const pos = this.itemUnderMouse(mouse);
-      this.mouseOver(pos ? pos.dataIndex : -1);
+      this.mouseOver(pos && !pos.group ? pos.dataIndex : -1);
     });
     this.$node.on('mouseenter', () => {
       this.mouseOver(-1, false);
@@ -99,13 +117,31 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
     this.$node.on('click', () => {
       const mouse = d3mouse(this.node);
       const pos = this.itemUnderMouse(mouse);
-      if (pos) {
+      if (pos && pos.column instanceof AggregateGroupColumn) {
+        this.toggleAggregated(<AggregateGroupColumn>pos.column, pos.dataIndex, pos.group);
+      } else if (pos && !pos.group) {
         //additional if click on Selection Column
         this.select(pos.dataIndex, (<MouseEvent>d3event).ctrlKey || pos.column instanceof SelectionColumn);
       }
     });
   }
 
+  private toggleAggregated(col: AggregateGroupColumn, dataIndex: number, aggregated?: IOrderedGroup) {
+    if (aggregated) {
+      col.setAggregated(aggregated, false);
+      return;
+    }
+    const ranking = col.findMyRanker();
+    if (ranking.getGroupCriteria() === null) {
+      return;
+    }
+    //just the first row of a group shows the toggle
+    const group = ranking.findGroup(dataIndex);
+    if (group && group.order[0] === dataIndex) {
+      col.setAggregated(group, true);
+    }
+  }
+
   /**
    * get a style
    */
@@ -129,6 +165,13 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
     this.update(); //no shortcut so far
   }
 
+  updatePinned(top: number) {
+    super.updatePinned(top);
+    if (this.pinnedRows > 0) {
+      this.update(); //no shortcut so far
+    }
+  }
+
   mouseOver(dataIndex: number, hover = true) {
     if (hover === (this.currentHover === dataIndex)) {
       return;
@@ -146,20 +189,33 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
   }
 
   private renderRow(ctx: CanvasRenderingContext2D, context: IBodyRenderContext&ICanvasRenderContext, ranking: IRankingData, di: IDataRow, i: number) {
-    const dataIndex = di.dataIndex;
+    this.renderRowImpl(ctx, context, ranking, di.dataIndex, i, (child, dx, dy) => child.renderer(ctx, di, i, dx, dy));
+  }
+
+  private renderAggregate(ctx: CanvasRenderingContext2D, context: IBodyRenderContext&ICanvasRenderContext, ranking: IRankingData, group: IOrderedGroup, rows: IDataRow[], i: number) {
+    //an aggregated group is neither selectable nor hoverable
+    this.renderRowImpl(ctx, context, ranking, -1, i, (child, dx, dy) => child.groupRenderer(ctx, group, rows, dx, dy));
+  }
+
+  private renderRowImpl(ctx: CanvasRenderingContext2D, context: IBodyRenderContext&ICanvasRenderContext, ranking: IRankingData, dataIndex: number, i: number, render: (child: IRankingColumnData, dx: number, dy: number) => void) {
     let dx = ranking.shift;
-    const dy = context.cellY(i);
+    const dy = this.rowY(context, ranking, i);
     ctx.translate(dx, dy);
-    if (i % 2 === 0) {
+    if (i < ranking.pinned) {
+      //opaque to cover the scrolled rows
+      ctx.fillStyle = this.style('pinned');
+      ctx.fillRect(0, 0, ranking.width, context.rowHeight(i));
+      ctx.fillStyle = this.style('text');
+    } else if ((i - ranking.pinned) % 2 === 0) {
       ctx.fillStyle = this.style('bg');
       ctx.fillRect(0, 0, ranking.width, context.rowHeight(i));
       ctx.fillStyle = this.style('text');
     }
-    const isSelected = this.data.isSelected(dataIndex);
+    const isSelected = dataIndex >= 0 && this.data.isSelected(dataIndex);
     if (isSelected) {
       ctx.strokeStyle = this.style('selection');
       ctx.strokeRect(0, 0, ranking.width, context.rowHeight(i));
-    } else if (this.isHovered(dataIndex)) {
+    } else if (dataIndex >= 0 && this.isHovered(dataIndex)) {
       ctx.strokeStyle = this.style('hover');
       ctx.strokeRect(0, 0, ranking.width, context.rowHeight(i));
     }
@@ -175,7 +231,7 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
     ranking.columns.forEach((child) => {
       ctx.save();
       ctx.translate(child.shift, 0);
-      child.renderer(ctx, di, i, dx + child.shift, dy);
+      render(child, dx + child.shift, dy);
       ctx.restore();
     });
     ctx.restore();
@@ -185,7 +241,7 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
     ranking.frozen.forEach((child) => {
       ctx.save();
       ctx.translate(child.shift, 0);
-      child.renderer(ctx, di, i, dx + child.shift, dy);
+      render(child, dx + child.shift, dy);
       ctx.restore();
     });
     ctx.translate(-dx, -dy);
@@ -215,22 +271,31 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
   renderRankings(ctx: CanvasRenderingContext2D, data: IRankingData[], context: IBodyRenderContext&ICanvasRenderContext, height) {
 
     const renderRow = this.renderRow.bind(this, ctx, context);
+    const renderAggregate = this.renderAggregate.bind(this, ctx, context);
 
     //asynchronous rendering!!!
     const all = Promise.all.bind(Promise);
     return all(data.map((ranking) => {
       const toRender = ranking.data;
-      return all(toRender.map((p, i) => {
+      const rendered = all(toRender.slice(ranking.pinned).map((p, j) => {
+        const i = j + ranking.pinned;
+        const aggregate = ranking.aggregates.get(i);
+        if (aggregate) {
+          return aggregate.rows.then((rows: IDataRow[]) => renderAggregate(ranking, aggregate.group, rows, i));
+        }
         // TODO render loading row
         return p.then((di: IDataRow) =>
           renderRow(ranking, di, i)
         );
       })).then(() => this.renderMeanlines(ctx, ranking, height));
+      //the pinned rows are rendered last to cover the scrolled ones
+      return rendered.then(() => all(toRender.slice(0, ranking.pinned).map((p, i) => p.then((di: IDataRow) => renderRow(ranking, di, i)))));
     }));
   }
 
   renderSlopeGraphs(ctx: CanvasRenderingContext2D, data: IRankingData[], context: IBodyRenderContext&ICanvasRenderContext) {
-    const slopes = data.slice(1).map((d, i) => ({left: data[i].order, left_i: i, right: d.order, right_i: i + 1}));
+    //the pinned rows stick to the top and have no slopes
+    const slopes = data.slice(1).map((d, i) => ({left: data[i].order.slice(data[i].pinned), left_i: i, right: d.order.slice(d.pinned), right_i: i + 1}));
     ctx.save();
     ctx.strokeStyle = this.style('slope');
     slopes.forEach((slope, i) => {
@@ -272,7 +337,7 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
   }
 
   protected createContextImpl(indexShift: number): ICanvasRenderContext&IBodyRenderContext {
-    const base: any = this.createContext(indexShift, createCanvas);
+    const base: any = this.createContext(indexShift, createCanvas, createGroupCanvas);
     base.hovered = this.isHovered.bind(this);
     base.selected = (dataIndex: number) => this.data.isSelected(dataIndex);
     base.bodyDOMElement = <HTMLElement>this.$node.node();
@@ -292,8 +357,9 @@ export default class BodyCanvasRenderer extends ABodyRenderer {
   protected updateImpl(data: IRankingData[], context: IBodyRenderContext&ICanvasRenderContext, width: number, height: number, reason: ERenderReason) {
     const $canvas = this.$node.select('canvas');
 
-    const firstLine = Math.max(context.cellY(0) - 20, 0); //where to start
-    const lastLine = Math.min(context.cellY(Math.max(...data.map((d) => d.order.length))) + 20, height);
+    //where to start, including the pinned rows on top of the visible area
+    const firstLine = Math.max(Math.min(context.cellY(0), this.pinnedRows > 0 ? this.pinnedTop : Infinity) - 20, 0);
+    const lastLine = Math.min(context.cellY(Math.max(...data.map((d) => d.order.length - d.pinned))) + 20, height);
 
     this.$node.style({
       width: Math.max(0, width) + 'px',
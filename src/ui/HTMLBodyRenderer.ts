@@ -4,7 +4,7 @@
 
 import {Selection} from 'd3';
 import DataProvider from '../provider/ADataProvider';
-import {createHTML} from '../renderer/index';
+import {createHTML, createGroupHTML} from '../renderer/index';
 import {ISlicer, IRankingData, IBodyRenderContext} from './ABodyRenderer';
 import ADOMBodyRenderer, {} from './ADOMBodyRenderer';
 import {IDOMRenderContext} from '../renderer/RendererContexts';
@@ -35,10 +35,11 @@ const domHTMLMappings = {
   },
 
   creator: createHTML,
+  groupCreator: createGroupHTML,
   translate: (n: HTMLElement, x: number, y: number) => n.style.transform = `translate(${x}px,${y}px)`,
-  transform(sel: Selection<any>, callback: (d: any, i: number) => [number, number]) {
-    sel.style('transform', (d, i) => {
-      const r = callback(d, i);
+  transform(sel: Selection<any>, callback: (d: any, i: number, j?: number) => [number, number]) {
+    sel.style('transform', (d, i, j?) => {
+      const r = callback(d, i, j);
       return `translate(${r[0]}px,${r[1]}px)`;
     });
   }
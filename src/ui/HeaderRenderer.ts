@@ -8,8 +8,9 @@ import Column, {IStatistics, ICategoricalStatistics, IFlatColumn} from '../model
 import StringColumn from '../model/StringColumn';
 import Ranking from '../model/Ranking';
 import {default as CompositeColumn, IMultiLevelColumn, isMultiLevelColumn} from '../model/CompositeColumn';
-import NumberColumn, {isNumberColumn, INumberColumn} from '../model/NumberColumn';
-import CategoricalColumn, {isCategoricalColumn} from '../model/CategoricalColumn';
+import NumberColumn, {isNumberColumn, INumberColumn, IMappingFunction} from '../model/NumberColumn';
+import CategoricalColumn, {isCategoricalColumn, isCategoryIncluded} from '../model/CategoricalColumn';
+import CategoricalNumberColumn from '../model/CategoricalNumberColumn';
 import RankColumn from '../model/RankColumn';
 import StackColumn, {createDesc as createStackDesc} from '../model/StackColumn';
 import {createDesc as createNestedDesc} from '../model/NestedColumn';
@@ -17,7 +18,13 @@ import LinkColumn from '../model/LinkColumn';
 import ScriptColumn from '../model/ScriptColumn';
 import DataProvider from '../provider/ADataProvider';
 import MultiValueColumn from '../model/MultiValueColumn';
-import BoxPlotColumn, {IBoxPlotColumn} from '../model/BoxPlotColumn';
+import BoxPlotColumn, {IBoxPlotColumn, IBoxPlotData} from '../model/BoxPlotColumn';
+import {computeLabel} from '../renderer/BoxplotCellRenderer';
+import AggregateGroupColumn, {createDesc as createAggregateDesc} from '../model/AggregateGroupColumn';
+import DateColumn from '../model/DateColumn';
+import RankDeltaColumn, {createDesc as createRankDeltaDesc} from '../model/RankDeltaColumn';
+import HierarchyColumn from '../model/HierarchyColumn';
+import SetColumn from '../model/SetColumn';
 
 import SearchDialog from '../dialogs/SearchDialog';
 import RenameDialog from '../dialogs/RenameDialog';
@@ -25,12 +32,24 @@ import EditLinkDialog from '../dialogs/EditLinkDialog';
 import RendererTypeDialog from '../dialogs/RendererTypeDialog';
 import WeightsEditDialog from '../dialogs/WeightsEditDialog';
 import SortDialog from '../dialogs/SortDialog';
+import RankingSortDialog from '../dialogs/RankingSortDialog';
 
 import StringFilterDialog from '../dialogs/StringFilterDialog';
 import BooleanFilterDialog from '../dialogs/BooleanFilterDialog';
 import CategoricalFilterDialog from '../dialogs/CategoricalFilterDialog';
 import MappingsFilterDialog from '../dialogs/MappingsFilterDialog';
 import CategoricalMappingFilterDialog from '../dialogs/CategoricalMappingFilterDialog';
+import DateFilterDialog from '../dialogs/DateFilterDialog';
+import FilterExpressionDialog from '../dialogs/FilterExpressionDialog';
+import RankDeltaFilterDialog from '../dialogs/RankDeltaFilterDialog';
+import RankDeltaReferenceDialog from '../dialogs/RankDeltaReferenceDialog';
+import FormulaDialog from '../dialogs/FormulaDialog';
+import HierarchyFilterDialog from '../dialogs/HierarchyFilterDialog';
+import SetFilterDialog from '../dialogs/SetFilterDialog';
+import MultiValueFilterDialog from '../dialogs/MultiValueFilterDialog';
+import SummaryDialog from '../dialogs/SummaryDialog';
+import TieModeDialog from '../dialogs/TieModeDialog';
+import PinnedRowsDialog from '../dialogs/PinnedRowsDialog';
 
 import {IFilterDialog} from '../dialogs/AFilterDialog';
 import ScriptEditDialog from '../dialogs/ScriptEditDialog';
@@ -47,6 +66,47 @@ export function toFullTooltip(col: {label: string, description?: string}) {
   return base;
 }
 
+/**
+ * inverts the given mapping function by a binary search within its domain assuming it is monotonic
+ * @param mapping
+ * @param v normalized value
+ * @returns {number} the raw value, an infinite one for the ends of the normalized range
+ */
+function invertMapping(mapping: IMappingFunction, v: number) {
+  const domain = mapping.domain;
+  let lo = domain[0], hi = domain[domain.length - 1];
+  const increasing = mapping.apply(hi) >= mapping.apply(lo);
+  if (v <= 0 || v >= 1) { //open end
+    return (v <= 0) === increasing ? -Infinity : Infinity;
+  }
+  for (let i = 0; i < 50; ++i) {
+    const mid = (lo + hi) / 2;
+    if ((mapping.apply(mid) < v) === increasing) {
+      lo = mid;
+    } else {
+      hi = mid;
+    }
+  }
+  return (lo + hi) / 2;
+}
+
+/**
+ * the normalized range of the filter of the given number column
+ * @param col
+ * @returns {[number,number]} the range or null if the column isn't filtered by range
+ */
+function normalizedFilterRange(col: NumberColumn): [number, number] {
+  const filter = col.getFilter();
+  if (!isFinite(filter.min) && !isFinite(filter.max)) {
+    return null;
+  }
+  const mapping = col.getMapping();
+  const domain = mapping.domain;
+  const a = mapping.apply(isFinite(filter.min) ? filter.min : domain[0]);
+  const b = mapping.apply(isFinite(filter.max) ? filter.max : domain[domain.length - 1]);
+  return [Math.min(a, b), Math.max(a, b)];
+}
+
 export interface IRankingHook {
   ($node: d3.Selection<Ranking>): void;
 }
@@ -78,6 +138,21 @@ export interface IHeaderRendererOptions {
   rankingButtons?: IRankingHook;
 }
 
+/**
+ * the binning of the histogram of a categorical column, e.g. the date binning or the drill level of a hierarchy
+ * @param col
+ * @returns {string} null if the bins are fixed
+ */
+function binningOf(col: Column) {
+  if (col instanceof DateColumn) {
+    return col.getBinning();
+  }
+  if (col instanceof HierarchyColumn) {
+    return String(col.getLevel());
+  }
+  return null;
+}
+
 function countMultiLevel(c: Column): number {
   if (isMultiLevelColumn(c) && !(<IMultiLevelColumn>c).getCollapsed() && !c.getCompressed()) {
     return 1 + Math.max.apply(Math, (<IMultiLevelColumn>c).children.map(countMultiLevel));
@@ -85,6 +160,16 @@ function countMultiLevel(c: Column): number {
   return 1;
 }
 
+/**
+ * toggles the sorting of the given column, shift appends it as additional sort criteria
+ */
+function toggleSorting(col: Column, event: MouseEvent) {
+  if (event.shiftKey) {
+    col.toggleMySortCriteria();
+  } else {
+    col.toggleMySorting();
+  }
+}
 
 export default class HeaderRenderer {
   private readonly options: IHeaderRendererOptions = {
@@ -100,7 +185,14 @@ export default class HeaderRenderer {
       'boolean': BooleanFilterDialog,
       'categorical': CategoricalFilterDialog,
       'number': MappingsFilterDialog,
-      'ordinal': CategoricalMappingFilterDialog
+      'ordinal': CategoricalMappingFilterDialog,
+      'date': DateFilterDialog,
+      'rank': FilterExpressionDialog,
+      'rankdelta': RankDeltaFilterDialog,
+      'hierarchy': HierarchyFilterDialog,
+      'set': SetFilterDialog,
+      'multiValue': MultiValueFilterDialog,
+      'boxplot': MultiValueFilterDialog
     },
     linkTemplates: [],
     searchAble: (col: Column) => col instanceof StringColumn,
@@ -118,6 +210,14 @@ export default class HeaderRenderer {
   readonly $node: d3.Selection<any>;
 
   private histCache = new Map<string,Promise<IStatistics|ICategoricalStatistics>>();
+  /**
+   * the aggregated distributions of the multi value columns
+   */
+  private readonly summaryCache = new Map<string,Promise<IBoxPlotData>>();
+  /**
+   * the binning of the date and hierarchy columns the cached histograms were computed with
+   */
+  private readonly histBinnings = new Map<string,string>();
 
   private readonly dragHandler = d3.behavior.drag<Column>()
   //.origin((d) => d)
@@ -174,12 +274,12 @@ export default class HeaderRenderer {
 
   changeDataStorage(data: DataProvider) {
     if (this.data) {
-      this.data.on([DataProvider.EVENT_DIRTY_HEADER + '.headerRenderer', DataProvider.EVENT_ORDER_CHANGED + '.headerRenderer', DataProvider.EVENT_SELECTION_CHANGED + '.headerRenderer'], null);
+      this.data.on([DataProvider.EVENT_DIRTY_HEADER + '.headerRenderer', DataProvider.EVENT_ORDER_CHANGED + '.headerRenderer', DataProvider.EVENT_SELECTION_CHANGED + '.headerRenderer', DataProvider.EVENT_ROWS_UPDATED + '.headerRenderer'], null);
     }
     this.data = data;
     data.on(DataProvider.EVENT_DIRTY_HEADER + '.headerRenderer', delayedCall(this.update.bind(this), 1));
     if (this.options.histograms) {
-      data.on(DataProvider.EVENT_ORDER_CHANGED + '.headerRenderer', () => {
+      data.on([DataProvider.EVENT_ORDER_CHANGED + '.headerRenderer', DataProvider.EVENT_ROWS_UPDATED + '.headerRenderer'], () => {
         this.updateHist();
         this.update();
       });
@@ -208,8 +308,18 @@ export default class HeaderRenderer {
       cols.filter((d) => d instanceof NumberColumn && !d.isHidden()).forEach((col: any) => {
         this.histCache.set(col.id, histo === null ? null : histo.stats(col));
       });
+      //aggregated distribution of all values of the rows
+      cols.filter((d) => d instanceof MultiValueColumn && !d.isHidden()).forEach((col: MultiValueColumn) => {
+        //the stats of the summary statistic e.g. for the mean line
+        this.histCache.set(col.id, histo === null ? null : histo.stats(col));
+        this.summaryCache.set(col.id, histo === null ? null : histo.summary(col));
+      });
       cols.filter((d) => isCategoricalColumn(d) && !d.isHidden()).forEach((col: any) => {
         this.histCache.set(col.id, histo === null ? null : histo.hist(col));
+        const binning = binningOf(col);
+        if (binning !== null) {
+          this.histBinnings.set(col.id, binning);
+        }
       });
     });
   }
@@ -230,44 +340,142 @@ export default class HeaderRenderer {
       return;
     }
     this.data.view(indices).then((data) => {
-      //get the data
-
-      const rankings = this.data.getRankings();
-
-      rankings.forEach((ranking) => {
-        const cols = ranking.flatColumns;
-        //find all number histograms
-        cols.filter((d) => d instanceof NumberColumn && !d.isHidden()).forEach((col: NumberColumn) => {
-          const bars = [].slice.call(node.querySelectorAll(`div.header[data-id="${col.id}"] div.bar`));
-          data.forEach((d, i) => {
-            const v = col.getValue(d, indices[i]);
-            //choose the right bin
-            for (let i = 1; i < bars.length; ++i) {
-              const bar = bars[i];
-              if (bar.dataset.x > v) { //previous bin
-                bars[i - 1].classList.add('selected');
-                break;
-              } else if (i === bars.length - 1) { //last bin
-                bar.classList.add('selected');
-                break;
-              }
-            }
-          });
+      this.data.getRankings().forEach((ranking) => {
+        this.countRowsPerBar(ranking.flatColumns, data, indices).forEach((count, bar) => bar.classList.add('selected'));
+      });
+    });
+  }
+
+  /**
+   * counts the given rows per histogram bar of the given columns
+   * @param cols
+   * @param data the rows
+   * @param indices their data indices
+   * @returns {Map<Element, number>} the number of rows per bar
+   */
+  private countRowsPerBar(cols: Column[], data: any[], indices: number[]) {
+    const node = <HTMLElement>this.$node.node();
+    const counts = new Map<Element, number>();
+    const inc = (bar: Element) => counts.set(bar, (counts.get(bar) || 0) + 1);
+
+    //find all number histograms
+    cols.filter((d) => d instanceof NumberColumn && !d.isHidden()).forEach((col: NumberColumn) => {
+      const bars = [].slice.call(node.querySelectorAll(`div.header[data-id="${col.id}"] div.bar`));
+      data.forEach((d, i) => {
+        const v = col.getValue(d, indices[i]);
+        //choose the right bin
+        for (let i = 1; i < bars.length; ++i) {
+          const bar = bars[i];
+          if (bar.dataset.x > v) { //previous bin
+            inc(bars[i - 1]);
+            break;
+          } else if (i === bars.length - 1) { //last bin
+            inc(bar);
+            break;
+          }
+        }
+      });
+    });
+    cols.filter((d) => isCategoricalColumn(d) && !d.isHidden()).forEach((col: CategoricalColumn) => {
+      const header = node.querySelector(`div.header[data-id="${col.id}"]`);
+      if (!header) {
+        return;
+      }
+      data.forEach((d, i) => {
+        const cats = col.getCategories(d, indices[i]);
+        (cats || []).forEach((cat) => {
+          const h = header.querySelector(`div.bar[data-cat="${cat}"]`);
+          if (h) {
+            inc(h);
+          }
         });
-        cols.filter((d) => isCategoricalColumn(d) && !d.isHidden()).forEach((col: CategoricalColumn) => {
-          const header = node.querySelector(`div.header[data-id="${col.id}"]`);
-          data.forEach((d, i) => {
-            const cats = col.getCategories(d, indices[i]);
-            (cats || []).forEach((cat) => {
-              const h = header.querySelector(`div.bar[data-cat="${cat}"]`);
-              if (h) {
-                h.classList.add('selected');
-              }
-            });
-          });
+      });
+    });
+    return counts;
+  }
+
+  /**
+   * highlights the share of the given rows in the histograms of all columns besides the source one
+   * @param source the column whose histogram is brushed
+   * @param data the rows to highlight, none to remove the highlight
+   * @param indices their data indices
+   */
+  private highlightRows(source: Column, data: any[] = [], indices: number[] = []) {
+    const node = <HTMLElement>this.$node.node();
+    forEach(node, 'div.bar > div.highlight', (d) => d.parentElement.removeChild(d));
+    if (data.length === 0) {
+      return;
+    }
+    const cols = [].concat(...this.data.getRankings().map((r) => r.flatColumns)).filter((d) => d !== source);
+    this.countRowsPerBar(cols, data, indices).forEach((count, bar: HTMLElement) => {
+      const total = parseInt(bar.dataset.y, 10);
+      const highlight = bar.ownerDocument.createElement('div');
+      highlight.classList.add('highlight');
+      highlight.style.height = `${Math.min(100, total > 0 ? count / total * 100 : 0)}%`;
+      bar.appendChild(highlight);
+    });
+  }
+
+  /**
+   * renders a brush on the histogram of a number column to filter its values
+   * @param $histogram
+   * @param col
+   */
+  private renderBrush($histogram: d3.Selection<any>, col: NumberColumn) {
+    let $brush = $histogram.select('svg.brush');
+    if ($brush.empty()) {
+      //scaled to the histogram, d3.mouse considers the view box
+      $brush = $histogram.append('svg').classed('brush', true).attr({
+        viewBox: '0 0 100 100',
+        preserveAspectRatio: 'none'
+      });
+      $brush.append('rect').attr('class', 'filtered left');
+      $brush.append('rect').attr('class', 'filtered right');
+      $brush.append('g');
+    }
+    //grey out the filtered out parts
+    const updateMask = (range: [number, number]) => {
+      $brush.select('rect.left').attr({x: 0, width: range ? range[0] * 100 : 0, height: 100});
+      $brush.select('rect.right').attr({x: range ? range[1] * 100 : 100, width: range ? (1 - range[1]) * 100 : 0, height: 100});
+    };
+
+    const brush = d3.svg.brush().x(d3.scale.linear().range([0, 100]));
+    const range = normalizedFilterRange(col);
+    if (range) {
+      brush.extent(range);
+    }
+    updateMask(range);
+
+    let rows: Promise<{data: any[], indices: number[]}> = null;
+    let brushing = false;
+    brush.on('brushstart', () => {
+      brushing = true;
+      const indices = col.findMyRanker().getOrder() || [];
+      rows = this.data.view(indices).then((data) => ({data, indices}));
+    }).on('brush', () => {
+      const [min, max] = <[number, number]>brush.extent();
+      updateMask(brush.empty() ? null : [min, max]);
+      rows.then(({data, indices}) => {
+        if (!brushing) {
+          return;
+        }
+        const inside = indices.map((index, i) => {
+          const v = col.getValue(data[i], index);
+          return v >= min && v <= max;
         });
+        this.highlightRows(col, data.filter((d, i) => inside[i]), indices.filter((d, i) => inside[i]));
       });
+    }).on('brushend', () => {
+      brushing = false;
+      this.highlightRows(col);
+      if (brush.empty()) {
+        col.setFilter({min: -Infinity, max: Infinity, filterMissing: col.filterMissing});
+        return;
+      }
+      const [min, max] = (<[number, number]>brush.extent()).map((v) => invertMapping(col.getMapping(), v)).sort((a, b) => a - b);
+      col.setFilter({min, max, filterMissing: col.filterMissing});
     });
+    $brush.select('g').call(brush).selectAll('rect').attr('height', 100);
   }
 
   private renderRankingButtons(rankings: Ranking[], rankingsOffsets: number[]) {
@@ -279,6 +487,30 @@ export default class HeaderRenderer {
     $rankingbuttons.exit().remove();
   }
 
+  /**
+   * filters the categorical column by the clicked category
+   * @param col
+   * @param cat the clicked category
+   * @param toggle whether to add or remove the category to or from the current filter instead of filtering just by it
+   */
+  private toggleCategory(col: CategoricalColumn | CategoricalNumberColumn, cat: string, toggle: boolean) {
+    const current = col.getFilter();
+    const filterMissing = current !== null && current.filterMissing;
+    const active = current === null ? col.categories : col.categories.filter((c) => isCategoryIncluded(current.filter, c));
+    let cats: string[];
+    if (toggle) {
+      cats = active.indexOf(cat) >= 0 ? active.filter((c) => c !== cat) : active.concat([cat]);
+    } else {
+      //clicking the single active category again resets the filter
+      cats = active.length === 1 && active[0] === cat ? col.categories : [cat];
+    }
+    if (cats.length === col.categories.length && !filterMissing) {
+      col.setFilter(null);
+    } else {
+      col.setFilter({filter: cats, filterMissing});
+    }
+  }
+
   update() {
     const that = this;
     const rankings = this.data.getRankings();
@@ -348,6 +580,88 @@ export default class HeaderRenderer {
       (<MouseEvent>d3.event).stopPropagation();
     });
 
+    //group by
+    $node.filter((d) => isCategoricalColumn(d) || d instanceof NumberColumn).append('i').attr('class', 'fa fa-object-group').attr('title', 'Group By').on('click', function (d) {
+      const ranking = d.findMyRanker();
+      if (!ranking.children.some((c) => c instanceof AggregateGroupColumn)) {
+        //add a column to toggle the aggregation of groups
+        provider.insert(ranking, 0, createAggregateDesc());
+      }
+      ranking.toggleGrouping(d);
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //sort criterias of the ranking
+    $node.filter((d) => d instanceof RankColumn).append('i').attr('class', 'fa fa-sort-amount-desc').attr('title', 'Sort Criterias').on('click', function (d) {
+      const dialog = new RankingSortDialog(d.findMyRanker(), d3.select(this.parentNode.parentNode));
+      dialog.openDialog();
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //how to rank rows with equal values
+    $node.filter((d) => d instanceof RankColumn).append('i').attr('class', 'fa fa-list-ol').attr('title', 'Tie Mode').on('click', function (d) {
+      const dialog = new TieModeDialog(<RankColumn>d, d3.select(this.parentNode.parentNode));
+      dialog.openDialog();
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //pin the selected rows on top of the ranking
+    $node.filter((d) => d instanceof RankColumn).append('i').attr('class', 'fa fa-thumb-tack').attr('title', 'Pinned Rows').on('click', function (d) {
+      const dialog = new PinnedRowsDialog(d.findMyRanker(), d3.select(this.parentNode.parentNode), provider.getSelection());
+      dialog.openDialog();
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //track rank changes starting with the current order
+    $node.filter((d) => d instanceof RankColumn).append('i').attr('class', 'fa fa-arrows-v').attr('title', 'Track Rank Changes').on('click', function (d) {
+      const ranking = d.findMyRanker();
+      const delta = <RankDeltaColumn>provider.insert(ranking, ranking.children.indexOf(d) + 1, createRankDeltaDesc());
+      if (delta) {
+        delta.pin();
+      }
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+    //add a column computed out of the raw fields of the rows
+    $node.filter((d) => d instanceof RankColumn).append('i').attr('class', 'fa fa-calculator').attr('title', 'Add Formula Column').on('click', function (d) {
+      const dialog = new FormulaDialog(d.findMyRanker(), d3.select(this.parentNode.parentNode), provider);
+      dialog.openDialog();
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+    //change the reference of the rank changes
+    $node.filter((d) => d instanceof RankDeltaColumn).append('i').attr('class', 'fa fa-thumb-tack').attr('title', 'Compare With').on('click', function (d) {
+      const dialog = new RankDeltaReferenceDialog(<RankDeltaColumn>d, d3.select(this.parentNode.parentNode), provider.getRankings());
+      dialog.openDialog();
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //drill up and down the levels of a hierarchy
+    $node.filter((d) => d instanceof HierarchyColumn).append('i').attr('class', 'fa fa-level-up').attr('title', 'Drill Up').on('click', function (d: HierarchyColumn) {
+      d.setLevel(d.getLevel() - 1);
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+    $node.filter((d) => d instanceof HierarchyColumn).append('i').attr('class', 'fa fa-level-down').attr('title', 'Drill Down').on('click', function (d: HierarchyColumn) {
+      d.setLevel(d.getLevel() + 1);
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //sort a set by the similarity to the selected row
+    $node.filter((d) => d instanceof SetColumn).append('i').attr('class', 'fa fa-clone').attr('title', 'Sort by Similarity to Selection').on('click', function (d: SetColumn) {
+      const selection = provider.getSelection();
+      if (selection.length === 0) {
+        d.setReference(null, -1);
+      } else {
+        provider.view(selection.slice(0, 1)).then((rows) => d.setReference(rows[0], selection[0]));
+      }
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
+    //MultiValue Summary
+    $node.filter((d) => d instanceof MultiValueColumn || d instanceof BoxPlotColumn).append('i').attr('class', 'fa fa-compress').attr('title', 'Summary').on('click', function (d) {
+      const dialog = new SummaryDialog(<MultiValueColumn|BoxPlotColumn>d, d3.select(this.parentNode.parentNode));
+      dialog.openDialog();
+      (<MouseEvent>d3.event).stopPropagation();
+    });
+
     //MultiValue Sort
     $node.filter((d) => d instanceof MultiValueColumn || d instanceof BoxPlotColumn).append('i').attr('class', 'fa fa-sort').attr('title', 'Sort By').on('click', function (d) {
       const dialog = new SortDialog(<IBoxPlotColumn><any>d, d3.select(this.parentNode.parentNode));
@@ -449,14 +763,14 @@ export default class HeaderRenderer {
       .on('click', (d) => {
         const mevent = <MouseEvent>d3.event;
         if (this.options.manipulative && !mevent.defaultPrevented && mevent.currentTarget === mevent.target) {
-          d.toggleMySorting();
+          toggleSorting(d, mevent);
         }
       });
     const $headersEnterDiv = $headersEnter.append('div').classed('lu-label', true)
       .on('click', (d) => {
         const mevent = <MouseEvent>d3.event;
         if (this.options.manipulative && !mevent.defaultPrevented) {
-          d.toggleMySorting();
+          toggleSorting(d, mevent);
         }
       })
       .on('dragstart', (d) => {
@@ -494,22 +808,19 @@ export default class HeaderRenderer {
       'background-color': (d) => d.color
     });
     $headers.attr({
-      'class': (d) => `${clazz} ${d.cssClass || ''} ${(d.getCompressed() ? 'compressed' : '')} ${d.headerCssClass} ${this.options.autoRotateLabels ? 'rotateable' : ''} ${d.isFiltered() ? 'filtered' : ''}`,
+      'class': (d) => `${clazz} ${d.cssClass || ''} ${(d.getCompressed() ? 'compressed' : '')} ${d.headerCssClass} ${this.options.autoRotateLabels ? 'rotateable' : ''} ${d.isFiltered() || (d instanceof RankColumn && d.findMyRanker().getFilterExpression() !== '') ? 'filtered' : ''}`,
       title: (d) => toFullTooltip(d),
       'data-id': (d) => d.id
     });
-    $headers.select('i.sort_indicator').attr('class', (d) => {
+    $headers.select('i.sort_indicator').each(function (d) {
       const r = d.findMyRanker();
-      if (!r) {
-        return 'sort_indicator fa';
-      }
-      const criterias = r.getSortCriterias();
+      const criterias = r ? r.getSortCriterias() : [];
       const index = criterias.findIndex((c) => c.col === d);
-      if (index === 0) { // just show the primary for now
-        // TODO handle if secondary, ... criteria
-        return 'sort_indicator fa fa-sort-' + (criterias[index].asc ? 'asc' : 'desc');
-      }
-      return 'sort_indicator fa';
+      d3.select(this).attr({
+        'class': 'sort_indicator fa' + (index >= 0 ? ' fa-sort-' + (criterias[index].asc ? 'asc' : 'desc') : ''),
+        // number the criterias if there are nested ones
+        'data-sort-index': index >= 0 && criterias.length > 1 ? index + 1 : null
+      });
     });
     $headers.select('span.lu-label').text((d) => d.label);
 
@@ -576,28 +887,50 @@ export default class HeaderRenderer {
 
       $headers.filter((d) => isCategoricalColumn(d)).each(function (col: CategoricalColumn) {
         const $this = d3.select(this).select('div.histogram');
+        const binning = binningOf(col);
+        if (binning !== null && that.histBinnings.has(col.id) && that.histBinnings.get(col.id) !== binning) {
+          //binning changed, so the cached bins are outdated
+          const order = col.findMyRanker().getOrder();
+          that.histCache.set(col.id, order == null ? null : that.data.stats(order).hist(col));
+          that.histBinnings.set(col.id, binning);
+        }
         const hist = that.histCache.get(col.id);
         if (hist) {
           hist.then((stats: ICategoricalStatistics) => {
             const $bars = $this.selectAll('div.bar').data(stats.hist);
             $bars.enter().append('div').classed('bar', true);
-            const sx = d3.scale.ordinal().domain(col.categories).rangeBands([0, 100], 0.1);
+            //without known categories use the sorted bins, e.g. of a date column without domain
+            const cats = col.categories.length > 0 ? col.categories : stats.hist.map((d) => d.cat).sort();
+            const sx = d3.scale.ordinal().domain(cats).rangeBands([0, 100], 0.1);
             const sy = d3.scale.linear().domain([0, stats.maxBin]).range([0, 100]);
+            const hierarchy = col instanceof HierarchyColumn ? <HierarchyColumn><any>col : null;
+            const filterAble = that.options.manipulative && (col instanceof CategoricalColumn || col instanceof CategoricalNumberColumn || hierarchy !== null);
+            const filter = filterAble ? col.getFilter() : null;
+            const isFilteredOut = hierarchy !== null ?
+              //none of the leaves of the category is included
+              (cat: string) => filter !== null && hierarchy.leavesOf([cat]).every((leaf) => !hierarchy.isIncluded(leaf)) :
+              (cat: string) => filter !== null && !isCategoryIncluded(filter.filter, cat);
+            const toggleCategory = hierarchy !== null ?
+              (cat: string, toggle: boolean) => hierarchy.toggleCategoryFilter(cat, toggle) :
+              (cat: string, toggle: boolean) => that.toggleCategory(col, cat, toggle);
             $bars.style({
               left: (d) => sx(d.cat) + '%',
               width: (d) => sx.rangeBand() + '%',
-              top: (d) => (100 - sy(d.y)) + '%',
-              height: (d) => sy(d.y) + '%',
+              //filtered out categories are shown as full height greyed bars to be able to include them again
+              top: (d) => isFilteredOut(d.cat) ? '0%' : (100 - sy(d.y)) + '%',
+              height: (d) => isFilteredOut(d.cat) ? '100%' : sy(d.y) + '%',
               'background-color': (d) => col.colorOf(d.cat)
             }).attr({
               title: (d) => `${d.cat}: ${d.y}`,
-              'data-cat': (d) => d.cat
-            });
+              'data-cat': (d) => d.cat,
+              'data-y': (d) => d.y
+            }).classed('filtered', (d) => isFilteredOut(d.cat))
+              .on('click', filterAble ? (d) => toggleCategory(d.cat, (<MouseEvent>d3.event).ctrlKey || (<MouseEvent>d3.event).shiftKey) : null);
             $bars.exit().remove();
           });
         }
       });
-      $headers.filter((d) => d instanceof NumberColumn).each(function (col: Column) {
+      $headers.filter((d) => d instanceof NumberColumn).each(function (col: NumberColumn) {
         const $this = d3.select(this).select('div.histogram');
         const hist = that.histCache.get(col.id);
         if (hist) {
@@ -613,15 +946,56 @@ export default class HeaderRenderer {
               height: (d) => sy(d.y) + '%'
             }).attr({
               title: (d, i) => `Bin ${i}: ${d.y}`,
-              'data-x': (d) => d.x
+              'data-x': (d) => d.x,
+              'data-y': (d) => d.y
             });
             $bars.exit().remove();
 
+            if (that.options.manipulative) {
+              that.renderBrush($this, col);
+            }
+
             let $mean = $this.select('div.mean');
             if ($mean.empty()) {
               $mean = $this.append('div').classed('mean', true);
             }
             $mean.style('left', (stats.mean * 100) + '%');
+
+            let $missing = $this.select('div.missing');
+            if ($missing.empty()) {
+              $missing = $this.append('div').classed('missing', true);
+            }
+            $missing.text(stats.missing > 0 ? `${stats.missing} missing` : '');
+          });
+        }
+      });
+      $headers.filter((d) => d instanceof MultiValueColumn).each(function (col: MultiValueColumn) {
+        const $this = d3.select(this).select('div.histogram');
+        const summary = that.summaryCache.get(col.id);
+        if (summary) {
+          summary.then((box) => {
+            let $box = $this.select('div.boxplot');
+            if ($box.empty()) {
+              $box = $this.append('div').classed('boxplot', true);
+              $box.append('div').classed('whisker', true);
+              $box.append('div').classed('box', true);
+              $box.append('div').classed('median', true);
+            }
+            if (box === null) {
+              $box.style('display', 'none');
+              return;
+            }
+            const scale = d3.scale.linear().domain(col.getDomain()).range([0, 100]).clamp(true);
+            $box.style('display', null).attr('title', computeLabel(box));
+            $box.select('div.whisker').style({
+              left: scale(box.min) + '%',
+              width: (scale(box.max) - scale(box.min)) + '%'
+            });
+            $box.select('div.box').style({
+              left: scale(box.q1) + '%',
+              width: (scale(box.q3) - scale(box.q1)) + '%'
+            });
+            $box.select('div.median').style('left', scale(box.median) + '%');
           });
         }
       });
@@ -5,7 +5,7 @@
 import {Selection, max as d3max} from 'd3';
 import DataProvider from '../provider/ADataProvider';
 import Column from '../model/Column';
-import {createSVG} from '../renderer/index';
+import {createSVG, createGroupSVG} from '../renderer/index';
 import {ISlicer, IBodyRenderContext, IRankingData} from './ABodyRenderer';
 import ADOMBodyRenderer from './ADOMBodyRenderer';
 import {IDOMRenderContext} from '../renderer/RendererContexts';
@@ -38,10 +38,11 @@ const domMappings = {
       $slopes.attr('transform', (d, i) => `translate(${callback(d, i)},0)`);
     },
     creator: createSVG,
+    groupCreator: createGroupSVG,
     translate: (n: SVGElement, x: number, y: number) => n.setAttribute('transform', `translate(${x},${y})`),
-    transform: (sel: Selection<any>, callback: (d: any, i: number) => [number, number]) => {
-      sel.attr('transform', (d, i) => {
-        const r = callback(d, i);
+    transform: (sel: Selection<any>, callback: (d: any, i: number, j?: number) => [number, number]) => {
+      sel.attr('transform', (d, i, j?) => {
+        const r = callback(d, i, j);
         return `translate(${r[0]},${r[1]})`;
       });
     }
@@ -57,6 +58,16 @@ export default class SVGBodyRenderer extends ADOMBodyRenderer {
     let $base = this.$node.select('defs.body');
     if ($base.empty()) {
       $base = this.$node.append('defs').classed('body', true);
+      //diagonal white lines of missing values like the canvas pattern of the BarCellRenderer
+      $base.append('pattern').attr({
+        id: `${context.idPrefix}MissingHatch`,
+        width: 4,
+        height: 4,
+        patternUnits: 'userSpaceOnUse'
+      }).append('path').attr({
+        d: 'M0,4L4,0',
+        stroke: 'rgba(255, 255, 255, 0.7)'
+      });
     }
 
     //generate clip paths for the text columns to avoid text overflow
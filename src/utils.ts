@@ -155,6 +155,7 @@ export function offset(element) {
 export interface IContentScrollerOptions {
   topShift?(): number;
   backupRows?: number;
+  prefetchRows?: number;
   rowHeight?: number;
 }
 
@@ -176,6 +177,10 @@ export class ContentScroller extends AEventDispatcher {
      * backup rows, i.e .the number of rows that should also be shown for avoiding to frequent updates
      */
     backupRows: 5,
+    /**
+     * number of rows above and below the shown ones that should be prefetched
+     */
+    prefetchRows: 20,
     /**
      * the height of one row in pixel
      */
@@ -233,10 +238,15 @@ export class ContentScroller extends AEventDispatcher {
    * @param start start of the range
    * @param length length of the range
    * @param row2y lookup for computing the y position of a given row
-   * @returns {{from: number, to: number}} the slide to show
+   * @returns {{from: number, to: number, prefetch: {from: number, to: number}}} the slide to show and the one to prefetch
    */
   select(start: number, length: number, row2y: (i: number) => number) {
-    return this.selectImpl(start, length, row2y, this.options.backupRows);
+    const r = this.selectImpl(start, length, row2y, this.options.backupRows);
+    return {
+      from: r.from,
+      to: r.to,
+      prefetch: this.selectImpl(start, length, row2y, this.options.backupRows + this.options.prefetchRows)
+    };
   }
 
   private selectImpl(start: number, length: number, row2y: (i: number) => number, backupRows: number) {
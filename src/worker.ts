@@ -0,0 +1,6 @@
+/**
+ * entry point of the web worker used by the LocalDataProvider, see the workerUrl option
+ */
+import {initWorker} from './provider/worker';
+
+initWorker(<any>self);
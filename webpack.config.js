@@ -53,7 +53,10 @@ function generate(bundle, min) {
       ]
     }
   };
-  if (!bundle) {
+  if (bundle) {
+    //the web worker of the LocalDataProvider, needs to be self contained
+    base.entry.LineUpJS_worker = './src/worker.ts';
+  } else {
     //don't bundle d3
     base.externals.d3 = 'd3';
 
@@ -77,8 +80,36 @@ var library_min = generate(false, true);
 var bundle = generate(true, false);
 var bundle_min = generate(true, true);
 
+//node version of the reference server implementation of the HTTPServerData protocol, see demo/server.js
+var server = {
+  entry: {
+    'LineUpJS_server': './src/server.ts'
+  },
+  target: 'node',
+  output: {
+    path: path.resolve('./build'),
+    filename: '[name].js',
+    libraryTarget: 'commonjs2'
+  },
+  resolve: library.resolve,
+  plugins: [
+    new webpack.BannerPlugin({
+      banner: banner,
+      raw: true
+    })
+  ],
+  module: {
+    loaders: [
+      {
+        test: /\.tsx?$/,
+        loader: 'awesome-typescript-loader'
+      }
+    ]
+  }
+};
+
 if (process.argv[2] === '--watch') { //aka called as: webpack --watch
   module.exports = library;
 } else {
-  module.exports = [library, library_min, bundle, bundle_min];
+  module.exports = [library, library_min, bundle, bundle_min, server];
 }